@@ -1,6 +1,42 @@
-import { VariableDeclaration, Node } from "ts-morph";
+import {
+  VariableDeclaration,
+  PropertyDeclaration,
+  Node,
+  Identifier,
+} from "ts-morph";
+
+export interface ExpressDetectionConfig {
+  /** Extra function names whose return value is a router (e.g., makeRouter) */
+  routerFactories?: string[];
+  /** Extra modules whose imports produce routers when called (e.g., express-promise-router) */
+  routerModules?: string[];
+}
+
+/**
+ * A variable or class property that may hold an Express app or router,
+ * e.g. `const router = Router()` or `public router = Router()`
+ */
+type ExpressCandidate = VariableDeclaration | PropertyDeclaration;
+
+const EXPRESS_APP_TYPE_NAMES = new Set(["Express", "Application"]);
+const EXPRESS_ROUTER_TYPE_NAMES = new Set(["Router"]);
+
+/**
+ * Typings that declare the Express app and router interfaces
+ */
+const EXPRESS_TYPINGS_PATTERN =
+  /\/node_modules\/(@types\/)?express(-serve-static-core)?\//;
+
+export function isExpressApp(variable: ExpressCandidate): boolean {
+  const typeName = getExpressTypeName(variable);
+  if (typeName) {
+    return EXPRESS_APP_TYPE_NAMES.has(typeName);
+  }
+
+  if (isAnnotatedAs(variable, EXPRESS_APP_TYPE_NAMES)) {
+    return true;
+  }
 
-export function isExpressApp(variable: VariableDeclaration): boolean {
   const initializer = variable.getInitializer();
   if (!initializer) {
     return false;
@@ -10,13 +46,30 @@ export function isExpressApp(variable: VariableDeclaration): boolean {
     const expression = initializer.getExpression();
     const expressionText = expression.getText();
 
-    return expressionText === "express" || expressionText === "express()";
+    return (
+      expressionText === "express" ||
+      expressionText === "express()" ||
+      isImportedFrom(expression, "express", "default") ||
+      isImportedFrom(expression, "express", "*")
+    );
   }
 
   return false;
 }
 
-export function isRouter(variable: VariableDeclaration): boolean {
+export function isRouter(
+  variable: ExpressCandidate,
+  config?: ExpressDetectionConfig,
+): boolean {
+  const typeName = getExpressTypeName(variable);
+  if (typeName) {
+    return EXPRESS_ROUTER_TYPE_NAMES.has(typeName);
+  }
+
+  if (isAnnotatedAs(variable, EXPRESS_ROUTER_TYPE_NAMES)) {
+    return true;
+  }
+
   const initializer = variable.getInitializer();
   if (!initializer) {
     return false;
@@ -30,9 +83,137 @@ export function isRouter(variable: VariableDeclaration): boolean {
       expressionText === "Router" ||
       expressionText === "express.Router" ||
       expressionText === "Router()" ||
-      expressionText === "express.Router()"
+      expressionText === "express.Router()" ||
+      isImportedFrom(expression, "express", "Router") ||
+      isRouterFactoryCall(expression, config)
     );
   }
 
   return false;
 }
+
+/**
+ * Resolves the variable's type through the type checker and returns its name
+ * if it is one of the interfaces declared by the Express typings.
+ * Returns undefined when the type does not come from Express (or the typings
+ * are not installed), so callers can fall back to name heuristics.
+ */
+function getExpressTypeName(variable: ExpressCandidate): string | undefined {
+  const type = variable.getType();
+  const symbol = type.getAliasSymbol() ?? type.getSymbol();
+  if (!symbol) {
+    return undefined;
+  }
+
+  const declaredByExpress = symbol
+    .getDeclarations()
+    .some((decl) =>
+      EXPRESS_TYPINGS_PATTERN.test(decl.getSourceFile().getFilePath()),
+    );
+
+  return declaredByExpress ? symbol.getName() : undefined;
+}
+
+/**
+ * Checks the explicit type annotation by name, e.g. `const app: Express = createApp()`
+ */
+function isAnnotatedAs(
+  variable: ExpressCandidate,
+  typeNames: Set<string>,
+): boolean {
+  const typeNode = variable.getTypeNode();
+  if (!typeNode || !Node.isTypeReference(typeNode)) {
+    return false;
+  }
+
+  const typeName = typeNode.getTypeName();
+  const name = Node.isQualifiedName(typeName)
+    ? typeName.getRight().getText()
+    : typeName.getText();
+  return typeNames.has(name);
+}
+
+/**
+ * Checks if a callee refers to an import from the given module.
+ * `importName` is the exported name, or "default" for default imports;
+ * `e.Router` on a default/namespace import `e` also matches "Router".
+ */
+function isImportedFrom(
+  expression: Node,
+  moduleName: string,
+  importName: string,
+): boolean {
+  if (Node.isPropertyAccessExpression(expression)) {
+    const object = expression.getExpression();
+    return (
+      expression.getName() === importName &&
+      Node.isIdentifier(object) &&
+      getImportOf(object)?.moduleName === moduleName
+    );
+  }
+
+  if (!Node.isIdentifier(expression)) {
+    return false;
+  }
+
+  const importInfo = getImportOf(expression);
+  return (
+    importInfo?.moduleName === moduleName &&
+    importInfo.importName === importName
+  );
+}
+
+function isRouterFactoryCall(
+  expression: Node,
+  config?: ExpressDetectionConfig,
+): boolean {
+  const calleeName = Node.isPropertyAccessExpression(expression)
+    ? expression.getName()
+    : expression.getText();
+
+  if (config?.routerFactories?.includes(calleeName)) {
+    return true;
+  }
+
+  const rootIdentifier = Node.isPropertyAccessExpression(expression)
+    ? expression.getExpression()
+    : expression;
+  if (!Node.isIdentifier(rootIdentifier)) {
+    return false;
+  }
+
+  const moduleName = getImportOf(rootIdentifier)?.moduleName;
+  return !!moduleName && !!config?.routerModules?.includes(moduleName);
+}
+
+/**
+ * Finds the import declaration that introduces an identifier.
+ * Returns the module specifier and the imported name ("default" or "*" for
+ * default and namespace imports).
+ */
+export function getImportOf(
+  identifier: Identifier,
+): { moduleName: string; importName: string } | undefined {
+  const name = identifier.getText();
+
+  for (const importDecl of identifier.getSourceFile().getImportDeclarations()) {
+    const moduleName = importDecl.getModuleSpecifierValue();
+
+    if (importDecl.getDefaultImport()?.getText() === name) {
+      return { moduleName, importName: "default" };
+    }
+
+    if (importDecl.getNamespaceImport()?.getText() === name) {
+      return { moduleName, importName: "*" };
+    }
+
+    const namedImport = importDecl
+      .getNamedImports()
+      .find((n) => (n.getAliasNode()?.getText() ?? n.getName()) === name);
+    if (namedImport) {
+      return { moduleName, importName: namedImport.getName() };
+    }
+  }
+
+  return undefined;
+}
@@ -5,11 +5,21 @@ import {
   ArrowFunction,
   FunctionExpression,
   FunctionDeclaration,
+  MethodDeclaration,
+  PropertyAccessExpression,
+  ElementAccessExpression,
+  VariableDeclaration,
+  ParameterDeclaration,
 } from 'ts-morph';
 import { followImport } from './import-follower.mjs';
+import { evaluateStaticString } from './static-evaluator.mjs';
 
 export interface ResolvedHandler {
-  node: ArrowFunction | FunctionExpression | FunctionDeclaration;
+  node:
+    | ArrowFunction
+    | FunctionExpression
+    | FunctionDeclaration
+    | MethodDeclaration;
   kind: SyntaxKind;
   name?: string;
 }
@@ -47,9 +57,26 @@ export interface WrapperConfig {
 export function resolveHandler(
   callExpression: CallExpression,
   wrapperConfig?: WrapperConfig,
+): ResolvedHandler | null {
+  return resolveHandlerFromArguments(
+    callExpression.getArguments(),
+    wrapperConfig,
+  );
+}
+
+/**
+ * Resolves a route handler from the arguments of a route registration,
+ * e.g. the substituted arguments of a route table entry.
+ *
+ * @param args - The path, middleware and handler arguments
+ * @param wrapperConfig - Configuration for wrapper detection (names and/or regex patterns)
+ * @returns The resolved handler or null if not found
+ */
+export function resolveHandlerFromArguments(
+  args: Node[],
+  wrapperConfig?: WrapperConfig,
 ): ResolvedHandler | null {
   const config: WrapperConfig = wrapperConfig || { names: DEFAULT_WRAPPER_NAMES };
-  const args = callExpression.getArguments();
 
   if (args.length === 0) {
     return null;
@@ -72,10 +99,30 @@ function isFunctionLike(node: Node): boolean {
     kind === SyntaxKind.ArrowFunction ||
     kind === SyntaxKind.FunctionExpression ||
     kind === SyntaxKind.Identifier ||
-    kind === SyntaxKind.CallExpression
+    kind === SyntaxKind.PropertyAccessExpression ||
+    kind === SyntaxKind.ElementAccessExpression ||
+    kind === SyntaxKind.CallExpression ||
+    kind === SyntaxKind.ParenthesizedExpression ||
+    kind === SyntaxKind.AsExpression ||
+    kind === SyntaxKind.SatisfiesExpression
   );
 }
 
+/**
+ * Skips parentheses and type assertions around a handler expression, e.g.
+ * `((req, res) => {...}) satisfies RequestHandler<UserParams>`
+ */
+function skipTypeAssertions(node: Node): Node {
+  if (
+    Node.isParenthesizedExpression(node) ||
+    Node.isAsExpression(node) ||
+    Node.isSatisfiesExpression(node)
+  ) {
+    return skipTypeAssertions(node.getExpression());
+  }
+  return node;
+}
+
 /**
  * Check if a CallExpression is calling a known wrapper function.
  * Matches against both exact names and regex patterns.
@@ -122,11 +169,21 @@ function unwrapAndResolve(
     return null;
   }
 
+  node = skipTypeAssertions(node);
   const kind = node.getKind();
 
   // If it's a CallExpression, check if it's a wrapper
   if (kind === SyntaxKind.CallExpression) {
     const callExpr = node as CallExpression;
+    const callee = callExpr.getExpression();
+
+    // Unwrap bound methods, e.g. this.getById.bind(this)
+    if (
+      Node.isPropertyAccessExpression(callee) &&
+      callee.getName() === 'bind'
+    ) {
+      return unwrapAndResolve(callee.getExpression(), config, depth + 1);
+    }
 
     if (isWrapperCall(callExpr, config)) {
       // Get the first argument (the wrapped function)
@@ -165,6 +222,13 @@ function resolveFunctionNode(node: Node): ResolvedHandler | null {
     };
   }
 
+  if (
+    Node.isPropertyAccessExpression(node) ||
+    Node.isElementAccessExpression(node)
+  ) {
+    return resolveMemberHandler(node);
+  }
+
   if (kind === SyntaxKind.Identifier) {
     const definitions = node.asKind(SyntaxKind.Identifier)!.getDefinitions();
 
@@ -184,16 +248,17 @@ function resolveFunctionNode(node: Node): ResolvedHandler | null {
       if (Node.isVariableDeclaration(declNode)) {
         const initializer = declNode.getInitializer();
         if (initializer) {
-          if (Node.isArrowFunction(initializer)) {
+          const handler = skipTypeAssertions(initializer);
+          if (Node.isArrowFunction(handler)) {
             return {
-              node: initializer,
+              node: handler,
               kind: SyntaxKind.ArrowFunction,
               name: declNode.getName(),
             };
           }
-          if (Node.isFunctionExpression(initializer)) {
+          if (Node.isFunctionExpression(handler)) {
             return {
-              node: initializer,
+              node: handler,
               kind: SyntaxKind.FunctionExpression,
               name: declNode.getName(),
             };
@@ -206,6 +271,113 @@ function resolveFunctionNode(node: Node): ResolvedHandler | null {
   return null;
 }
 
+/**
+ * Resolves a member handler to the function it refers to:
+ * - class methods and function properties (userController.getById, this.getById)
+ * - object literal properties (userHandlers.list, userHandlers['list']),
+ *   including spread objects and shorthand properties
+ * - namespace import members (handlers.list)
+ *
+ * The handler is named after its owner, e.g. `UserController.getById` or
+ * `userHandlers.list`; object members are named after the object they are
+ * accessed on, which may be a spread or re-export of the declaring object.
+ */
+function resolveMemberHandler(
+  node: PropertyAccessExpression | ElementAccessExpression,
+): ResolvedHandler | null {
+  const argument = Node.isElementAccessExpression(node)
+    ? node.getArgumentExpression()
+    : undefined;
+  const memberName = Node.isPropertyAccessExpression(node)
+    ? node.getName()
+    : argument && evaluateStaticString(argument);
+  if (!memberName) {
+    return null;
+  }
+
+  const object = node.getExpression();
+  const symbol =
+    (Node.isPropertyAccessExpression(node)
+      ? node.getNameNode().getSymbol()
+      : undefined) ?? object.getType().getProperty(memberName);
+  const target = symbol?.isAlias() ? symbol.getAliasedSymbol() : symbol;
+
+  for (const declNode of target?.getDeclarations() ?? []) {
+    const resolved = resolveMemberDeclaration(declNode);
+    if (resolved) {
+      const owner = getMemberOwnerName(declNode, object) ?? object.getText();
+      return { ...resolved, name: `${owner}.${memberName}` };
+    }
+  }
+
+  return null;
+}
+
+function resolveMemberDeclaration(declNode: Node): ResolvedHandler | null {
+  if (Node.isMethodDeclaration(declNode) && declNode.hasBody()) {
+    return { node: declNode, kind: SyntaxKind.MethodDeclaration };
+  }
+
+  if (Node.isFunctionDeclaration(declNode)) {
+    return { node: declNode, kind: SyntaxKind.FunctionDeclaration };
+  }
+
+  if (Node.isShorthandPropertyAssignment(declNode)) {
+    return resolveFunctionNode(declNode.getNameNode());
+  }
+
+  if (
+    Node.isPropertyDeclaration(declNode) ||
+    Node.isPropertyAssignment(declNode) ||
+    Node.isVariableDeclaration(declNode)
+  ) {
+    const initializer = declNode.getInitializer();
+    return initializer
+      ? resolveFunctionNode(skipTypeAssertions(initializer))
+      : null;
+  }
+
+  return null;
+}
+
+/**
+ * Name of the owner of a member: the class that declares it, e.g.
+ * `UserController`, or for object members the object accessed at the route
+ * (`merged` in `merged.remove`), falling back to the variable that declares
+ * the object (`userHandlers` for `const userHandlers = { ... }`)
+ */
+function getMemberOwnerName(
+  declNode: Node,
+  accessedObject: Node,
+): string | undefined {
+  const owner = declNode.getParent();
+
+  if (Node.isClassDeclaration(owner)) {
+    return owner.getName();
+  }
+
+  if (Node.isObjectLiteralExpression(owner)) {
+    if (Node.isIdentifier(accessedObject)) {
+      return accessedObject.getText();
+    }
+    if (Node.isPropertyAccessExpression(accessedObject)) {
+      return accessedObject.getName();
+    }
+
+    let current = owner.getParent();
+    while (
+      Node.isAsExpression(current) ||
+      Node.isSatisfiesExpression(current) ||
+      Node.isParenthesizedExpression(current)
+    ) {
+      current = current.getParent();
+    }
+    return Node.isVariableDeclaration(current) ? current.getName() : undefined;
+  }
+
+  return undefined;
+}
+
 /**
  * Resolves a function call expression to its function definition
  * Follows imports if the function is defined in another file
@@ -251,19 +423,69 @@ export function resolveFunctionDefinition(
 }
 
 /**
- * Gets the parameter name at a specific index in a function
+ * Gets the parameter name at a specific index in a function or method.
+ * Returns null for destructured parameters and for nodes that are not functions.
  */
 export function getParameterNameAtIndex(
-  functionNode: FunctionDeclaration | ArrowFunction | FunctionExpression,
+  functionNode: Node,
   index: number,
 ): string | null {
-  const params = functionNode.getParameters();
-  if (index >= params.length) return null;
+  return getParameterAtIndex(functionNode, index)?.getName() ?? null;
+}
 
-  const param = params[index];
-  if (Node.isParameterDeclaration(param)) {
-    return param.getName();
+/**
+ * Gets the parameter at a specific index in a function or method, like
+ * getParameterNameAtIndex but returning the declaration
+ */
+export function getParameterAtIndex(
+  functionNode: Node,
+  index: number,
+): ParameterDeclaration | null {
+  if (
+    !Node.isFunctionDeclaration(functionNode) &&
+    !Node.isArrowFunction(functionNode) &&
+    !Node.isFunctionExpression(functionNode) &&
+    !Node.isMethodDeclaration(functionNode)
+  ) {
+    return null;
   }
 
-  return null;
+  const param = functionNode.getParameters()[index];
+  return param && Node.isIdentifier(param.getNameNode()) ? param : null;
+}
+
+/**
+ * Finds the local variables returned by a function, e.g. `r` in
+ * function createRouter() { const r = Router(); r.get(...); return r; }
+ * Return statements of nested functions are ignored.
+ */
+export function findReturnedVariables(
+  functionNode: FunctionDeclaration | ArrowFunction | FunctionExpression,
+): VariableDeclaration[] {
+  const returnStatements = functionNode
+    .getDescendantsOfKind(SyntaxKind.ReturnStatement)
+    .filter(
+      (returnStatement) =>
+        returnStatement.getFirstAncestor(
+          (ancestor) =>
+            Node.isFunctionDeclaration(ancestor) ||
+            Node.isFunctionExpression(ancestor) ||
+            Node.isArrowFunction(ancestor) ||
+            Node.isMethodDeclaration(ancestor),
+        ) === functionNode,
+    );
+
+  return returnStatements.flatMap((returnStatement) => {
+    const expression = returnStatement.getExpression();
+    if (!expression || !Node.isIdentifier(expression)) {
+      return [];
+    }
+
+    return expression
+      .getDefinitions()
+      .map((def) => def.getDeclarationNode())
+      .filter((declNode): declNode is VariableDeclaration =>
+        Node.isVariableDeclaration(declNode),
+      );
+  });
 }
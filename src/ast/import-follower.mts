@@ -3,8 +3,43 @@ import {
   Node,
   FunctionDeclaration,
   VariableDeclaration,
+  SourceFile,
 } from 'ts-morph';
 
+/**
+ * Collects the source files reachable from an entry file through imports and
+ * re-exports (`export * from './users'`), starting with the entry file.
+ * Declaration files and node_modules are not followed.
+ */
+export function getReachableSourceFiles(entry: SourceFile): SourceFile[] {
+  const reachable = new Set<SourceFile>();
+  const pending = [entry];
+
+  while (pending.length > 0) {
+    const sourceFile = pending.shift()!;
+    if (
+      reachable.has(sourceFile) ||
+      sourceFile.isDeclarationFile() ||
+      sourceFile.isInNodeModules()
+    ) {
+      continue;
+    }
+    reachable.add(sourceFile);
+
+    for (const declaration of [
+      ...sourceFile.getImportDeclarations(),
+      ...sourceFile.getExportDeclarations(),
+    ]) {
+      const target = declaration.getModuleSpecifierSourceFile();
+      if (target) {
+        pending.push(target);
+      }
+    }
+  }
+
+  return [...reachable];
+}
+
 export function followImport(
   identifier: Identifier,
 ): FunctionDeclaration | VariableDeclaration | null {
@@ -0,0 +1,287 @@
+import {
+  Node,
+  CallExpression,
+  SyntaxKind,
+  ObjectLiteralExpression,
+  BindingName,
+} from 'ts-morph';
+import {
+  NodeSubstitution,
+  resolveConstInitializer,
+  resolveObjectLiteral,
+} from './static-evaluator.mjs';
+
+const MAX_DEPTH = 10;
+
+/**
+ * Array methods whose callback is invoked once per table entry
+ */
+const ITERATION_METHODS = ['forEach', 'map'];
+
+/**
+ * A single route registration produced by one route table entry
+ */
+export interface RouteTableRegistration {
+  /** The method expression, i.e. the element access argument of app[method] */
+  method: Node;
+  /** The call arguments: path followed by middleware and handler */
+  args: Node[];
+  /**
+   * Replaces references to the loop variable with the entry's values inside
+   * an argument, e.g. `r.path` in `'/api' + r.path`
+   */
+  substitute?: NodeSubstitution;
+}
+
+/**
+ * A route table iterated into element-access registrations
+ */
+export interface RouteTableLoop {
+  /** The forEach()/map() call or for...of statement iterating the table */
+  loop: Node;
+  registrations: RouteTableRegistration[];
+}
+
+interface TableIteration {
+  loop: Node;
+  iterable: Node;
+  binding: BindingName;
+}
+
+/**
+ * Expands a registration with a computed method name inside a loop over a
+ * static route table into one registration per table entry. References to
+ * the loop variable (`r.path`, or `path` when destructured) are replaced by
+ * the matching property of each entry.
+ *
+ * @param registration - The registration call, e.g. `app[r.method](r.path, r.handler)`
+ * @returns The expanded registrations, or null if the call is not inside a
+ * loop over a statically known table
+ *
+ * @example
+ * // const routes = [{ method: 'get', path: '/users', handler: listUsers }];
+ * // routes.forEach((r) => app[r.method](r.path, r.handler));
+ * // => [{ method: 'get', args: ['/users', listUsers] }]
+ */
+export function expandRouteTable(
+  registration: CallExpression,
+): RouteTableLoop | null {
+  const elementAccess = registration.getExpression();
+  if (!Node.isElementAccessExpression(elementAccess)) {
+    return null;
+  }
+
+  const methodArg = elementAccess.getArgumentExpression();
+  const iteration = findIteration(registration);
+  if (!methodArg || !iteration) {
+    return null;
+  }
+
+  const entries = resolveTableEntries(iteration.iterable, 0);
+  if (!entries) {
+    return null;
+  }
+
+  return {
+    loop: iteration.loop,
+    registrations: entries.map((entry) => {
+      const substitute = (node: Node) =>
+        getEntryValue(node, iteration.binding, entry);
+      const replace = (node: Node) => substitute(node) ?? node;
+      return {
+        method: replace(methodArg),
+        args: registration.getArguments().map(replace),
+        substitute,
+      };
+    }),
+  };
+}
+
+/**
+ * Finds the innermost loop around a node: a for...of statement or the
+ * callback of table.forEach()/table.map(). Stops at any other function.
+ */
+function findIteration(node: Node): TableIteration | null {
+  let current = node.getParent();
+
+  while (current) {
+    if (Node.isForOfStatement(current)) {
+      const initializer = current.getInitializer();
+      const declaration = Node.isVariableDeclarationList(initializer)
+        ? initializer.getDeclarations()[0]
+        : undefined;
+      return declaration
+        ? {
+            loop: current,
+            iterable: current.getExpression(),
+            binding: declaration.getNameNode(),
+          }
+        : null;
+    }
+
+    if (
+      Node.isArrowFunction(current) ||
+      Node.isFunctionExpression(current) ||
+      Node.isFunctionDeclaration(current) ||
+      Node.isMethodDeclaration(current)
+    ) {
+      return getCallbackIteration(current);
+    }
+
+    current = current.getParent();
+  }
+
+  return null;
+}
+
+function getCallbackIteration(callback: Node): TableIteration | null {
+  const call = callback.getParentIfKind(SyntaxKind.CallExpression);
+  const expression = call?.getExpression();
+  const binding =
+    Node.isArrowFunction(callback) || Node.isFunctionExpression(callback)
+      ? callback.getParameters()[0]?.getNameNode()
+      : undefined;
+
+  if (
+    !call ||
+    call.getArguments()[0] !== callback ||
+    !Node.isPropertyAccessExpression(expression) ||
+    !ITERATION_METHODS.includes(expression.getName()) ||
+    !binding
+  ) {
+    return null;
+  }
+
+  return { loop: call, iterable: expression.getExpression(), binding };
+}
+
+/**
+ * Resolves the table being iterated to its object literal entries.
+ * Supports array literals (with spreads), `Object.values(obj)` and
+ * references to const variables, including imported ones.
+ */
+function resolveTableEntries(
+  node: Node,
+  depth: number,
+): ObjectLiteralExpression[] | null {
+  if (depth > MAX_DEPTH) {
+    return null;
+  }
+
+  if (
+    Node.isParenthesizedExpression(node) ||
+    Node.isAsExpression(node) ||
+    Node.isSatisfiesExpression(node)
+  ) {
+    return resolveTableEntries(node.getExpression(), depth + 1);
+  }
+
+  if (Node.isArrayLiteralExpression(node)) {
+    const entries: ObjectLiteralExpression[] = [];
+    for (const element of node.getElements()) {
+      const resolved = Node.isSpreadElement(element)
+        ? resolveTableEntries(element.getExpression(), depth + 1)
+        : resolveEntry(element, depth + 1);
+      if (!resolved) {
+        return null;
+      }
+      entries.push(...resolved);
+    }
+    return entries;
+  }
+
+  if (Node.isCallExpression(node)) {
+    if (node.getExpression().getText() !== 'Object.values') {
+      return null;
+    }
+    const [arg] = node.getArguments();
+    const object =
+      arg && resolveObjectLiteral(arg, resolveConstInitializer, depth + 1);
+    return object ? resolveObjectValues(object, depth + 1) : null;
+  }
+
+  const value = resolveConstInitializer(node);
+  return value ? resolveTableEntries(value, depth + 1) : null;
+}
+
+function resolveEntry(
+  node: Node,
+  depth: number,
+): ObjectLiteralExpression[] | null {
+  const entry = resolveObjectLiteral(node, resolveConstInitializer, depth);
+  return entry ? [entry] : null;
+}
+
+function resolveObjectValues(
+  object: ObjectLiteralExpression,
+  depth: number,
+): ObjectLiteralExpression[] | null {
+  const entries: ObjectLiteralExpression[] = [];
+
+  for (const property of object.getProperties()) {
+    const value = Node.isPropertyAssignment(property)
+      ? property.getInitializer()
+      : Node.isShorthandPropertyAssignment(property)
+        ? property.getNameNode()
+        : undefined;
+    const entry =
+      value && resolveObjectLiteral(value, resolveConstInitializer, depth);
+    if (!entry) {
+      return null;
+    }
+    entries.push(entry);
+  }
+
+  return entries;
+}
+
+/**
+ * Reads the entry's value for a reference to the loop variable: `r.path`
+ * for an identifier binding, or `path` for a destructured one.
+ * Returns undefined for any other node.
+ */
+function getEntryValue(
+  node: Node,
+  binding: BindingName,
+  entry: ObjectLiteralExpression,
+): Node | undefined {
+  if (Node.isIdentifier(binding)) {
+    if (
+      Node.isPropertyAccessExpression(node) &&
+      node.getExpression().getText() === binding.getText()
+    ) {
+      return getEntryProperty(entry, node.getName());
+    }
+    return undefined;
+  }
+
+  if (Node.isObjectBindingPattern(binding) && Node.isIdentifier(node)) {
+    const element = binding
+      .getElements()
+      .find((e) => e.getName() === node.getText());
+    if (element) {
+      const propertyName =
+        element.getPropertyNameNode()?.getText() ?? element.getName();
+      return getEntryProperty(entry, propertyName) ?? element.getInitializer();
+    }
+  }
+
+  return undefined;
+}
+
+function getEntryProperty(
+  entry: ObjectLiteralExpression,
+  name: string,
+): Node | undefined {
+  const property = entry.getProperty(name);
+
+  if (Node.isPropertyAssignment(property)) {
+    return property.getInitializer();
+  }
+
+  if (Node.isShorthandPropertyAssignment(property)) {
+    return property.getNameNode();
+  }
+
+  return undefined;
+}
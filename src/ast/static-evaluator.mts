@@ -0,0 +1,407 @@
+import {
+  Node,
+  TemplateExpression,
+  BinaryExpression,
+  VariableDeclarationKind,
+  ObjectLiteralExpression,
+  Symbol as TsSymbol,
+} from 'ts-morph';
+import { SchemaObject } from '../types/openapi.mjs';
+
+const MAX_DEPTH = 10;
+
+/**
+ * Replaces a subexpression with the node holding its value, or returns
+ * undefined to evaluate the subexpression as is
+ */
+export type NodeSubstitution = (node: Node) => Node | undefined;
+
+/**
+ * Statically evaluates an expression to a string, e.g. a route path.
+ *
+ * Supports string literals, literal types known to the type checker,
+ * template literals, `+` concatenation, and references to const variables,
+ * object literal properties and enum members (including imported ones).
+ *
+ * @param node - The expression to evaluate
+ * @param substitute - Replaces subexpressions before they are evaluated, e.g.
+ * the loop variable of a route table with each entry's value
+ * @returns The evaluated string, or null if it cannot be determined statically
+ *
+ * @example
+ * // const API_PREFIX = '/api/v2';
+ * // evaluateStaticString(`${API_PREFIX}/users`) => '/api/v2/users'
+ */
+export function evaluateStaticString(
+  node: Node,
+  substitute?: NodeSubstitution,
+): string | null {
+  return evaluate(node, 0, substitute);
+}
+
+function evaluate(
+  node: Node,
+  depth: number,
+  substitute?: NodeSubstitution,
+): string | null {
+  if (depth > MAX_DEPTH) {
+    return null;
+  }
+
+  const replacement = substitute?.(node);
+  if (replacement) {
+    return evaluate(replacement, depth + 1);
+  }
+
+  if (
+    Node.isStringLiteral(node) ||
+    Node.isNoSubstitutionTemplateLiteral(node)
+  ) {
+    return node.getLiteralValue();
+  }
+
+  if (Node.isNumericLiteral(node)) {
+    return String(node.getLiteralValue());
+  }
+
+  if (
+    Node.isParenthesizedExpression(node) ||
+    Node.isAsExpression(node) ||
+    Node.isSatisfiesExpression(node)
+  ) {
+    return evaluate(node.getExpression(), depth + 1, substitute);
+  }
+
+  if (Node.isTemplateExpression(node)) {
+    return evaluateTemplate(node, depth, substitute);
+  }
+
+  if (Node.isBinaryExpression(node)) {
+    return evaluateConcatenation(node, depth, substitute);
+  }
+
+  return evaluateLiteralType(node) ?? evaluateReference(node, depth);
+}
+
+function evaluateTemplate(
+  node: TemplateExpression,
+  depth: number,
+  substitute?: NodeSubstitution,
+): string | null {
+  let result = node.getHead().getLiteralText();
+
+  for (const span of node.getTemplateSpans()) {
+    const value = evaluate(span.getExpression(), depth + 1, substitute);
+    if (value === null) {
+      return null;
+    }
+    result += value + span.getLiteral().getLiteralText();
+  }
+
+  return result;
+}
+
+function evaluateConcatenation(
+  node: BinaryExpression,
+  depth: number,
+  substitute?: NodeSubstitution,
+): string | null {
+  if (node.getOperatorToken().getText() !== '+') {
+    return null;
+  }
+
+  const left = evaluate(node.getLeft(), depth + 1, substitute);
+  const right = evaluate(node.getRight(), depth + 1, substitute);
+
+  return left !== null && right !== null ? left + right : null;
+}
+
+/**
+ * Uses the type checker to read string/number literal types,
+ * e.g. `const PREFIX = '/api'` or `ROUTES.users` on an `as const` object.
+ */
+function evaluateLiteralType(node: Node): string | null {
+  const type = node.getType();
+  if (type.isStringLiteral() || type.isNumberLiteral()) {
+    return String(type.getLiteralValue());
+  }
+  return null;
+}
+
+/**
+ * Follows an identifier, property access or element access to its declaration
+ * and evaluates the declared value.
+ */
+function evaluateReference(node: Node, depth: number): string | null {
+  const symbolNode = Node.isPropertyAccessExpression(node)
+    ? node.getNameNode()
+    : Node.isElementAccessExpression(node)
+      ? node.getArgumentExpression()
+      : Node.isIdentifier(node)
+        ? node
+        : undefined;
+
+  return evaluateSymbol(symbolNode?.getSymbol(), depth);
+}
+
+function evaluateSymbol(
+  symbol: TsSymbol | undefined,
+  depth: number,
+): string | null {
+  if (!symbol) {
+    return null;
+  }
+
+  const target = symbol.isAlias() ? symbol.getAliasedSymbol() : symbol;
+  const declaration =
+    target?.getValueDeclaration() ?? target?.getDeclarations()[0];
+  if (!declaration) {
+    return null;
+  }
+
+  if (Node.isVariableDeclaration(declaration)) {
+    const kind = declaration.getVariableStatement()?.getDeclarationKind();
+    const initializer = declaration.getInitializer();
+    if (kind !== VariableDeclarationKind.Const || !initializer) {
+      return null;
+    }
+    return evaluate(initializer, depth + 1);
+  }
+
+  if (Node.isPropertyAssignment(declaration)) {
+    const initializer = declaration.getInitializer();
+    return initializer ? evaluate(initializer, depth + 1) : null;
+  }
+
+  if (Node.isShorthandPropertyAssignment(declaration)) {
+    return evaluateSymbol(declaration.getValueSymbol(), depth + 1);
+  }
+
+  if (Node.isEnumMember(declaration)) {
+    const value = declaration.getValue();
+    return value === undefined ? null : String(value);
+  }
+
+  return null;
+}
+
+/**
+ * Statically evaluates a literal value, e.g. a schema default or an enum
+ * value: strings (including constants), numbers, booleans, null and arrays
+ * and object literals of those.
+ *
+ * @param node - The expression to evaluate
+ * @returns The value, or undefined if it cannot be determined statically
+ */
+export function evaluateStaticValue(node: Node): unknown {
+  if (Node.isNumericLiteral(node)) {
+    return node.getLiteralValue();
+  }
+
+  if (
+    Node.isParenthesizedExpression(node) ||
+    Node.isAsExpression(node) ||
+    Node.isSatisfiesExpression(node)
+  ) {
+    return evaluateStaticValue(node.getExpression());
+  }
+
+  if (
+    Node.isPrefixUnaryExpression(node) &&
+    Node.isNumericLiteral(node.getOperand())
+  ) {
+    const value = Number(node.getText());
+    return Number.isNaN(value) ? undefined : value;
+  }
+
+  if (Node.isTrueLiteral(node) || Node.isFalseLiteral(node)) {
+    return node.getLiteralValue();
+  }
+
+  if (Node.isNullLiteral(node)) {
+    return null;
+  }
+
+  if (Node.isArrayLiteralExpression(node)) {
+    const values = node.getElements().map(evaluateStaticValue);
+    return values.every((v) => v !== undefined) ? values : undefined;
+  }
+
+  if (Node.isObjectLiteralExpression(node)) {
+    const entries = node.getProperties().map((property) => {
+      if (!Node.isPropertyAssignment(property)) {
+        return undefined;
+      }
+      const nameNode = property.getNameNode();
+      const key = Node.isIdentifier(nameNode)
+        ? nameNode.getText()
+        : evaluateStaticString(nameNode);
+      const value = evaluateStaticValue(property.getInitializerOrThrow());
+      return key === null || value === undefined ? undefined : [key, value];
+    });
+    return entries.every((e) => e !== undefined)
+      ? Object.fromEntries(entries)
+      : undefined;
+  }
+
+  const type = node.getType();
+  if (type.isNumberLiteral()) {
+    return Number(type.getLiteralValue());
+  }
+
+  return evaluateStaticString(node) ?? undefined;
+}
+
+/**
+ * Statically evaluates the values of an enum-like expression: an array of
+ * literals (`['a', 'b']`), a constant object (`{ A: 'a' } as const`) or a
+ * TypeScript enum, given inline or through a reference to it.
+ *
+ * @param node - The expression to evaluate, e.g. the argument of `z.enum()`
+ * @returns The values, or null if they cannot be determined statically
+ *
+ * @example
+ * // const ROLES = ['admin', 'user'] as const;
+ * // evaluateEnumValues(ROLES) => ['admin', 'user']
+ */
+export function evaluateEnumValues(node: Node, depth = 0): unknown[] | null {
+  if (depth > MAX_DEPTH) {
+    return null;
+  }
+
+  if (
+    Node.isParenthesizedExpression(node) ||
+    Node.isAsExpression(node) ||
+    Node.isSatisfiesExpression(node)
+  ) {
+    return evaluateEnumValues(node.getExpression(), depth + 1);
+  }
+
+  if (
+    Node.isArrayLiteralExpression(node) ||
+    Node.isObjectLiteralExpression(node)
+  ) {
+    const value = evaluateStaticValue(node);
+    if (Array.isArray(value)) {
+      return value;
+    }
+    return value && typeof value === 'object' ? Object.values(value) : null;
+  }
+
+  const declaration = getSymbolDeclaration(node.getSymbol());
+  if (Node.isEnumDeclaration(declaration)) {
+    const values = declaration.getMembers().map((member) => member.getValue());
+    return values.every((v) => v !== undefined) ? values : null;
+  }
+
+  const initializer = resolveInitializer(node);
+  return initializer ? evaluateEnumValues(initializer, depth + 1) : null;
+}
+
+/**
+ * Builds an enum schema, typed when all values share a primitive type
+ */
+export function enumSchema(values: unknown[]): SchemaObject {
+  const types = new Set(values.map((v) => typeof v));
+  const [type] = types;
+  return types.size === 1 && ['string', 'number', 'boolean'].includes(type)
+    ? { type, enum: values }
+    : { enum: values };
+}
+
+/**
+ * Follows a reference (`UserSchema`, `schemas.User`, including imported
+ * ones) to the initializer of the variable or property it refers to.
+ *
+ * @param node - An identifier, property access or qualified name
+ * @returns The initializer expression, or undefined if there is none
+ */
+export function resolveInitializer(node: Node): Node | undefined {
+  const nameNode = Node.isPropertyAccessExpression(node)
+    ? node.getNameNode()
+    : Node.isQualifiedName(node)
+      ? node.getRight()
+      : Node.isIdentifier(node)
+        ? node
+        : undefined;
+  const declaration = getSymbolDeclaration(nameNode?.getSymbol());
+
+  if (
+    Node.isVariableDeclaration(declaration) ||
+    Node.isPropertyAssignment(declaration)
+  ) {
+    return declaration.getInitializer();
+  }
+
+  if (Node.isShorthandPropertyAssignment(declaration)) {
+    const value = getSymbolDeclaration(declaration.getValueSymbol());
+    return Node.isVariableDeclaration(value)
+      ? value.getInitializer()
+      : undefined;
+  }
+
+  return undefined;
+}
+
+/**
+ * Like resolveInitializer, but only follows variables declared with `const`,
+ * whose value cannot be reassigned later
+ */
+export function resolveConstInitializer(node: Node): Node | undefined {
+  const initializer = resolveInitializer(node);
+  const declaration = initializer?.getParent();
+  if (
+    Node.isVariableDeclaration(declaration) &&
+    declaration.getVariableStatement()?.getDeclarationKind() !==
+      VariableDeclarationKind.Const
+  ) {
+    return undefined;
+  }
+  return initializer;
+}
+
+/**
+ * Resolves an object literal given inline or through a reference to it,
+ * e.g. the `keys` of `Joi.object(keys)`. Parentheses and `as`/`satisfies`
+ * expressions around it are skipped.
+ *
+ * @param node - An object literal, or a reference to one
+ * @param resolve - Follows a reference to its value, e.g. resolveConstInitializer
+ * @returns The object literal, or undefined if the node does not resolve to one
+ */
+export function resolveObjectLiteral(
+  node: Node,
+  resolve: (node: Node) => Node | undefined = resolveInitializer,
+  depth = 0,
+): ObjectLiteralExpression | undefined {
+  if (depth > MAX_DEPTH) {
+    return undefined;
+  }
+
+  if (Node.isObjectLiteralExpression(node)) {
+    return node;
+  }
+
+  if (
+    Node.isParenthesizedExpression(node) ||
+    Node.isAsExpression(node) ||
+    Node.isSatisfiesExpression(node)
+  ) {
+    return resolveObjectLiteral(node.getExpression(), resolve, depth + 1);
+  }
+
+  const value = resolve(node);
+  return value ? resolveObjectLiteral(value, resolve, depth + 1) : undefined;
+}
+
+function getSymbolDeclaration(symbol: TsSymbol | undefined): Node | undefined {
+  const target = symbol?.isAlias() ? symbol.getAliasedSymbol() : symbol;
+  return target?.getValueDeclaration() ?? target?.getDeclarations()[0];
+}
+
+/**
+ * Formats the file and line of a node for diagnostics, e.g. `src/app.ts:12`
+ */
+export function formatNodeLocation(node: Node): string {
+  return `${node.getSourceFile().getFilePath()}:${node.getStartLineNumber()}`;
+}
@@ -1,5 +1,13 @@
-import { Command } from 'commander';
+import { Command, Option } from 'commander';
 import { generateOpenApiSpec, GenerateOptions } from '../core/orchestrator.mjs';
+import { OPERATION_ID_STRATEGIES } from '../core/spec-builder.mjs';
+import { DecoratorRoutingConfig } from '../core/decorator-discovery.mjs';
+import {
+  ValidationMiddlewareConfig,
+  ValidationTarget,
+  VALIDATION_TARGETS,
+} from '../core/validation-middleware.mjs';
+import { HttpMethod, RouteMethod, HTTP_METHODS } from '../types/internal.mjs';
 import { writeFileSync } from 'fs';
 import { initLogger } from '../utils/logger.mjs';
 
@@ -27,6 +35,52 @@ export function createProgram(): Command {
       '-w, --wrapper-pattern <patterns...>',
       'Regex patterns to match wrapper function names (e.g., asyncHandler, authMiddleware)',
     )
+    .option(
+      '--all-methods <methods...>',
+      'HTTP methods that app.all() routes expand into (e.g., get post)',
+    )
+    .option(
+      '--skip-regex-routes',
+      'Skip routes registered with a RegExp path instead of approximating them',
+    )
+    .option(
+      '--router-factory <names...>',
+      'Function names that return Express routers (e.g., makeRouter)',
+    )
+    .option(
+      '--router-module <modules...>',
+      'Modules whose imports create Express routers (e.g., express-promise-router)',
+    )
+    .addOption(
+      new Option(
+        '--operation-id-strategy <strategy>',
+        'How operationIds are named for member handlers like userHandlers.list',
+      ).choices(OPERATION_ID_STRATEGIES),
+    )
+    .option(
+      '--decorator <mappings...>',
+      'Extra routing decorators as kind:Name, where kind is controller, body, param, query or an HTTP method (e.g., get:HttpGet), or module:specifier for a module re-exporting the default decorators',
+    )
+    .option(
+      '--handler-type <names...>',
+      'Handler type aliases whose type arguments follow RequestHandler<Params, ResBody, ReqBody, ReqQuery> (e.g., AsyncHandler)',
+    )
+    .option(
+      '--infer-responses',
+      'Infer untyped response bodies from res.json() / res.send() calls in handlers',
+    )
+    .option(
+      '--response-map-type <names...>',
+      'Helper types whose first type argument maps status codes to response bodies, besides TypedResponse (e.g., ApiResponse)',
+    )
+    .option(
+      '--header-type <names...>',
+      'Helper types whose first type argument declares the request headers, besides TypedHeaders (e.g., WithHeaders)',
+    )
+    .option(
+      '--validation-middleware <mappings...>',
+      'Validation middleware as name:target[:schemaArgIndex], where target is body, query, params, headers or request (e.g., validateBody:body)',
+    )
     .option('--debug', 'Enable debug logging')
     .action(async (entryPoint: string, options) => {
       try {
@@ -40,6 +94,23 @@ export function createProgram(): Command {
           description: options.description,
           ignorePaths: options.ignore,
           wrapperPatterns: options.wrapperPattern,
+          allMethods: options.allMethods
+            ? parseAllMethods(options.allMethods)
+            : undefined,
+          skipRegexRoutes: options.skipRegexRoutes,
+          routerFactories: options.routerFactory,
+          routerModules: options.routerModule,
+          operationIdStrategy: options.operationIdStrategy,
+          decoratorRouting: options.decorator
+            ? parseDecoratorMappings(options.decorator)
+            : undefined,
+          handlerTypes: options.handlerType,
+          inferResponses: options.inferResponses,
+          responseMapTypes: options.responseMapType,
+          headerTypes: options.headerType,
+          validationMiddleware: options.validationMiddleware
+            ? parseValidationMiddleware(options.validationMiddleware)
+            : undefined,
         };
 
         const spec = await generateOpenApiSpec(generateOptions);
@@ -61,3 +132,103 @@ export function createProgram(): Command {
 
   return program;
 }
+
+const ROUTE_DECORATOR_METHODS: RouteMethod[] = [...HTTP_METHODS, 'all'];
+
+/**
+ * Parse --all-methods values like `GET post`, case-insensitively
+ */
+export function parseAllMethods(methods: string[]): HttpMethod[] {
+  return methods.map((method) => {
+    const normalized = method.toLowerCase() as HttpMethod;
+    if (!HTTP_METHODS.includes(normalized)) {
+      throw new Error(
+        `Invalid HTTP method "${method}" in --all-methods, expected ${HTTP_METHODS.join(', ')}`,
+      );
+    }
+    return normalized;
+  });
+}
+
+/**
+ * Parse --decorator mappings like `controller:ApiController`, `get:HttpGet`
+ * or `module:@acme/http`
+ */
+export function parseDecoratorMappings(
+  mappings: string[],
+): DecoratorRoutingConfig {
+  const config: DecoratorRoutingConfig = {};
+
+  for (const mapping of mappings) {
+    const [kind, name] = mapping.split(':');
+    if (!kind || !name) {
+      throw new Error(
+        `Invalid decorator mapping "${mapping}", expected kind:Name`,
+      );
+    }
+
+    const normalizedKind = kind.toLowerCase();
+    if (normalizedKind === 'controller') {
+      (config.controllerDecorators ??= []).push(name);
+    } else if (normalizedKind === 'body') {
+      (config.bodyDecorators ??= []).push(name);
+    } else if (normalizedKind === 'param') {
+      (config.paramDecorators ??= []).push(name);
+    } else if (normalizedKind === 'query') {
+      (config.queryDecorators ??= []).push(name);
+    } else if (normalizedKind === 'module') {
+      (config.modules ??= []).push(name);
+    } else if (
+      ROUTE_DECORATOR_METHODS.includes(normalizedKind as RouteMethod)
+    ) {
+      config.routeDecorators = {
+        ...config.routeDecorators,
+        [name]: normalizedKind as RouteMethod,
+      };
+    } else {
+      throw new Error(
+        `Invalid decorator kind "${kind}" in "${mapping}", expected controller, body, param, query, module or an HTTP method`,
+      );
+    }
+  }
+
+  return config;
+}
+
+/**
+ * Parse --validation-middleware mappings like `validateBody:body` or
+ * `validate:query:1`
+ */
+export function parseValidationMiddleware(
+  mappings: string[],
+): ValidationMiddlewareConfig[] {
+  return mappings.map((mapping) => {
+    const [name, target, schemaArgument] = mapping.split(':');
+    if (!name || !target) {
+      throw new Error(
+        `Invalid validation middleware "${mapping}", expected name:target[:schemaArgIndex]`,
+      );
+    }
+
+    if (!VALIDATION_TARGETS.includes(target as ValidationTarget)) {
+      throw new Error(
+        `Invalid validation target "${target}" in "${mapping}", expected ${VALIDATION_TARGETS.join(', ')}`,
+      );
+    }
+
+    const config: ValidationMiddlewareConfig = {
+      name,
+      target: target as ValidationTarget,
+    };
+    if (schemaArgument !== undefined) {
+      const index = Number(schemaArgument);
+      if (!Number.isInteger(index) || index < 0) {
+        throw new Error(
+          `Invalid schema argument index "${schemaArgument}" in "${mapping}"`,
+        );
+      }
+      config.schemaArgument = index;
+    }
+    return config;
+  });
+}
@@ -0,0 +1,322 @@
+import {
+  Node,
+  ClassDeclaration,
+  Decorator,
+  PropertyDeclaration,
+} from 'ts-morph';
+import { SchemaObject, ReferenceObject } from '../types/openapi.mjs';
+import { getImportOf } from '../ast/express-checker.mjs';
+import {
+  evaluateStaticValue,
+  evaluateEnumValues,
+  enumSchema,
+} from '../ast/static-evaluator.mjs';
+import { debug } from '../utils/logger.mjs';
+
+const DECORATOR_MODULES = ['class-validator', 'class-transformer'];
+
+/**
+ * Decorators that set the type (and format) of a property
+ */
+const TYPE_DECORATORS: Record<string, SchemaObject> = {
+  IsString: { type: 'string' },
+  IsInt: { type: 'integer' },
+  IsNumber: { type: 'number' },
+  IsNumberString: { type: 'string' },
+  IsBoolean: { type: 'boolean' },
+  IsDate: { type: 'string', format: 'date-time' },
+  IsDateString: { type: 'string', format: 'date-time' },
+  IsISO8601: { type: 'string', format: 'date-time' },
+  IsEmail: { type: 'string', format: 'email' },
+  IsUUID: { type: 'string', format: 'uuid' },
+  IsUrl: { type: 'string', format: 'uri' },
+  IsObject: { type: 'object' },
+};
+
+/**
+ * A class-validator DTO with the nested DTO classes it references
+ */
+export interface ClassValidatorSchema {
+  schema: SchemaObject;
+  /** Classes referenced with `$ref` by `@ValidateNested()` properties */
+  nestedClasses: ClassDeclaration[];
+}
+
+/**
+ * Finds the class-validator DTO a type refers to, e.g. `CreateUserDto` in
+ * `Request<{}, {}, CreateUserDto>`: a class with at least one property
+ * decorated by class-validator or class-transformer.
+ *
+ * @param typeNode - The type node to inspect
+ * @returns The DTO class, or null if the type is not a decorated class
+ */
+export function getValidatedClass(typeNode: Node): ClassDeclaration | null {
+  if (!Node.isTypeReference(typeNode)) {
+    return null;
+  }
+
+  const classDecl = getClassDeclaration(typeNode.getTypeName());
+  const isValidated = classDecl
+    ?.getProperties()
+    .some((property) => property.getDecorators().some(isValidationDecorator));
+
+  return classDecl && isValidated ? classDecl : null;
+}
+
+/**
+ * Adds the constraints of class-validator and class-transformer decorators to
+ * the structural schema of a DTO class:
+ * - `@IsEmail()` / `@IsUUID()` / `@IsDateString()` / `@IsInt()` => type and format
+ * - `@Length(3, 20)` / `@MinLength()` / `@MaxLength()` => minLength/maxLength
+ * - `@Min()` / `@Max()` / `@IsPositive()` => minimum/maximum
+ * - `@Matches(/.../)` => pattern, `@IsEnum(Role)` / `@IsIn([...])` => enum
+ * - `@ArrayMinSize()` / `@ArrayMaxSize()` => minItems/maxItems
+ * - `@IsOptional()` => not required
+ * - `@ValidateNested()` with `@Type(() => AddressDto)` => `$ref` to AddressDto
+ * - `@Expose({ name })` renames and `@Exclude()` removes a property
+ *
+ * Validators with `{ each: true }` apply to array items.
+ *
+ * @param schema - The structural schema of the class
+ * @param classDecl - The DTO class
+ * @returns The schema with constraints and the nested classes it references
+ *
+ * @example
+ * // class CreateUserDto { @IsEmail() email: string; @IsOptional() @IsInt() age?: number }
+ * // => { properties: { email: { type: 'string', format: 'email' }, age: { type: 'integer' } },
+ * //      required: ['email'] }
+ */
+export function applyClassValidatorConstraints(
+  schema: SchemaObject,
+  classDecl: ClassDeclaration,
+): ClassValidatorSchema {
+  const properties: { [key: string]: SchemaObject | ReferenceObject } = {
+    ...schema.properties,
+  };
+  let required: string[] = [...(schema.required ?? [])];
+  const nestedClasses: ClassDeclaration[] = [];
+
+  for (const property of getClassProperties(classDecl)) {
+    const name = property.getName();
+    const decorators = property.getDecorators().filter(isValidationDecorator);
+    if (!(name in properties) || decorators.length === 0) {
+      continue;
+    }
+
+    if (decorators.some((d) => d.getName() === 'Exclude')) {
+      delete properties[name];
+      required = required.filter((n) => n !== name);
+      continue;
+    }
+
+    let propertySchema = properties[name] as SchemaObject;
+    for (const decorator of decorators) {
+      propertySchema = applyDecorator(propertySchema, decorator);
+    }
+
+    const nestedClass = getNestedClass(property, decorators);
+    if (nestedClass?.getName()) {
+      const ref = { $ref: `#/components/schemas/${nestedClass.getName()}` };
+      propertySchema =
+        propertySchema.type === 'array'
+          ? { ...propertySchema, items: ref }
+          : ref;
+      nestedClasses.push(nestedClass);
+    }
+
+    if (decorators.some((d) => d.getName() === 'IsOptional')) {
+      required = required.filter((n) => n !== name);
+    }
+
+    // @Expose({ name: 'user_name' }) renames the property in the payload
+    const exposedName = getExposedName(decorators);
+    delete properties[name];
+    properties[exposedName ?? name] = propertySchema;
+    if (exposedName) {
+      required = required.map((n) => (n === name ? exposedName : n));
+    }
+  }
+
+  debug('✓ Applied class-validator constraints', {
+    className: classDecl.getName(),
+    nestedClasses: nestedClasses.map((c) => c.getName()),
+  });
+
+  const result: SchemaObject = { ...schema, properties };
+  delete result.required;
+  if (required.length > 0) {
+    result.required = required;
+  }
+  return { schema: result, nestedClasses };
+}
+
+function applyDecorator(
+  schema: SchemaObject,
+  decorator: Decorator,
+): SchemaObject {
+  const name = decorator.getName();
+  const args = decorator.getArguments();
+  const options = args[args.length - 1];
+  const each =
+    Node.isObjectLiteralExpression(options) &&
+    evaluateOption(options, 'each') === true;
+
+  // { each: true } validates every item of an array
+  if (each && schema.type === 'array') {
+    const items = (schema.items ?? {}) as SchemaObject;
+    return { ...schema, items: applyConstraint(items, name, args) };
+  }
+
+  return applyConstraint(schema, name, args);
+}
+
+function applyConstraint(
+  schema: SchemaObject,
+  name: string,
+  args: Node[],
+): SchemaObject {
+  const [first, second] = args.map(evaluateStaticValue);
+  const [firstArg] = args;
+
+  if (TYPE_DECORATORS[name]) {
+    return { ...schema, ...TYPE_DECORATORS[name] };
+  }
+
+  switch (name) {
+    case 'Length':
+      return withNumbers(schema, { minLength: first, maxLength: second });
+    case 'MinLength':
+      return withNumbers(schema, { minLength: first });
+    case 'MaxLength':
+      return withNumbers(schema, { maxLength: first });
+    case 'Min':
+      return withNumbers(schema, { minimum: first });
+    case 'Max':
+      return withNumbers(schema, { maximum: first });
+    case 'IsPositive':
+      return { ...schema, minimum: 0, exclusiveMinimum: true };
+    case 'IsNegative':
+      return { ...schema, maximum: 0, exclusiveMaximum: true };
+    case 'ArrayMinSize':
+      return withNumbers(schema, { minItems: first });
+    case 'ArrayMaxSize':
+      return withNumbers(schema, { maxItems: first });
+    case 'ArrayNotEmpty':
+      return { ...schema, minItems: 1 };
+    case 'IsNotEmpty':
+      return schema.type === 'string'
+        ? { ...schema, minLength: Math.max(schema.minLength ?? 0, 1) }
+        : schema;
+    case 'IsArray':
+      return { ...schema, type: 'array', items: schema.items ?? {} };
+    case 'Matches': {
+      if (Node.isRegularExpressionLiteral(firstArg)) {
+        const literal = firstArg.getLiteralText();
+        return {
+          ...schema,
+          pattern: literal.substring(1, literal.lastIndexOf('/')),
+        };
+      }
+      return typeof first === 'string' ? { ...schema, pattern: first } : schema;
+    }
+    case 'IsIn':
+      return Array.isArray(first) ? { ...schema, enum: first } : schema;
+    case 'IsEnum': {
+      // The converted type of an enum property is no usable schema, so the
+      // enum values replace it
+      const values = firstArg && evaluateEnumValues(firstArg);
+      return values ? enumSchema(values) : schema;
+    }
+    default:
+      return schema;
+  }
+}
+
+/**
+ * Sets numeric keywords whose values could be evaluated
+ */
+function withNumbers(
+  schema: SchemaObject,
+  values: Record<string, unknown>,
+): SchemaObject {
+  const numbers = Object.entries(values).filter(
+    ([, value]) => typeof value === 'number',
+  );
+  return { ...schema, ...Object.fromEntries(numbers) };
+}
+
+/**
+ * The class of a nested DTO: `@Type(() => AddressDto)` or, for
+ * `@ValidateNested()`, the declared property type (or its element type)
+ */
+function getNestedClass(
+  property: PropertyDeclaration,
+  decorators: Decorator[],
+): ClassDeclaration | null {
+  const typeDecorator = decorators.find((d) => d.getName() === 'Type');
+  const typeFactory = typeDecorator?.getArguments()[0];
+  if (Node.isArrowFunction(typeFactory)) {
+    const body = typeFactory.getBody();
+    return Node.isIdentifier(body) ? getClassDeclaration(body) : null;
+  }
+
+  if (!decorators.some((d) => d.getName() === 'ValidateNested')) {
+    return null;
+  }
+
+  const type = property.getType();
+  const elementType = type.isArray() ? type.getArrayElementType() : type;
+  const declaration = elementType?.getSymbol()?.getDeclarations()[0];
+  return Node.isClassDeclaration(declaration) ? declaration : null;
+}
+
+function getExposedName(decorators: Decorator[]): string | null {
+  const expose = decorators.find((d) => d.getName() === 'Expose');
+  const [options] = expose?.getArguments() ?? [];
+  const name = Node.isObjectLiteralExpression(options)
+    ? evaluateOption(options, 'name')
+    : undefined;
+  return typeof name === 'string' ? name : null;
+}
+
+function evaluateOption(options: Node, key: string): unknown {
+  if (!Node.isObjectLiteralExpression(options)) {
+    return undefined;
+  }
+  const property = options.getProperty(key);
+  const value = Node.isPropertyAssignment(property)
+    ? property.getInitializer()
+    : undefined;
+  return value ? evaluateStaticValue(value) : undefined;
+}
+
+/**
+ * Properties of a class and the classes it extends
+ */
+function getClassProperties(
+  classDecl: ClassDeclaration,
+): PropertyDeclaration[] {
+  const base = classDecl.getBaseClass();
+  return [
+    ...(base ? getClassProperties(base) : []),
+    ...classDecl.getProperties().filter((p) => !p.isStatic()),
+  ];
+}
+
+function getClassDeclaration(nameNode: Node): ClassDeclaration | null {
+  const symbol = nameNode.getSymbol();
+  const target = symbol?.isAlias() ? symbol.getAliasedSymbol() : symbol;
+  const declaration = target?.getDeclarations()[0];
+  return Node.isClassDeclaration(declaration) ? declaration : null;
+}
+
+function isValidationDecorator(decorator: Decorator): boolean {
+  const expression = decorator.getExpression();
+  const callee = Node.isCallExpression(expression)
+    ? expression.getExpression()
+    : expression;
+  const moduleName = Node.isIdentifier(callee)
+    ? getImportOf(callee)?.moduleName
+    : undefined;
+  return !!moduleName && DECORATOR_MODULES.includes(moduleName);
+}
@@ -0,0 +1,437 @@
+import {
+  SourceFile,
+  ClassDeclaration,
+  MethodDeclaration,
+  ParameterDeclaration,
+  Decorator,
+  Node,
+  ObjectLiteralExpression,
+  SyntaxKind,
+} from 'ts-morph';
+import {
+  RouteInfo,
+  RouteMethod,
+  RequestTypeInfo,
+  TypeInfo,
+} from '../types/internal.mjs';
+import {
+  extractTypeInfo,
+  extractTypeInfoFromType,
+} from './type-extraction.mjs';
+import { composePath } from '../utils/path-composer.mjs';
+import {
+  evaluateStaticString,
+  formatNodeLocation,
+} from '../ast/static-evaluator.mjs';
+import { getImportOf } from '../ast/express-checker.mjs';
+import { debug } from '../utils/logger.mjs';
+
+/**
+ * Extra decorator names recognized by decorator-based routing, added to the
+ * defaults (routing-controllers / NestJS style names)
+ */
+export interface DecoratorRoutingConfig {
+  /** Class decorators that mark a controller, e.g. Controller('/users') */
+  controllerDecorators?: string[];
+  /** Method decorators that register a route, mapped to their HTTP method */
+  routeDecorators?: Record<string, RouteMethod>;
+  /** Parameter decorators that inject the request body */
+  bodyDecorators?: string[];
+  /** Parameter decorators that inject path parameters */
+  paramDecorators?: string[];
+  /** Parameter decorators that inject query parameters */
+  queryDecorators?: string[];
+  /**
+   * Modules that export the default decorators, besides routing-controllers
+   * and @nestjs/common
+   */
+  modules?: string[];
+}
+
+const DEFAULT_DECORATOR_MODULES = ['routing-controllers', '@nestjs/common'];
+
+const DEFAULT_CONTROLLER_DECORATORS = ['Controller', 'JsonController'];
+
+const DEFAULT_ROUTE_DECORATORS: Record<string, RouteMethod> = {
+  Get: 'get',
+  Post: 'post',
+  Put: 'put',
+  Patch: 'patch',
+  Delete: 'delete',
+  Head: 'head',
+  Options: 'options',
+  All: 'all',
+};
+
+const DEFAULT_BODY_DECORATORS = ['Body'];
+const DEFAULT_PARAM_DECORATORS = ['Param', 'Params'];
+const DEFAULT_QUERY_DECORATORS = ['Query', 'QueryParam', 'QueryParams'];
+
+interface ResolvedDecoratorConfig {
+  controllerDecorators: Set<string>;
+  routeDecorators: Map<string, RouteMethod>;
+  bodyDecorators: Set<string>;
+  paramDecorators: Set<string>;
+  queryDecorators: Set<string>;
+  /** Names configured by the user, recognized wherever they are declared */
+  configuredNames: Set<string>;
+  modules: Set<string>;
+}
+
+/**
+ * Discovers routes declared with decorators on controller classes, e.g.
+ *
+ * @example
+ * // @Controller('/users')
+ * // class UserController {
+ * //   @Get('/:id')
+ * //   getById(@Param('id') id: number): Promise<User> { ... }
+ * // }
+ * // => GET /users/:id, handler UserController.getById
+ *
+ * Path, body and query types come from the decorated parameters instead of
+ * `Request<...>` generics; the response type comes from the return type.
+ * The default decorators must be imported from a decorator module, so local
+ * helpers that happen to be named `Get` or `Controller` are ignored.
+ *
+ * @param sourceFiles - Files to search for controller classes
+ * @param config - Extra decorator names to recognize
+ * @returns The discovered routes
+ */
+export function discoverDecoratedRoutes(
+  sourceFiles: SourceFile[],
+  config?: DecoratorRoutingConfig,
+): RouteInfo[] {
+  const resolvedConfig = resolveConfig(config);
+  const routes: RouteInfo[] = [];
+
+  for (const sourceFile of sourceFiles) {
+    if (sourceFile.isDeclarationFile() || sourceFile.isInNodeModules()) {
+      continue;
+    }
+
+    for (const classDecl of sourceFile.getDescendantsOfKind(
+      SyntaxKind.ClassDeclaration,
+    )) {
+      const controller = classDecl
+        .getDecorators()
+        .find((d) =>
+          resolvedConfig.controllerDecorators.has(
+            getDecoratorName(d, resolvedConfig) ?? '',
+          ),
+        );
+      if (controller) {
+        routes.push(
+          ...discoverControllerRoutes(classDecl, controller, resolvedConfig),
+        );
+      }
+    }
+  }
+
+  return routes;
+}
+
+function resolveConfig(
+  config?: DecoratorRoutingConfig,
+): ResolvedDecoratorConfig {
+  return {
+    controllerDecorators: new Set([
+      ...DEFAULT_CONTROLLER_DECORATORS,
+      ...(config?.controllerDecorators ?? []),
+    ]),
+    routeDecorators: new Map(
+      Object.entries({
+        ...DEFAULT_ROUTE_DECORATORS,
+        ...config?.routeDecorators,
+      }),
+    ),
+    bodyDecorators: new Set([
+      ...DEFAULT_BODY_DECORATORS,
+      ...(config?.bodyDecorators ?? []),
+    ]),
+    paramDecorators: new Set([
+      ...DEFAULT_PARAM_DECORATORS,
+      ...(config?.paramDecorators ?? []),
+    ]),
+    queryDecorators: new Set([
+      ...DEFAULT_QUERY_DECORATORS,
+      ...(config?.queryDecorators ?? []),
+    ]),
+    configuredNames: new Set([
+      ...(config?.controllerDecorators ?? []),
+      ...Object.keys(config?.routeDecorators ?? {}),
+      ...(config?.bodyDecorators ?? []),
+      ...(config?.paramDecorators ?? []),
+      ...(config?.queryDecorators ?? []),
+    ]),
+    modules: new Set([
+      ...DEFAULT_DECORATOR_MODULES,
+      ...(config?.modules ?? []),
+    ]),
+  };
+}
+
+/**
+ * Resolves the name a decorator is exported under:
+ * - `@Get()` / `@Get as HttpGet` imported from a decorator module => 'Get'
+ * - `@rc.Get()` with `import * as rc from 'routing-controllers'` => 'Get'
+ * - a configured name => that name, wherever it is declared
+ * Returns undefined for decorators that do not come from a decorator module.
+ */
+function getDecoratorName(
+  decorator: Decorator,
+  config: ResolvedDecoratorConfig,
+): string | undefined {
+  const expression = decorator.getExpression();
+  const callee = Node.isCallExpression(expression)
+    ? expression.getExpression()
+    : expression;
+
+  if (Node.isIdentifier(callee)) {
+    if (config.configuredNames.has(callee.getText())) {
+      return callee.getText();
+    }
+    const importInfo = getImportOf(callee);
+    return importInfo &&
+      config.modules.has(importInfo.moduleName) &&
+      importInfo.importName !== 'default' &&
+      importInfo.importName !== '*'
+      ? importInfo.importName
+      : undefined;
+  }
+
+  if (Node.isPropertyAccessExpression(callee)) {
+    const namespace = callee.getExpression();
+    const importInfo = Node.isIdentifier(namespace)
+      ? getImportOf(namespace)
+      : undefined;
+    return importInfo?.importName === '*' &&
+      config.modules.has(importInfo.moduleName)
+      ? callee.getName()
+      : undefined;
+  }
+
+  return undefined;
+}
+
+function discoverControllerRoutes(
+  classDecl: ClassDeclaration,
+  controller: Decorator,
+  config: ResolvedDecoratorConfig,
+): RouteInfo[] {
+  const className = classDecl.getName() || 'AnonymousController';
+  const basePath = getDecoratorPath(controller);
+  if (basePath === null) {
+    return [];
+  }
+
+  debug('✓ Found decorated controller', {
+    className,
+    basePath: basePath || '/',
+    location: formatNodeLocation(classDecl),
+  });
+
+  const routes: RouteInfo[] = [];
+
+  for (const method of classDecl.getMethods()) {
+    for (const decorator of method.getDecorators()) {
+      const name = getDecoratorName(decorator, config);
+      const routeMethod = name && config.routeDecorators.get(name);
+      if (!routeMethod) {
+        continue;
+      }
+
+      const routePath = getDecoratorPath(decorator);
+      if (routePath === null) {
+        continue;
+      }
+
+      const route: RouteInfo = {
+        path: composePath(basePath, routePath),
+        method: routeMethod,
+        handlerName: `${className}.${method.getName()}`,
+        handlerNode: method,
+      };
+
+      const requestTypes = extractDecoratedRequestTypes(method, config);
+      if (requestTypes) {
+        route.requestTypes = requestTypes;
+      }
+
+      debug('✓ Extracted decorated route', {
+        method: routeMethod.toUpperCase(),
+        path: route.path,
+        handler: route.handlerName,
+      });
+
+      routes.push(route);
+    }
+  }
+
+  return routes;
+}
+
+/**
+ * Reads the path argument of a class or method decorator, either a string or
+ * an options object with a `path` (e.g. `@Controller({ path: '/users' })`).
+ * A decorator without a path (e.g. `@Post()`) has an empty path.
+ */
+function getDecoratorPath(decorator: Decorator): string | null {
+  const [firstArg] = decorator.getArguments();
+  const pathArg = Node.isObjectLiteralExpression(firstArg)
+    ? getPathProperty(firstArg)
+    : firstArg;
+  if (!pathArg) {
+    return '';
+  }
+
+  const path = evaluateStaticString(pathArg);
+  if (path === null) {
+    console.warn(
+      `Warning: Could not statically resolve decorator path \`${pathArg.getText()}\` ` +
+        `at ${formatNodeLocation(pathArg)}. The route will be skipped.`,
+    );
+  }
+
+  return path;
+}
+
+function getPathProperty(options: ObjectLiteralExpression): Node | undefined {
+  const property = options.getProperty('path');
+  if (Node.isPropertyAssignment(property)) {
+    return property.getInitializer();
+  }
+  if (Node.isShorthandPropertyAssignment(property)) {
+    return property.getNameNode();
+  }
+  return undefined;
+}
+
+/**
+ * Builds request types from decorated parameters:
+ * - `@Body() body: CreateUser` => body type
+ * - `@Params() params: UserParams` / `@Query() query: Filter` => whole object types
+ * - `@Param('id') id: number` / `@QueryParam('limit') limit?: number` => single
+ *   fields, combined into an inline object type
+ * The return type (unwrapping Promise) is used as the response body.
+ */
+function extractDecoratedRequestTypes(
+  method: MethodDeclaration,
+  config: ResolvedDecoratorConfig,
+): RequestTypeInfo | null {
+  const types: RequestTypeInfo = {};
+
+  const bodyParam = findDecoratedParameters(
+    method,
+    config,
+    config.bodyDecorators,
+  )[0];
+  const bodyTypeNode = bodyParam?.param.getTypeNode();
+  if (bodyTypeNode) {
+    types.bodyParams = extractTypeInfo(bodyTypeNode) ?? undefined;
+  }
+
+  types.pathParams = extractObjectTypeInfo(
+    findDecoratedParameters(method, config, config.paramDecorators),
+  );
+  types.queryParams = extractObjectTypeInfo(
+    findDecoratedParameters(method, config, config.queryDecorators),
+  );
+  types.responseBody = extractReturnTypeInfo(method);
+
+  // Remove undefined values
+  Object.keys(types).forEach((key) => {
+    if (types[key as keyof RequestTypeInfo] === undefined) {
+      delete types[key as keyof RequestTypeInfo];
+    }
+  });
+
+  return Object.keys(types).length > 0 ? types : null;
+}
+
+interface DecoratedParameter {
+  param: ParameterDeclaration;
+  /** Field name for single-field decorators like @Param('id') */
+  fieldName?: string;
+}
+
+function findDecoratedParameters(
+  method: MethodDeclaration,
+  config: ResolvedDecoratorConfig,
+  decoratorNames: Set<string>,
+): DecoratedParameter[] {
+  return method.getParameters().flatMap((param) => {
+    const decorator = param
+      .getDecorators()
+      .find((d) => decoratorNames.has(getDecoratorName(d, config) ?? ''));
+    if (!decorator) {
+      return [];
+    }
+
+    const [nameArg] = decorator.getArguments();
+    if (!nameArg || Node.isObjectLiteralExpression(nameArg)) {
+      return [{ param }];
+    }
+
+    // Skip single fields whose name cannot be resolved statically
+    const fieldName = evaluateStaticString(nameArg);
+    return fieldName === null ? [] : [{ param, fieldName }];
+  });
+}
+
+/**
+ * A whole-object parameter (`@Query() query: Filter`) takes precedence;
+ * otherwise single-field parameters are combined into an inline type.
+ * Field types are expanded from the parameter's type, so aliases and enums
+ * declared elsewhere (`@Param('id') id: UserId`) do not have to be resolved
+ * from their names.
+ */
+function extractObjectTypeInfo(
+  params: DecoratedParameter[],
+): TypeInfo | undefined {
+  const wholeObject = params.find((p) => p.fieldName === undefined);
+  const wholeTypeNode = wholeObject?.param.getTypeNode();
+  if (wholeTypeNode) {
+    return extractTypeInfo(wholeTypeNode) ?? undefined;
+  }
+
+  const fields = params
+    .filter((p) => p.fieldName !== undefined)
+    .map(({ param, fieldName }) => {
+      const optional =
+        param.hasQuestionToken() || param.hasInitializer() ? '?' : '';
+      // Optional parameters are typed `T | undefined` under strictNullChecks
+      const type = optional
+        ? param.getType().getNonNullableType()
+        : param.getType();
+      const typeText =
+        extractTypeInfoFromType(type, param)?.typeText ?? type.getText(param);
+      return `${fieldName}${optional}: ${typeText}`;
+    });
+
+  if (fields.length === 0) {
+    return undefined;
+  }
+
+  return { isNamed: false, typeText: `{ ${fields.join('; ')} }` };
+}
+
+function extractReturnTypeInfo(
+  method: MethodDeclaration,
+): TypeInfo | undefined {
+  let returnTypeNode = method.getReturnTypeNode();
+
+  // Unwrap Promise<T>
+  if (
+    Node.isTypeReference(returnTypeNode) &&
+    returnTypeNode.getTypeName().getText() === 'Promise'
+  ) {
+    returnTypeNode = returnTypeNode.getTypeArguments()[0];
+  }
+
+  if (!returnTypeNode || returnTypeNode.getKind() === SyntaxKind.VoidKeyword) {
+    return undefined;
+  }
+
+  return extractTypeInfo(returnTypeNode) ?? undefined;
+}
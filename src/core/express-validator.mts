@@ -0,0 +1,493 @@
+import { Node, CallExpression } from 'ts-morph';
+import { RequestTypeInfo } from '../types/internal.mjs';
+import { SchemaObject } from '../types/openapi.mjs';
+import { getImportOf } from '../ast/express-checker.mjs';
+import {
+  evaluateStaticString,
+  evaluateStaticValue,
+  resolveInitializer,
+  resolveObjectLiteral,
+  formatNodeLocation,
+} from '../ast/static-evaluator.mjs';
+import { debug } from '../utils/logger.mjs';
+
+const MAX_DEPTH = 10;
+
+const EXPRESS_VALIDATOR_MODULE = 'express-validator';
+
+type ValidatorLocation = 'body' | 'query' | 'params' | 'headers';
+
+/**
+ * Chain factories and the request location they validate.
+ * `check()` validates any location and is treated as a body field.
+ */
+const CHAIN_LOCATIONS: Record<string, ValidatorLocation> = {
+  body: 'body',
+  check: 'body',
+  query: 'query',
+  param: 'params',
+  header: 'headers',
+};
+
+const LOCATION_FIELDS: Record<
+  ValidatorLocation,
+  'bodyParams' | 'queryParams' | 'pathParams' | 'headerParams'
+> = {
+  body: 'bodyParams',
+  query: 'queryParams',
+  params: 'pathParams',
+  headers: 'headerParams',
+};
+
+const STRING_FORMATS: Record<string, string> = {
+  isEmail: 'email',
+  isUUID: 'uuid',
+  isURL: 'uri',
+  isISO8601: 'date-time',
+  isDate: 'date',
+};
+
+/**
+ * A validated field, e.g. `body('age').optional().isInt({ min: 18 })`
+ */
+interface FieldRule {
+  location: ValidatorLocation;
+  /** Field path, e.g. `address.city` or `items.*.id` */
+  path: string;
+  schema: SchemaObject;
+  optional: boolean;
+}
+
+/**
+ * A validator of a chain or schema, with its arguments
+ */
+interface ValidatorCall {
+  name: string;
+  args: Node[];
+}
+
+/**
+ * Extracts request schemas from express-validator chains among the
+ * middleware of a route, e.g.
+ * `router.post('/signup', body('email').isEmail(), body('age').optional().isInt({ min: 18 }), signup)`.
+ *
+ * Reads `body()`, `query()`, `param()`, `header()` and `check()` chains,
+ * arrays of them (inline or referenced by identifier) and `checkSchema({...})`.
+ * Fields are required unless marked `.optional()`; type validators like
+ * `.isInt()` and `.isEmail()` set the type and format, and options like
+ * `{ min: 18 }` become constraints.
+ *
+ * @param middlewareArgs - The middleware and handler arguments of the route
+ * @returns Request types with schemas per location, or null if none
+ */
+export function extractExpressValidatorTypes(
+  middlewareArgs: Node[],
+): RequestTypeInfo | null {
+  const rules: FieldRule[] = [];
+  for (const arg of middlewareArgs) {
+    collectRules(arg, rules, 0);
+  }
+
+  if (rules.length === 0) {
+    return null;
+  }
+
+  const types: RequestTypeInfo = {};
+  for (const location of Object.keys(LOCATION_FIELDS) as ValidatorLocation[]) {
+    const locationRules = rules.filter((rule) => rule.location === location);
+    if (locationRules.length === 0) {
+      continue;
+    }
+
+    const schema: SchemaObject = { type: 'object', properties: {} };
+    for (const rule of locationRules) {
+      addField(schema, splitFieldPath(rule.path), rule);
+    }
+    types[LOCATION_FIELDS[location]] = { isNamed: false, schema };
+  }
+
+  debug('✓ Extracted express-validator schemas', {
+    fields: rules.map((rule) => `${rule.location}.${rule.path}`),
+  });
+
+  return types;
+}
+
+function collectRules(node: Node, rules: FieldRule[], depth: number): void {
+  if (depth > MAX_DEPTH) {
+    return;
+  }
+
+  // [body('email').isEmail(), body('name').notEmpty()]
+  if (Node.isArrayLiteralExpression(node)) {
+    for (const element of node.getElements()) {
+      collectRules(element, rules, depth + 1);
+    }
+    return;
+  }
+
+  // const signupValidation = [...]
+  if (Node.isIdentifier(node)) {
+    const initializer = resolveInitializer(node);
+    if (initializer) {
+      collectRules(initializer, rules, depth + 1);
+    }
+    return;
+  }
+
+  if (!Node.isCallExpression(node)) {
+    return;
+  }
+
+  const chain = readChain(node);
+  if (!chain) {
+    return;
+  }
+
+  if (chain.factory === 'checkSchema') {
+    collectSchemaRules(chain.args, rules);
+    return;
+  }
+
+  const location = CHAIN_LOCATIONS[chain.factory];
+  const fieldArg = chain.args[0];
+  const fields = !fieldArg
+    ? []
+    : Node.isArrayLiteralExpression(fieldArg)
+      ? fieldArg.getElements().map((element) => evaluateStaticString(element))
+      : [evaluateStaticString(fieldArg)];
+
+  for (const field of fields) {
+    if (field === null) {
+      debug('✗ Could not resolve express-validator field name', {
+        field: fieldArg?.getText(),
+        location: formatNodeLocation(node),
+      });
+      continue;
+    }
+    rules.push(buildRule(location, field, chain.validators));
+  }
+}
+
+/**
+ * Reads a chain like `body('age').optional().isInt({ min: 18 })` from the
+ * outermost call to the express-validator factory at its root
+ */
+function readChain(
+  call: CallExpression,
+): { factory: string; args: Node[]; validators: ValidatorCall[] } | null {
+  const validators: ValidatorCall[] = [];
+  let current: CallExpression = call;
+
+  for (;;) {
+    const callee = current.getExpression();
+
+    if (Node.isIdentifier(callee)) {
+      const importInfo = getImportOf(callee);
+      const factory = importInfo?.importName;
+      if (
+        importInfo?.moduleName !== EXPRESS_VALIDATOR_MODULE ||
+        !factory ||
+        (factory !== 'checkSchema' && !CHAIN_LOCATIONS[factory])
+      ) {
+        return null;
+      }
+      return {
+        factory,
+        args: current.getArguments(),
+        validators: validators.reverse(),
+      };
+    }
+
+    const object = Node.isPropertyAccessExpression(callee)
+      ? callee.getExpression()
+      : undefined;
+    if (
+      !Node.isPropertyAccessExpression(callee) ||
+      !Node.isCallExpression(object)
+    ) {
+      return null;
+    }
+
+    validators.push({ name: callee.getName(), args: current.getArguments() });
+    current = object;
+  }
+}
+
+/**
+ * Reads `checkSchema({ email: { in: ['body'], isEmail: true }, ... })`.
+ * Validators are `true` or `{ options }`, where array options are spread as
+ * arguments like in express-validator.
+ */
+function collectSchemaRules(args: Node[], rules: FieldRule[]): void {
+  const [schemaArg, locationsArg] = args;
+  const schemaObject = schemaArg && resolveObjectLiteral(schemaArg);
+  if (!schemaObject) {
+    return;
+  }
+
+  const defaultLocation = readSchemaLocation(locationsArg) ?? 'body';
+
+  for (const property of schemaObject.getProperties()) {
+    if (!Node.isPropertyAssignment(property)) {
+      continue;
+    }
+
+    const field =
+      evaluateStaticString(property.getNameNode()) ?? property.getName();
+    const fieldSchema = property.getInitializer();
+    if (!Node.isObjectLiteralExpression(fieldSchema)) {
+      continue;
+    }
+
+    let location = defaultLocation;
+    const validators: ValidatorCall[] = [];
+
+    for (const entry of fieldSchema.getProperties()) {
+      if (!Node.isPropertyAssignment(entry)) {
+        continue;
+      }
+
+      const name = entry.getName();
+      const value = entry.getInitializer();
+      if (!value || Node.isFalseLiteral(value)) {
+        continue;
+      }
+
+      if (name === 'in') {
+        location = readSchemaLocation(value) ?? location;
+        continue;
+      }
+
+      if (!Node.isObjectLiteralExpression(value)) {
+        validators.push({ name, args: [] });
+        continue;
+      }
+
+      const negated = value.getProperty('negated');
+      if (
+        Node.isPropertyAssignment(negated) &&
+        Node.isTrueLiteral(negated.getInitializer())
+      ) {
+        continue;
+      }
+
+      const options = value.getProperty('options');
+      const optionsValue = Node.isPropertyAssignment(options)
+        ? options.getInitializer()
+        : undefined;
+      validators.push({
+        name,
+        args: !optionsValue
+          ? []
+          : Node.isArrayLiteralExpression(optionsValue)
+            ? optionsValue.getElements()
+            : [optionsValue],
+      });
+    }
+
+    rules.push(buildRule(location, field, validators));
+  }
+}
+
+/**
+ * Reads a location like `'body'` or `['query']` (the first one is used)
+ */
+function readSchemaLocation(node: Node | undefined): ValidatorLocation | null {
+  const locationNode = Node.isArrayLiteralExpression(node)
+    ? node.getElements()[0]
+    : node;
+  const location = locationNode && evaluateStaticString(locationNode);
+  return location && location in LOCATION_FIELDS
+    ? (location as ValidatorLocation)
+    : null;
+}
+
+function buildRule(
+  location: ValidatorLocation,
+  path: string,
+  validators: ValidatorCall[],
+): FieldRule {
+  const rule: FieldRule = {
+    location,
+    path,
+    schema: { type: 'string' },
+    optional: false,
+  };
+
+  let negated = false;
+  for (const validator of validators) {
+    if (validator.name === 'not') {
+      negated = true;
+      continue;
+    }
+
+    // .not().isEmpty() is the only negation that describes the value
+    if (negated) {
+      negated = false;
+      if (validator.name === 'isEmpty') {
+        applyValidator(rule, { name: 'notEmpty', args: [] });
+      }
+      continue;
+    }
+
+    applyValidator(rule, validator);
+  }
+
+  return rule;
+}
+
+function applyValidator(rule: FieldRule, validator: ValidatorCall): void {
+  const { name, args } = validator;
+  const [firstArg] = args;
+  const schema = rule.schema;
+
+  if (STRING_FORMATS[name]) {
+    schema.type = 'string';
+    schema.format = STRING_FORMATS[name];
+    return;
+  }
+
+  switch (name) {
+    case 'optional':
+      rule.optional = true;
+      break;
+    case 'isString':
+      schema.type = 'string';
+      break;
+    case 'isInt':
+    case 'isFloat':
+    case 'isNumeric':
+    case 'isDecimal':
+      schema.type = name === 'isInt' ? 'integer' : 'number';
+      setRange(schema, firstArg, 'minimum', 'maximum');
+      break;
+    case 'isBoolean':
+      schema.type = 'boolean';
+      break;
+    case 'isArray':
+      schema.type = 'array';
+      schema.items ??= {};
+      setRange(schema, firstArg, 'minItems', 'maxItems');
+      break;
+    case 'isObject':
+      schema.type = 'object';
+      break;
+    case 'isLength':
+      setRange(schema, firstArg, 'minLength', 'maxLength');
+      break;
+    case 'notEmpty':
+      if (schema.type === 'string') {
+        schema.minLength = Math.max(schema.minLength ?? 0, 1);
+      }
+      break;
+    case 'isIn': {
+      const values = Node.isArrayLiteralExpression(firstArg)
+        ? firstArg.getElements().map(evaluateStaticValue)
+        : [];
+      if (values.length > 0 && values.every((v) => v !== undefined)) {
+        schema.enum = values;
+      }
+      break;
+    }
+    case 'matches': {
+      const pattern = Node.isRegularExpressionLiteral(firstArg)
+        ? firstArg
+            .getLiteralText()
+            .substring(1, firstArg.getLiteralText().lastIndexOf('/'))
+        : firstArg && evaluateStaticString(firstArg);
+      if (pattern) {
+        schema.pattern = pattern;
+      }
+      break;
+    }
+    case 'default': {
+      const value = firstArg && evaluateStaticValue(firstArg);
+      if (value !== undefined) {
+        schema.default = value;
+        rule.optional = true;
+      }
+      break;
+    }
+    // Other validators and sanitizers (trim, withMessage, custom, ...) do not
+    // change the schema
+  }
+}
+
+/**
+ * Reads `{ min, max }` options into schema constraints
+ */
+function setRange(
+  schema: SchemaObject,
+  options: Node | undefined,
+  minKey: string,
+  maxKey: string,
+): void {
+  if (!Node.isObjectLiteralExpression(options)) {
+    return;
+  }
+
+  for (const [option, key] of [
+    ['min', minKey],
+    ['max', maxKey],
+  ]) {
+    const property = options.getProperty(option);
+    const value = Node.isPropertyAssignment(property)
+      ? evaluateStaticValue(property.getInitializerOrThrow())
+      : undefined;
+    if (typeof value === 'number') {
+      schema[key] = value;
+    }
+  }
+}
+
+/**
+ * Splits a field path into segments, e.g. `items[*].id` => ['items', '*', 'id']
+ */
+function splitFieldPath(path: string): string[] {
+  return path
+    .replace(/\[(\*|\d+)\]/g, '.*')
+    .split('.')
+    .filter((segment) => segment.length > 0);
+}
+
+/**
+ * Adds a field to an object schema, creating nested objects and arrays for
+ * paths like `address.city` and `items.*.id`
+ */
+function addField(
+  schema: SchemaObject,
+  segments: string[],
+  rule: FieldRule,
+): void {
+  const [segment, ...rest] = segments;
+  if (segment === undefined) {
+    return;
+  }
+
+  if (segment === '*') {
+    schema.type = 'array';
+    if (rest.length === 0) {
+      schema.items = { ...schema.items, ...rule.schema };
+    } else {
+      schema.items ??= { type: 'object', properties: {} };
+      addField(schema.items as SchemaObject, rest, rule);
+    }
+    return;
+  }
+
+  schema.type = 'object';
+  schema.properties ??= {};
+  const existing = (schema.properties[segment] ?? {}) as SchemaObject;
+
+  if (rest.length === 0) {
+    schema.properties[segment] = { ...existing, ...rule.schema };
+  } else {
+    schema.properties[segment] = existing;
+    addField(existing, rest, rule);
+  }
+
+  if (!rule.optional && !schema.required?.includes(segment)) {
+    schema.required = [...(schema.required ?? []), segment];
+  }
+}
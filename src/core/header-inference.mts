@@ -0,0 +1,378 @@
+import { Node, SyntaxKind, Symbol as TsSymbol } from 'ts-morph';
+import {
+  resolveFunctionDefinition,
+  getParameterAtIndex,
+} from '../ast/function-resolver.mjs';
+import {
+  evaluateStaticString,
+  formatNodeLocation,
+} from '../ast/static-evaluator.mjs';
+import { debug } from '../utils/logger.mjs';
+
+const MAX_DEPTH = 5;
+
+/**
+ * Request methods that read a header by name
+ */
+const HEADER_METHODS = ['header', 'get'];
+
+/**
+ * Headers OpenAPI describes elsewhere (content negotiation and security
+ * schemes); header parameters with these names are ignored by the spec
+ */
+const IGNORED_HEADERS = ['accept', 'content-type', 'authorization'];
+
+/**
+ * A request header read by a handler or its middleware
+ */
+export interface InferredHeader {
+  /** Header name as first written in the code, e.g. `If-Match` */
+  name: string;
+  /** Whether the code rejects requests without the header */
+  required: boolean;
+}
+
+/**
+ * Infers the request headers a route reads, in its middleware and handler
+ * and in the functions they pass `req` to:
+ * - `req.header('x-tenant-id')` / `req.get('If-Match')`
+ * - `req.headers['x-request-id']` / `req.headers.etag`
+ * - `const { 'x-api-key': apiKey } = req.headers`
+ *
+ * Header names must be static. A header is required when the code rejects
+ * requests without it, i.e. a missing check (`if (!tenantId)`,
+ * `if (value === undefined)`) whose branch throws, calls `next(err)` or
+ * responds with a 4xx status.
+ *
+ * @param functionNodes - The middleware and handler functions of a route
+ * @returns One entry per header (names compared case-insensitively)
+ *
+ * @example
+ * // (req, res, next) => {
+ * //   const tenantId = req.header('x-tenant-id');
+ * //   if (!tenantId) return res.status(400).json({ error: 'Missing tenant' });
+ * //   next();
+ * // }
+ * // => [{ name: 'x-tenant-id', required: true }]
+ */
+export function inferHeaders(functionNodes: Node[]): InferredHeader[] {
+  const headers = new Map<string, InferredHeader>();
+  const visited = new Set<Node>();
+
+  for (const functionNode of functionNodes) {
+    const request = getParameterSymbol(functionNode, 0);
+    if (request) {
+      collectHeaders(functionNode, request, headers, visited, 0);
+    }
+  }
+
+  const inferred = [...headers.values()];
+  if (inferred.length > 0) {
+    debug('Inferred request headers from header accesses', {
+      headers: inferred,
+      location: formatNodeLocation(functionNodes[functionNodes.length - 1]),
+    });
+  }
+  return inferred;
+}
+
+/**
+ * Collects the headers read from the request parameter. References are
+ * compared by symbol, so a nested callback declaring its own `req` is skipped.
+ */
+function collectHeaders(
+  functionNode: Node,
+  request: TsSymbol,
+  headers: Map<string, InferredHeader>,
+  visited: Set<Node>,
+  depth: number,
+): void {
+  if (depth > MAX_DEPTH || visited.has(functionNode)) {
+    return;
+  }
+  visited.add(functionNode);
+
+  const rejectedValues = findRejectedValues(functionNode);
+  const addHeader = (name: string, access: Node) => {
+    const key = name.toLowerCase();
+    if (IGNORED_HEADERS.includes(key)) {
+      return;
+    }
+    const required = isRejectedWhenMissing(access, rejectedValues);
+    const existing = headers.get(key);
+    headers.set(key, {
+      name: existing?.name ?? name,
+      required: (existing?.required ?? false) || required,
+    });
+  };
+
+  for (const node of functionNode.getDescendants()) {
+    // req.header('x-tenant-id'), req.get('If-Match')
+    if (Node.isCallExpression(node)) {
+      const callee = node.getExpression();
+      const [nameArg] = node.getArguments();
+      if (
+        Node.isPropertyAccessExpression(callee) &&
+        HEADER_METHODS.includes(callee.getName()) &&
+        isReference(callee.getExpression(), request)
+      ) {
+        const name = nameArg && evaluateStaticString(nameArg);
+        if (name) {
+          addHeader(name, node);
+        }
+        continue;
+      }
+
+      followRequestArgument(node, request, headers, visited, depth);
+      continue;
+    }
+
+    if (!isHeadersObject(node, request)) {
+      continue;
+    }
+    const parent = node.getParent();
+
+    // req.headers['x-request-id'], req.headers.etag
+    if (
+      Node.isElementAccessExpression(parent) &&
+      parent.getExpression() === node
+    ) {
+      const argument = parent.getArgumentExpression();
+      const name = argument && evaluateStaticString(argument);
+      if (name) {
+        addHeader(name, parent);
+      }
+    } else if (
+      Node.isPropertyAccessExpression(parent) &&
+      parent.getExpression() === node
+    ) {
+      addHeader(parent.getName(), parent);
+    } else if (Node.isVariableDeclaration(parent)) {
+      // const { 'x-api-key': apiKey } = req.headers
+      const nameNode = parent.getNameNode();
+      if (!Node.isObjectBindingPattern(nameNode)) {
+        continue;
+      }
+      for (const element of nameNode.getElements()) {
+        const propertyNode =
+          element.getPropertyNameNode() ?? element.getNameNode();
+        const name = Node.isIdentifier(propertyNode)
+          ? propertyNode.getText()
+          : evaluateStaticString(propertyNode);
+        if (name) {
+          addHeader(name, element);
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Follows helpers the request is passed to, e.g. getTenant(req)
+ */
+function followRequestArgument(
+  call: Node,
+  request: TsSymbol,
+  headers: Map<string, InferredHeader>,
+  visited: Set<Node>,
+  depth: number,
+): void {
+  if (!Node.isCallExpression(call)) {
+    return;
+  }
+
+  const requestIndex = call
+    .getArguments()
+    .findIndex((arg) => isReference(arg, request));
+  if (requestIndex === -1) {
+    return;
+  }
+
+  const callee = resolveFunctionDefinition(call);
+  const calleeRequest = callee && getParameterSymbol(callee, requestIndex);
+  if (callee && calleeRequest) {
+    collectHeaders(callee, calleeRequest, headers, visited, depth + 1);
+  }
+}
+
+/**
+ * Collects the values checked as missing by conditions whose branch rejects
+ * the request, e.g. `tenantId` in
+ * `if (!tenantId) { return res.status(400).json(...) }`
+ */
+function findRejectedValues(functionNode: Node): Node[] {
+  const response = getParameterSymbol(functionNode, 1);
+  const next = getParameterSymbol(functionNode, 2);
+  return functionNode
+    .getDescendantsOfKind(SyntaxKind.IfStatement)
+    .filter((ifStatement) =>
+      rejectsRequest(ifStatement.getThenStatement(), response, next),
+    )
+    .flatMap((ifStatement) => getMissingChecks(ifStatement.getExpression()));
+}
+
+/**
+ * The operands a condition checks for absence: `!x`, `x === undefined`,
+ * `x == null`, and either side of `||`
+ */
+function getMissingChecks(condition: Node): Node[] {
+  if (Node.isParenthesizedExpression(condition)) {
+    return getMissingChecks(condition.getExpression());
+  }
+
+  if (
+    Node.isPrefixUnaryExpression(condition) &&
+    condition.getOperatorToken() === SyntaxKind.ExclamationToken
+  ) {
+    return [skipParentheses(condition.getOperand())];
+  }
+
+  if (!Node.isBinaryExpression(condition)) {
+    return [];
+  }
+
+  const operator = condition.getOperatorToken().getKind();
+  if (operator === SyntaxKind.BarBarToken) {
+    return [
+      ...getMissingChecks(condition.getLeft()),
+      ...getMissingChecks(condition.getRight()),
+    ];
+  }
+
+  const isEquality =
+    operator === SyntaxKind.EqualsEqualsEqualsToken ||
+    operator === SyntaxKind.EqualsEqualsToken;
+  if (!isEquality) {
+    return [];
+  }
+
+  const left = skipParentheses(condition.getLeft());
+  const right = skipParentheses(condition.getRight());
+  if (isNullish(right)) {
+    return [left];
+  }
+  return isNullish(left) ? [right] : [];
+}
+
+/**
+ * Checks if a statement rejects the request: it throws, calls `next(err)`
+ * or responds with a 4xx status (`res.status(401)`, `res.sendStatus(400)`).
+ * Only calls on the function's own `next` and response parameters count.
+ */
+function rejectsRequest(
+  statement: Node,
+  response: TsSymbol | undefined,
+  next: TsSymbol | undefined,
+): boolean {
+  if (
+    Node.isThrowStatement(statement) ||
+    statement.getFirstDescendantByKind(SyntaxKind.ThrowStatement)
+  ) {
+    return true;
+  }
+
+  const calls = [
+    ...(Node.isCallExpression(statement) ? [statement] : []),
+    ...statement.getDescendantsOfKind(SyntaxKind.CallExpression),
+  ];
+  return calls.some((call) => {
+    const callee = call.getExpression();
+    const [firstArg] = call.getArguments();
+
+    if (next && isReference(callee, next)) {
+      return firstArg !== undefined;
+    }
+
+    if (
+      !response ||
+      !Node.isPropertyAccessExpression(callee) ||
+      !['status', 'sendStatus'].includes(callee.getName()) ||
+      !isReference(callee.getExpression(), response) ||
+      !firstArg
+    ) {
+      return false;
+    }
+    const type = firstArg.getType();
+    const statusCode = type.isNumberLiteral()
+      ? Number(type.getLiteralValue())
+      : null;
+    return statusCode !== null && statusCode >= 400 && statusCode < 500;
+  });
+}
+
+/**
+ * Checks if a header access is checked as missing, directly
+ * (`if (!req.get('If-Match'))`) or through the variable it is assigned to
+ */
+function isRejectedWhenMissing(access: Node, rejectedValues: Node[]): boolean {
+  if (rejectedValues.includes(access)) {
+    return true;
+  }
+
+  // const tenantId = req.header('x-tenant-id') / const { 'x-key': key } = req.headers
+  let holder: Node | undefined = access;
+  while (
+    Node.isAsExpression(holder?.getParent()) ||
+    Node.isParenthesizedExpression(holder?.getParent())
+  ) {
+    holder = holder?.getParent();
+  }
+  const declaration = Node.isBindingElement(access)
+    ? access
+    : holder?.getParent();
+  if (
+    !Node.isVariableDeclaration(declaration) &&
+    !Node.isBindingElement(declaration)
+  ) {
+    return false;
+  }
+
+  const nameNode = declaration.getNameNode();
+  if (!Node.isIdentifier(nameNode)) {
+    return false;
+  }
+  const symbol = nameNode.getSymbol();
+  return rejectedValues.some(
+    (value) => Node.isIdentifier(value) && value.getSymbol() === symbol,
+  );
+}
+
+function isHeadersObject(node: Node, request: TsSymbol): boolean {
+  return (
+    Node.isPropertyAccessExpression(node) &&
+    node.getName() === 'headers' &&
+    isReference(node.getExpression(), request)
+  );
+}
+
+function getParameterSymbol(
+  functionNode: Node,
+  index: number,
+): TsSymbol | undefined {
+  return getParameterAtIndex(functionNode, index)?.getNameNode().getSymbol();
+}
+
+/**
+ * Checks if a node refers to a parameter. The name is compared first since
+ * resolving symbols is comparatively slow.
+ */
+function isReference(node: Node, symbol: TsSymbol): boolean {
+  return (
+    Node.isIdentifier(node) &&
+    node.getText() === symbol.getName() &&
+    node.getSymbol() === symbol
+  );
+}
+
+function isNullish(node: Node): boolean {
+  return (
+    Node.isNullLiteral(node) ||
+    (Node.isIdentifier(node) && node.getText() === 'undefined')
+  );
+}
+
+function skipParentheses(node: Node): Node {
+  return Node.isParenthesizedExpression(node)
+    ? skipParentheses(node.getExpression())
+    : node;
+}
@@ -0,0 +1,410 @@
+import { Node, CallExpression, ObjectLiteralExpression } from 'ts-morph';
+import { SchemaObject, ReferenceObject } from '../types/openapi.mjs';
+import { getImportOf } from '../ast/express-checker.mjs';
+import {
+  evaluateStaticString,
+  evaluateStaticValue,
+  resolveInitializer,
+  resolveObjectLiteral,
+  formatNodeLocation,
+} from '../ast/static-evaluator.mjs';
+import { debug } from '../utils/logger.mjs';
+
+const MAX_DEPTH = 10;
+
+/**
+ * Modules Joi is imported from; celebrate re-exports it as `Joi`
+ */
+const JOI_MODULES = ['joi', '@hapi/joi', 'celebrate'];
+
+const TYPE_FACTORIES: Record<string, SchemaObject> = {
+  string: { type: 'string' },
+  number: { type: 'number' },
+  boolean: { type: 'boolean' },
+  bool: { type: 'boolean' },
+  date: { type: 'string', format: 'date-time' },
+  binary: { type: 'string', format: 'binary' },
+  array: { type: 'array', items: {} },
+  object: { type: 'object', properties: {} },
+  any: {},
+};
+
+const STRING_FORMATS: Record<string, string> = {
+  email: 'email',
+  uri: 'uri',
+  uuid: 'uuid',
+  guid: 'uuid',
+  isoDate: 'date-time',
+  hostname: 'hostname',
+};
+
+interface JoiSchema {
+  schema: SchemaObject;
+  /** Whether the value must be present (`.required()`) */
+  required: boolean;
+}
+
+/**
+ * Builds a schema by statically reading a Joi schema, e.g.
+ * `Joi.object({ name: Joi.string().max(50).required() })`, inline or
+ * referenced by identifier (including across imports).
+ *
+ * - `Joi.string()` / `number()` / `boolean()` / `date()` / `array().items()` /
+ *   `object({...})` / `alternatives().try()` => types
+ * - `.required()` => required, `.valid(...)` => enum, `.allow(null)` => nullable
+ * - `.min()` / `.max()` / `.length()` => minLength/maxLength, minimum/maximum
+ *   or minItems/maxItems depending on the schema type
+ * - `.pattern(/.../)` => pattern, `.default(x)` => default,
+ *   `.description('...')` => description
+ *
+ * Methods that do not describe the value (`.trim()`, `.messages()`, ...) are
+ * skipped.
+ *
+ * @param schemaNode - The schema expression, or a reference to it
+ * @returns The schema, or null if the expression is not a Joi schema
+ */
+export function buildJoiSchema(schemaNode: Node): SchemaObject | null {
+  const result = build(schemaNode, 0);
+  if (!result) {
+    return null;
+  }
+
+  debug('✓ Built schema from Joi schema', {
+    schema: schemaNode.getText().substring(0, 60),
+  });
+  return result.schema;
+}
+
+function build(node: Node, depth: number): JoiSchema | null {
+  if (depth > MAX_DEPTH) {
+    return null;
+  }
+
+  if (
+    Node.isParenthesizedExpression(node) ||
+    Node.isAsExpression(node) ||
+    Node.isSatisfiesExpression(node)
+  ) {
+    return build(node.getExpression(), depth + 1);
+  }
+
+  if (Node.isCallExpression(node)) {
+    return buildCall(node, depth);
+  }
+
+  const initializer = resolveInitializer(node);
+  return initializer ? build(initializer, depth + 1) : null;
+}
+
+function buildCall(call: CallExpression, depth: number): JoiSchema | null {
+  const callee = call.getExpression();
+  if (!Node.isPropertyAccessExpression(callee)) {
+    return null;
+  }
+
+  const name = callee.getName();
+  const object = callee.getExpression();
+  const args = call.getArguments();
+
+  // Joi.string(), Joi.object({...})
+  if (isJoiNamespace(object)) {
+    return buildFactory(name, args, depth);
+  }
+
+  const base = build(object, depth + 1);
+  return base && applyMethod(base, name, args, depth);
+}
+
+function buildFactory(
+  name: string,
+  args: Node[],
+  depth: number,
+): JoiSchema | null {
+  // Joi.alternatives(a, b) or Joi.alternatives().try(a, b)
+  if (name === 'alternatives' || name === 'alt') {
+    const base: JoiSchema = { schema: {}, required: false };
+    return args.length > 0 ? buildAlternatives(base, args, depth) : base;
+  }
+
+  if (!TYPE_FACTORIES[name]) {
+    return null;
+  }
+
+  const base: JoiSchema = {
+    schema: structuredClone(TYPE_FACTORIES[name]),
+    required: false,
+  };
+  const [firstArg] = args;
+
+  // Joi.object({ ... }) / Joi.array().items(...) style arguments
+  if (name === 'object' && firstArg) {
+    return applyMethod(base, 'keys', args, depth);
+  }
+  return base;
+}
+
+function applyMethod(
+  base: JoiSchema,
+  name: string,
+  args: Node[],
+  depth: number,
+): JoiSchema | null {
+  const [firstArg] = args;
+  const schema: SchemaObject = { ...base.schema };
+
+  if (STRING_FORMATS[name]) {
+    return { ...base, schema: { ...schema, format: STRING_FORMATS[name] } };
+  }
+
+  switch (name) {
+    case 'required':
+    case 'exist':
+      return { ...base, required: true };
+    case 'optional':
+      return { ...base, required: false };
+    case 'valid':
+    case 'equal':
+    case 'only': {
+      const values = evaluateValues(args);
+      if (!values) {
+        return base;
+      }
+      const withoutNull = values.filter((v) => v !== null);
+      return {
+        ...base,
+        schema: {
+          ...schema,
+          enum: withoutNull,
+          ...(withoutNull.length < values.length && { nullable: true }),
+        },
+      };
+    }
+    case 'allow': {
+      const values = evaluateValues(args);
+      return values?.includes(null)
+        ? { ...base, schema: { ...schema, nullable: true } }
+        : base;
+    }
+    case 'default': {
+      const value = firstArg && evaluateStaticValue(firstArg);
+      return value === undefined
+        ? base
+        : { ...base, schema: { ...schema, default: value } };
+    }
+    case 'description': {
+      const description = firstArg && evaluateStaticString(firstArg);
+      return description
+        ? { ...base, schema: { ...schema, description } }
+        : base;
+    }
+    case 'pattern':
+    case 'regex': {
+      if (!Node.isRegularExpressionLiteral(firstArg)) {
+        return base;
+      }
+      const literal = firstArg.getLiteralText();
+      const pattern = literal.substring(1, literal.lastIndexOf('/'));
+      return { ...base, schema: { ...schema, pattern } };
+    }
+    case 'integer':
+      return { ...base, schema: { ...schema, type: 'integer' } };
+    case 'items': {
+      const items = args.map((arg) => build(arg, depth + 1));
+      if (items.length === 0 || items.some((item) => item === null)) {
+        return null;
+      }
+      const itemSchemas = items.map((item) => item!.schema);
+      return {
+        ...base,
+        schema: {
+          ...schema,
+          items:
+            itemSchemas.length === 1 ? itemSchemas[0] : { anyOf: itemSchemas },
+        },
+      };
+    }
+    case 'keys':
+    case 'append': {
+      const keys = firstArg && resolveObjectLiteral(firstArg);
+      const extension = keys && buildObject(keys, depth);
+      if (!extension) {
+        return null;
+      }
+      const requiredNames = [
+        ...(schema.required ?? []),
+        ...(extension.required ?? []),
+      ];
+      return {
+        ...base,
+        schema: {
+          ...schema,
+          properties: { ...schema.properties, ...extension.properties },
+          ...(requiredNames.length > 0 && { required: requiredNames }),
+        },
+      };
+    }
+    case 'unknown':
+      return {
+        ...base,
+        schema: {
+          ...schema,
+          additionalProperties: !firstArg || !Node.isFalseLiteral(firstArg),
+        },
+      };
+    case 'try':
+      return buildAlternatives(base, args, depth);
+    default:
+      return applyConstraint(base, name, firstArg);
+  }
+}
+
+/**
+ * Applies size and range constraints, whose keywords depend on the schema
+ * type. Other methods (`.trim()`, `.messages()`, `.label()`, ...) do not
+ * describe the value and are skipped.
+ */
+function applyConstraint(
+  base: JoiSchema,
+  name: string,
+  arg: Node | undefined,
+): JoiSchema {
+  const value = arg ? evaluateStaticValue(arg) : undefined;
+  const limit = typeof value === 'number' ? value : undefined;
+  const { type } = base.schema;
+  const constraints: SchemaObject = {};
+
+  if (type === 'string' || type === 'array') {
+    const [minKey, maxKey] =
+      type === 'string' ? ['minLength', 'maxLength'] : ['minItems', 'maxItems'];
+    if (name === 'min' || name === 'length') {
+      constraints[minKey] = limit;
+    }
+    if (name === 'max' || name === 'length') {
+      constraints[maxKey] = limit;
+    }
+  } else if (type === 'number' || type === 'integer') {
+    switch (name) {
+      case 'min':
+        constraints.minimum = limit;
+        break;
+      case 'greater':
+        constraints.minimum = limit;
+        constraints.exclusiveMinimum = true;
+        break;
+      case 'max':
+        constraints.maximum = limit;
+        break;
+      case 'less':
+        constraints.maximum = limit;
+        constraints.exclusiveMaximum = true;
+        break;
+      case 'positive':
+        constraints.minimum = 0;
+        constraints.exclusiveMinimum = true;
+        break;
+      case 'negative':
+        constraints.maximum = 0;
+        constraints.exclusiveMaximum = true;
+        break;
+      case 'multiple':
+        constraints.multipleOf = limit;
+        break;
+    }
+  }
+
+  const keys = Object.keys(constraints);
+  if (keys.length === 0 || keys.some((key) => constraints[key] === undefined)) {
+    return base;
+  }
+
+  return { ...base, schema: { ...base.schema, ...constraints } };
+}
+
+function buildAlternatives(
+  base: JoiSchema,
+  args: Node[],
+  depth: number,
+): JoiSchema | null {
+  const options = args.map((arg) => build(arg, depth + 1));
+  if (options.length === 0 || options.some((option) => option === null)) {
+    return null;
+  }
+
+  return {
+    ...base,
+    schema: { anyOf: options.map((option) => option!.schema) },
+  };
+}
+
+function buildObject(
+  keys: ObjectLiteralExpression,
+  depth: number,
+): SchemaObject | null {
+  const properties: { [key: string]: SchemaObject | ReferenceObject } = {};
+  const requiredNames: string[] = [];
+
+  for (const property of keys.getProperties()) {
+    if (!Node.isPropertyAssignment(property)) {
+      return null;
+    }
+
+    const nameNode = property.getNameNode();
+    const name = Node.isIdentifier(nameNode)
+      ? nameNode.getText()
+      : evaluateStaticString(
+          Node.isComputedPropertyName(nameNode)
+            ? nameNode.getExpression()
+            : nameNode,
+        );
+    const value = property.getInitializer();
+    const propertySchema = name !== null && value && build(value, depth + 1);
+    if (!propertySchema || name === null) {
+      debug('✗ Could not interpret Joi object key', {
+        key: property.getText().substring(0, 60),
+        location: formatNodeLocation(property),
+      });
+      return null;
+    }
+
+    properties[name] = propertySchema.schema;
+    if (propertySchema.required) {
+      requiredNames.push(name);
+    }
+  }
+
+  return {
+    type: 'object',
+    properties,
+    ...(requiredNames.length > 0 && { required: requiredNames }),
+  };
+}
+
+/**
+ * Reads the values of `.valid('a', 'b')` or `.valid(...ROLES)`
+ */
+function evaluateValues(args: Node[]): unknown[] | null {
+  const values = args.flatMap((arg) => {
+    const value = Node.isSpreadElement(arg)
+      ? evaluateStaticValue(resolveInitializer(arg.getExpression()) ?? arg)
+      : evaluateStaticValue(arg);
+    return Node.isSpreadElement(arg) && Array.isArray(value) ? value : [value];
+  });
+  return values.every((v) => v !== undefined) ? values : null;
+}
+
+/**
+ * Checks if an expression is the Joi namespace (`import Joi from 'joi'`,
+ * `import { Joi } from 'celebrate'`)
+ */
+function isJoiNamespace(node: Node): boolean {
+  if (!Node.isIdentifier(node)) {
+    return false;
+  }
+
+  const importInfo = getImportOf(node);
+  return (
+    !!importInfo &&
+    JOI_MODULES.includes(importInfo.moduleName) &&
+    ['default', '*', 'Joi'].includes(importInfo.importName)
+  );
+}
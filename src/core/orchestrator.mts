@@ -1,8 +1,15 @@
 import { resolve } from 'path';
 import { loadProject } from '../ast/project-loader.mjs';
 import { discoverRoutes, DiscoverRoutesOptions } from './route-discovery.mjs';
-import { buildOpenApiSpec, BuildOptions } from './spec-builder.mjs';
+import { DecoratorRoutingConfig } from './decorator-discovery.mjs';
+import { ValidationMiddlewareConfig } from './validation-middleware.mjs';
+import {
+  buildOpenApiSpec,
+  BuildOptions,
+  OperationIdStrategy,
+} from './spec-builder.mjs';
 import { OpenAPISpec } from '../types/openapi.mjs';
+import { HttpMethod } from '../types/internal.mjs';
 import { shouldIgnorePath } from '../utils/path-matcher.mjs';
 
 export interface GenerateOptions {
@@ -13,6 +20,28 @@ export interface GenerateOptions {
   ignorePaths?: string[];
   /** Regex patterns to match wrapper function names (e.g., asyncHandler, authMiddleware) */
   wrapperPatterns?: string[];
+  /** HTTP methods that `app.all()` routes expand into */
+  allMethods?: HttpMethod[];
+  /** Skip routes registered with a RegExp path instead of approximating them */
+  skipRegexRoutes?: boolean;
+  /** Extra function names that return routers (e.g., makeRouter) */
+  routerFactories?: string[];
+  /** Extra modules whose imports produce routers (e.g., express-promise-router) */
+  routerModules?: string[];
+  /** How operationIds are derived from member handlers like `userHandlers.list` */
+  operationIdStrategy?: OperationIdStrategy;
+  /** Extra decorator names for decorator-based controllers */
+  decoratorRouting?: DecoratorRoutingConfig;
+  /** Extra handler type names treated like RequestHandler (e.g., AsyncHandler) */
+  handlerTypes?: string[];
+  /** Infer untyped response bodies from res.json() / res.send() calls */
+  inferResponses?: boolean;
+  /** Extra helper type names for status-code-keyed response maps (e.g., ApiResponse) */
+  responseMapTypes?: string[];
+  /** Extra helper type names whose first type argument declares request headers (e.g., WithHeaders) */
+  headerTypes?: string[];
+  /** Validation middleware whose schemas describe the request (e.g., validateBody) */
+  validationMiddleware?: ValidationMiddlewareConfig[];
 }
 
 /**
@@ -43,6 +72,21 @@ export async function generateOpenApiSpec(
       (pattern) => new RegExp(pattern),
     );
   }
+  if (options.skipRegexRoutes) {
+    discoverOptions.skipRegexRoutes = true;
+  }
+  if (options.routerFactories && options.routerFactories.length > 0) {
+    discoverOptions.routerFactories = options.routerFactories;
+  }
+  if (options.routerModules && options.routerModules.length > 0) {
+    discoverOptions.routerModules = options.routerModules;
+  }
+  if (options.decoratorRouting) {
+    discoverOptions.decoratorRouting = options.decoratorRouting;
+  }
+  if (options.validationMiddleware && options.validationMiddleware.length > 0) {
+    discoverOptions.validationMiddleware = options.validationMiddleware;
+  }
   const routes = discoverRoutes(sourceFile, discoverOptions);
 
   // Filter out ignored paths if specified
@@ -55,6 +99,12 @@ export async function generateOpenApiSpec(
     title: options.title,
     version: options.version,
     description: options.description,
+    allMethods: options.allMethods,
+    operationIdStrategy: options.operationIdStrategy,
+    handlerTypes: options.handlerTypes,
+    inferResponses: options.inferResponses,
+    responseMapTypes: options.responseMapTypes,
+    headerTypes: options.headerTypes,
   };
 
   const spec = await buildOpenApiSpec(filteredRoutes, buildOptions);
@@ -0,0 +1,277 @@
+import { STATUS_CODES } from 'http';
+import { Node, CallExpression, SyntaxKind } from 'ts-morph';
+import { TypeInfo } from '../types/internal.mjs';
+import { extractTypeInfoFromType } from './type-extraction.mjs';
+import {
+  resolveFunctionDefinition,
+  getParameterNameAtIndex,
+} from '../ast/function-resolver.mjs';
+import {
+  evaluateStaticString,
+  formatNodeLocation,
+} from '../ast/static-evaluator.mjs';
+import { debug } from '../utils/logger.mjs';
+
+const MAX_DEPTH = 5;
+
+const DEFAULT_STATUS_CODE = 200;
+
+/**
+ * Response methods whose first argument is the response body
+ */
+const RESPONSE_BODY_METHODS = ['json', 'send'];
+
+/**
+ * Status code constant names as used by http-status-codes and similar
+ * packages (`StatusCodes.NOT_FOUND`), derived from the standard status texts.
+ * Only used when the constant's value is not known to the type checker.
+ */
+const STATUS_CODES_BY_NAME = new Map(
+  Object.entries(STATUS_CODES).map(([code, text]) => [
+    (text ?? '').toUpperCase().replace(/[^A-Z0-9]+/g, '_'),
+    Number(code),
+  ]),
+);
+
+/**
+ * A status code a handler responds with and the payloads sent with it
+ */
+export interface InferredResponse {
+  statusCode: number;
+  /** Whether any response with this status code sends a body */
+  hasBody: boolean;
+  /** Distinct payload types, in source order */
+  payloadTypes: TypeInfo[];
+}
+
+/**
+ * Infers the responses of a handler from its response calls, in the handler
+ * body and in the functions it passes `res` to:
+ * - `res.json(x)` / `res.send(x)` => 200 with the payload type of `x`
+ * - `res.status(201).json(x)` => 201, also with constant status values like
+ *   `StatusCodes.CREATED`
+ * - `res.sendStatus(204)` / `res.status(204).end()` => 204 without a body
+ *
+ * Payload types come from the type checker.
+ *
+ * @param handlerNode - The route handler function
+ * @returns One entry per status code, sorted by status code
+ *
+ * @example
+ * // (req: Request, res: Response) => {
+ * //   if (!user) return res.status(404).json({ error: 'Not found' });
+ * //   res.json(user);
+ * // }
+ * // => [
+ * //   { statusCode: 200, hasBody: true, payloadTypes: [{ typeText: "{ id: string; name: string }" }] },
+ * //   { statusCode: 404, hasBody: true, payloadTypes: [{ typeText: "{ error: string }" }] },
+ * // ]
+ */
+export function inferResponses(handlerNode: Node): InferredResponse[] {
+  const responseName = getParameterNameAtIndex(handlerNode, 1);
+  if (!responseName) {
+    return [];
+  }
+
+  const calls: ResponseCall[] = [];
+  collectResponseCalls(handlerNode, responseName, calls, new Set(), 0);
+
+  const responses = new Map<number, InferredResponse>();
+  for (const { statusCode, payload } of calls) {
+    const response = responses.get(statusCode) ?? {
+      statusCode,
+      hasBody: false,
+      payloadTypes: [],
+    };
+    responses.set(statusCode, response);
+
+    if (!payload) {
+      continue;
+    }
+
+    response.hasBody = true;
+    const type = payload.getType();
+    const typeInfo = extractTypeInfoFromType(
+      type.isLiteral() ? type.getBaseTypeOfLiteralType() : type,
+      payload,
+    );
+    if (
+      typeInfo?.typeText &&
+      !response.payloadTypes.some((t) => t.typeText === typeInfo.typeText)
+    ) {
+      response.payloadTypes.push(typeInfo);
+    }
+  }
+
+  const inferred = [...responses.values()].sort(
+    (a, b) => a.statusCode - b.statusCode,
+  );
+
+  debug('Inferred responses from response calls', {
+    calls: calls.length,
+    statusCodes: inferred.map((r) => r.statusCode),
+    location: formatNodeLocation(handlerNode),
+  });
+
+  return inferred;
+}
+
+interface ResponseCall {
+  statusCode: number;
+  payload?: Node;
+}
+
+function collectResponseCalls(
+  functionNode: Node,
+  responseName: string,
+  calls: ResponseCall[],
+  visited: Set<Node>,
+  depth: number,
+): void {
+  if (depth > MAX_DEPTH || visited.has(functionNode)) {
+    return;
+  }
+  visited.add(functionNode);
+
+  for (const call of functionNode.getDescendantsOfKind(
+    SyntaxKind.CallExpression,
+  )) {
+    const expression = call.getExpression();
+    if (
+      Node.isPropertyAccessExpression(expression) &&
+      isResponseReference(expression.getExpression(), responseName)
+    ) {
+      const responseCall = getResponseCall(call, expression.getName());
+      if (responseCall) {
+        calls.push(responseCall);
+      }
+      continue;
+    }
+
+    // Follow helpers the response is passed to, e.g. sendPage(res, items)
+    const responseIndex = call
+      .getArguments()
+      .findIndex(
+        (arg) => Node.isIdentifier(arg) && arg.getText() === responseName,
+      );
+    if (responseIndex === -1) {
+      continue;
+    }
+
+    const callee = resolveFunctionDefinition(call);
+    const calleeResponseName =
+      callee && getParameterNameAtIndex(callee, responseIndex);
+    if (callee && calleeResponseName) {
+      collectResponseCalls(
+        callee,
+        calleeResponseName,
+        calls,
+        visited,
+        depth + 1,
+      );
+    }
+  }
+}
+
+/**
+ * Reads a call on the response, e.g. `res.status(201).json(x)`.
+ * Calls that do not finish a response (like `res.status(201)` itself) and
+ * status codes that cannot be resolved statically are skipped.
+ */
+function getResponseCall(
+  call: CallExpression,
+  methodName: string,
+): ResponseCall | null {
+  const [firstArg] = call.getArguments();
+
+  if (methodName === 'sendStatus') {
+    const statusCode = firstArg ? evaluateStatusCode(firstArg) : null;
+    return statusCode === null ? null : { statusCode };
+  }
+
+  const isBodyMethod = RESPONSE_BODY_METHODS.includes(methodName);
+  if (!isBodyMethod && methodName !== 'end') {
+    return null;
+  }
+
+  const statusArg = findStatusArgument(call);
+  if (!statusArg && !isBodyMethod) {
+    return null;
+  }
+
+  const statusCode = statusArg
+    ? evaluateStatusCode(statusArg)
+    : DEFAULT_STATUS_CODE;
+  if (statusCode === null) {
+    debug('✗ Could not resolve response status code', {
+      status: statusArg?.getText(),
+      location: formatNodeLocation(call),
+    });
+    return null;
+  }
+
+  return { statusCode, payload: isBodyMethod ? firstArg : undefined };
+}
+
+/**
+ * Finds the argument of `.status(n)` earlier in a response call chain
+ */
+function findStatusArgument(call: CallExpression): Node | undefined {
+  let current: Node = call.getExpression();
+
+  while (Node.isPropertyAccessExpression(current)) {
+    const object = current.getExpression();
+    if (!Node.isCallExpression(object)) {
+      return undefined;
+    }
+
+    const callee = object.getExpression();
+    if (
+      Node.isPropertyAccessExpression(callee) &&
+      callee.getName() === 'status'
+    ) {
+      return object.getArguments()[0];
+    }
+    current = callee;
+  }
+
+  return undefined;
+}
+
+/**
+ * Resolves a status code from a literal, a constant known to the type
+ * checker, or a well-known constant name like `StatusCodes.CREATED`
+ */
+function evaluateStatusCode(node: Node): number | null {
+  const type = node.getType();
+  if (type.isNumberLiteral()) {
+    return Number(type.getLiteralValue());
+  }
+
+  const value = evaluateStaticString(node);
+  if (value !== null && /^\d{3}$/.test(value)) {
+    return Number(value);
+  }
+
+  if (Node.isPropertyAccessExpression(node)) {
+    return STATUS_CODES_BY_NAME.get(node.getName()) ?? null;
+  }
+
+  return null;
+}
+
+function isResponseReference(node: Node, responseName: string): boolean {
+  if (Node.isIdentifier(node)) {
+    return node.getText() === responseName;
+  }
+
+  if (Node.isCallExpression(node)) {
+    const callee = node.getExpression();
+    return (
+      Node.isPropertyAccessExpression(callee) &&
+      isResponseReference(callee.getExpression(), responseName)
+    );
+  }
+
+  return false;
+}
@@ -1,12 +1,24 @@
-import { SourceFile } from 'ts-morph';
+import { SourceFile, VariableDeclaration, Node, SyntaxKind } from 'ts-morph';
 import { RouteInfo } from '../types/internal.mjs';
-import { isExpressApp } from '../ast/express-checker.mjs';
+import { isExpressApp, isRouter, ExpressDetectionConfig } from '../ast/express-checker.mjs';
 import { debug } from '../utils/logger.mjs';
 import { discoverRoutesInScope, ScopeDiscoveryOptions } from './scope-discovery.mjs';
+import {
+  discoverDecoratedRoutes,
+  DecoratorRoutingConfig,
+} from './decorator-discovery.mjs';
+import { ValidationMiddlewareConfig } from './validation-middleware.mjs';
+import { getReachableSourceFiles } from '../ast/import-follower.mjs';
 
-export interface DiscoverRoutesOptions {
+export interface DiscoverRoutesOptions extends ExpressDetectionConfig {
   /** Regex patterns to match wrapper function names */
   wrapperPatterns?: RegExp[];
+  /** Skip routes registered with a RegExp path instead of approximating them */
+  skipRegexRoutes?: boolean;
+  /** Extra decorator names for decorator-based controllers */
+  decoratorRouting?: DecoratorRoutingConfig;
+  /** Validation middleware whose schemas describe the request */
+  validationMiddleware?: ValidationMiddlewareConfig[];
 }
 
 export function discoverRoutes(
@@ -19,15 +31,26 @@ export function discoverRoutes(
   debug('Starting route discovery', { file: filePath });
 
   const appVariable = findExpressApp(sourceFile);
-  if (!appVariable) {
+  if (appVariable) {
+    const appName = appVariable.getName();
+    debug('Found Express app', { file: filePath, appName });
+
+    discoverRoutesOnApp(sourceFile, appName, '', routes, new Set(), options);
+  } else {
     debug('No Express app found in file', { file: filePath });
-    return routes;
   }
 
-  const appName = appVariable.getName();
-  debug('Found Express app', { file: filePath, appName });
-
-  discoverRoutesOnApp(sourceFile, appName, '', routes, new Set(), options);
+  // Decorated controllers are registered by their routing library
+  // (e.g. useExpressServer), not on the app, so every file the entry point
+  // imports is searched
+  const decoratedRoutes = discoverDecoratedRoutes(
+    getReachableSourceFiles(sourceFile),
+    options?.decoratorRouting,
+  );
+  if (decoratedRoutes.length > 0) {
+    debug(`Found ${decoratedRoutes.length} decorated controller routes`);
+    routes.push(...decoratedRoutes);
+  }
 
   debug('Route discovery complete', {
     file: filePath,
@@ -39,6 +62,7 @@ export function discoverRoutes(
 
 function findExpressApp(sourceFile: SourceFile) {
   const variables = sourceFile.getVariableDeclarations();
+  let mountedSubApp: VariableDeclaration | null = null;
 
   debug(`Checking ${variables.length} variable declarations for Express app`, {
     file: sourceFile.getFilePath(),
@@ -55,6 +79,13 @@ function findExpressApp(sourceFile: SourceFile) {
     });
 
     if (isExpressApp(variable)) {
+      // Sub-applications mounted on another app are discovered through the mount
+      if (isMountedInFile(variable, sourceFile)) {
+        debug('Skipping Express app mounted with use()', { name: varName });
+        mountedSubApp = mountedSubApp ?? variable;
+        continue;
+      }
+
       debug('✓ Found Express app variable', {
         name: varName,
         declaration: variable.getText().substring(0, 100),
@@ -63,10 +94,62 @@ function findExpressApp(sourceFile: SourceFile) {
     }
   }
 
+  if (mountedSubApp) {
+    return mountedSubApp;
+  }
+
   debug('✗ No Express app found in any variable declarations');
   return null;
 }
 
+/**
+ * Check if a variable is passed to the .use() call of an Express app or
+ * router in the file
+ */
+function isMountedInFile(
+  variable: VariableDeclaration,
+  sourceFile: SourceFile,
+): boolean {
+  const symbol = variable.getNameNode().getSymbol();
+  if (!symbol) {
+    return false;
+  }
+
+  return sourceFile
+    .getDescendantsOfKind(SyntaxKind.CallExpression)
+    .some((callExpr) => {
+      const expression = callExpr.getExpression();
+      return (
+        Node.isPropertyAccessExpression(expression) &&
+        expression.getName() === 'use' &&
+        callExpr
+          .getArguments()
+          .some(
+            (arg) => Node.isIdentifier(arg) && arg.getSymbol() === symbol,
+          ) &&
+        isExpressReceiver(expression.getExpression())
+      );
+    });
+}
+
+/**
+ * Check if the receiver of a call (`app`, `this.router`) is declared as an
+ * Express app or router
+ */
+function isExpressReceiver(receiver: Node): boolean {
+  const nameNode = Node.isPropertyAccessExpression(receiver)
+    ? receiver.getNameNode()
+    : receiver;
+  const declaration = Node.isIdentifier(nameNode)
+    ? nameNode.getSymbol()?.getValueDeclaration()
+    : undefined;
+  return (
+    (Node.isVariableDeclaration(declaration) ||
+      Node.isPropertyDeclaration(declaration)) &&
+    (isExpressApp(declaration) || isRouter(declaration))
+  );
+}
+
 function discoverRoutesOnApp(
   sourceFile: SourceFile,
   appOrRouterName: string,
@@ -79,6 +162,18 @@ function discoverRoutesOnApp(
   if (options?.wrapperPatterns) {
     scopeOptions.wrapperPatterns = options.wrapperPatterns;
   }
+  if (options?.skipRegexRoutes) {
+    scopeOptions.skipRegexRoutes = options.skipRegexRoutes;
+  }
+  if (options?.routerFactories) {
+    scopeOptions.routerFactories = options.routerFactories;
+  }
+  if (options?.routerModules) {
+    scopeOptions.routerModules = options.routerModules;
+  }
+  if (options?.validationMiddleware) {
+    scopeOptions.validationMiddleware = options.validationMiddleware;
+  }
   discoverRoutesInScope(
     sourceFile,
     sourceFile,
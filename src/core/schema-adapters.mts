@@ -0,0 +1,124 @@
+import { Node, Identifier } from 'ts-morph';
+import { SchemaObject } from '../types/openapi.mjs';
+import { SchemaLibraryAdapter } from '../types/internal.mjs';
+import { getImportOf } from '../ast/express-checker.mjs';
+import { zodAdapter } from './zod-schema.mjs';
+import { typeboxAdapter } from './typebox-schema.mjs';
+import { valibotAdapter } from './valibot-schema.mjs';
+import { yupAdapter } from './yup-schema.mjs';
+
+const MAX_DEPTH = 10;
+
+/**
+ * Schema libraries whose inferred types are read from their runtime schemas
+ */
+export const SCHEMA_ADAPTERS: SchemaLibraryAdapter[] = [
+  zodAdapter,
+  typeboxAdapter,
+  valibotAdapter,
+  yupAdapter,
+];
+
+/**
+ * The runtime schema a type is inferred from
+ */
+export interface InferredSchema {
+  /** The schema reference from the `typeof` query, e.g. `UserSchema` */
+  schemaNode: Node;
+  /** Name of the adapter that reads the schema */
+  library: string;
+}
+
+/**
+ * Finds the schema a type is inferred from, e.g. `UserSchema` for
+ * `z.infer<typeof UserSchema>`, `Static<typeof UserSchema>`,
+ * `v.InferOutput<typeof UserSchema>` or `yup.InferType<typeof userSchema>`,
+ * or for an alias of one of them (`type User = z.infer<typeof UserSchema>`).
+ *
+ * @param typeNode - The type node to inspect
+ * @returns The schema and its library, or null
+ */
+export function getInferredSchema(
+  typeNode: Node,
+  depth = 0,
+): InferredSchema | null {
+  if (depth > MAX_DEPTH || !Node.isTypeReference(typeNode)) {
+    return null;
+  }
+
+  const adapter = getInferenceAdapter(typeNode);
+  if (adapter) {
+    const [typeArg] = typeNode.getTypeArguments();
+    return Node.isTypeQuery(typeArg)
+      ? { schemaNode: typeArg.getExprName(), library: adapter.name }
+      : null;
+  }
+
+  const typeName = typeNode.getTypeName();
+  const nameNode = Node.isQualifiedName(typeName)
+    ? typeName.getRight()
+    : typeName;
+  const symbol = nameNode.getSymbol();
+  const target = symbol?.isAlias() ? symbol.getAliasedSymbol() : symbol;
+  const declaration = target?.getDeclarations()[0];
+  const aliasedType = Node.isTypeAliasDeclaration(declaration)
+    ? declaration.getTypeNode()
+    : undefined;
+
+  return aliasedType ? getInferredSchema(aliasedType, depth + 1) : null;
+}
+
+/**
+ * Finds the library of an inference helper type like `z.infer<...>` or
+ * `Static<...>` (including named imports like `import { infer } from 'zod'`)
+ *
+ * @param typeNode - The type node to inspect
+ * @returns The adapter of the library, or null if the type is not an inference helper
+ */
+export function getInferenceAdapter(
+  typeNode: Node,
+): SchemaLibraryAdapter | null {
+  if (!Node.isTypeReference(typeNode)) {
+    return null;
+  }
+
+  const typeName = typeNode.getTypeName();
+  const [importedFrom, helperName] = Node.isQualifiedName(typeName)
+    ? [typeName.getLeft(), typeName.getRight().getText()]
+    : [typeName, getImportOf(typeName)?.importName];
+
+  if (!Node.isIdentifier(importedFrom) || !helperName) {
+    return null;
+  }
+
+  return (
+    SCHEMA_ADAPTERS.find(
+      (adapter) =>
+        isImportedFrom(importedFrom, adapter) &&
+        adapter.inferenceTypes.includes(helperName),
+    ) ?? null
+  );
+}
+
+/**
+ * Builds a schema with the adapter of a schema library
+ *
+ * @param schemaNode - The schema expression, or a reference to it
+ * @param library - Name of the adapter
+ * @returns The schema, or null if the schema cannot be interpreted
+ */
+export function buildLibrarySchema(
+  schemaNode: Node,
+  library: string,
+): SchemaObject | null {
+  const adapter = SCHEMA_ADAPTERS.find((a) => a.name === library);
+  return adapter ? adapter.buildSchema(schemaNode) : null;
+}
+
+function isImportedFrom(
+  identifier: Identifier,
+  adapter: SchemaLibraryAdapter,
+): boolean {
+  const moduleName = getImportOf(identifier)?.moduleName;
+  return !!moduleName && adapter.modules.test(moduleName);
+}
@@ -1,22 +1,56 @@
-import { SourceFile, Node, SyntaxKind, CallExpression } from 'ts-morph';
-import { RouteInfo, HttpMethod } from '../types/internal.mjs';
-import { isRouter } from '../ast/express-checker.mjs';
 import {
-  resolveHandler,
+  SourceFile,
+  Node,
+  SyntaxKind,
+  CallExpression,
+  PropertyAccessExpression,
+  PropertyDeclaration,
+  VariableDeclaration,
+} from 'ts-morph';
+import { RouteInfo, RouteMethod, HTTP_METHODS } from '../types/internal.mjs';
+import {
+  isRouter,
+  isExpressApp,
+  ExpressDetectionConfig,
+} from '../ast/express-checker.mjs';
+import {
+  resolveHandlerFromArguments,
   resolveFunctionDefinition,
   getParameterNameAtIndex,
+  findReturnedVariables,
   WrapperConfig,
 } from '../ast/function-resolver.mjs';
 import { composePath } from '../utils/path-composer.mjs';
+import { regexToExpressPath } from '../utils/regex-path.mjs';
 import { followImport } from '../ast/import-follower.mjs';
+import {
+  expandRouteTable,
+  RouteTableRegistration,
+} from '../ast/route-table.mjs';
+import {
+  evaluateStaticString,
+  NodeSubstitution,
+  formatNodeLocation,
+} from '../ast/static-evaluator.mjs';
+import { extractTypesFromTypeArguments } from './type-extraction.mjs';
+import {
+  extractValidationTypes,
+  ValidationMiddlewareConfig,
+  DEFAULT_VALIDATION_MIDDLEWARE,
+} from './validation-middleware.mjs';
+import { extractExpressValidatorTypes } from './express-validator.mjs';
 import { debug } from '../utils/logger.mjs';
 
-export interface ScopeDiscoveryOptions {
+export interface ScopeDiscoveryOptions extends ExpressDetectionConfig {
   /** Regex patterns to match wrapper function names */
   wrapperPatterns?: RegExp[];
+  /** Skip routes registered with a RegExp path instead of approximating them */
+  skipRegexRoutes?: boolean;
+  /** Validation middleware whose schemas describe the request */
+  validationMiddleware?: ValidationMiddlewareConfig[];
 }
 
-const HTTP_METHODS: HttpMethod[] = ['get', 'post', 'put', 'patch', 'delete'];
+const ROUTE_METHODS: RouteMethod[] = [...HTTP_METHODS, 'all'];
 
 /**
  * Generate unique key for a function to prevent infinite recursion
@@ -32,8 +66,8 @@ function getFunctionKey(node: Node): string {
  * Check if a call expression is inside a function body
  * (not at the scope level we're currently processing)
  */
-function isInsideFunctionBody(callExpr: CallExpression, scope: Node): boolean {
-  let current = callExpr.getParent();
+function isInsideFunctionBody(node: Node, scope: Node): boolean {
+  let current = node.getParent();
 
   while (current && current !== scope) {
     if (
@@ -50,10 +84,39 @@ function isInsideFunctionBody(callExpr: CallExpression, scope: Node): boolean {
 }
 
 /**
- * Check if a method name is an HTTP method
+ * Check if a method name is an HTTP method (or `all`)
  */
 function isHttpMethod(name: string): boolean {
-  return HTTP_METHODS.includes(name as HttpMethod);
+  return ROUTE_METHODS.includes(name as RouteMethod);
+}
+
+/**
+ * Resolve a path argument to a string, emitting a warning with the
+ * source location when it cannot be determined statically
+ */
+function resolvePathArgument(
+  pathArg: Node,
+  substitute?: NodeSubstitution,
+): string | null {
+  const path = evaluateStaticString(pathArg, substitute);
+
+  if (path === null) {
+    console.warn(
+      `Warning: Could not statically resolve route path \`${pathArg.getText()}\` ` +
+        `at ${formatNodeLocation(pathArg)}. The route will be skipped.`,
+    );
+  }
+
+  return path;
+}
+
+/**
+ * Check if an argument is string-typed, i.e. meant as a path
+ * even if its value cannot be resolved statically
+ */
+function isStringTyped(node: Node): boolean {
+  const type = node.getType();
+  return type.isString() || type.isStringLiteral() || type.isTemplateLiteral();
 }
 
 /**
@@ -208,15 +271,55 @@ function processFunctionCallsWithApp(
 }
 
 /**
- * Extract route information from a method call (e.g., app.get('/path', handler))
+ * A route path resolved from a path argument
+ */
+interface RoutePath {
+  path: string;
+  /** Source of the RegExp when the route was registered with a regex path */
+  regexPattern?: string;
+}
+
+/**
+ * Resolve a route path argument to one or more paths.
+ * Handles strings (including constants), arrays of paths and RegExp literals.
+ * `substitute` replaces route table loop variables inside composite paths.
+ */
+function resolveRoutePaths(
+  pathArg: Node,
+  options?: ScopeDiscoveryOptions,
+  substitute?: NodeSubstitution,
+): RoutePath[] {
+  if (Node.isArrayLiteralExpression(pathArg)) {
+    return pathArg
+      .getElements()
+      .flatMap((element) => resolveRoutePaths(element, options, substitute));
+  }
+
+  if (Node.isRegularExpressionLiteral(pathArg)) {
+    const regexPattern = pathArg.getLiteralValue().source;
+    if (options?.skipRegexRoutes) {
+      debug('Skipping regex route path', { pattern: regexPattern });
+      return [];
+    }
+    return [{ path: regexToExpressPath(regexPattern), regexPattern }];
+  }
+
+  const path = resolvePathArgument(pathArg, substitute);
+  return path === null ? [] : [{ path }];
+}
+
+/**
+ * Extract route information from a method call (e.g., app.get('/path', handler)).
+ * Returns one route per path when the path argument is an array.
  */
 function extractRoute(
   callExpr: CallExpression,
-  method: HttpMethod,
+  method: RouteMethod,
   basePath: string,
   options?: ScopeDiscoveryOptions,
-): RouteInfo | null {
-  const args = callExpr.getArguments();
+  args: Node[] = callExpr.getArguments(),
+  substitute?: NodeSubstitution,
+): RouteInfo[] {
   const callText = callExpr.getText().substring(0, 100);
 
   debug('Extracting route from method call', {
@@ -232,7 +335,7 @@ function extractRoute(
       expected: 'at least 2',
       received: args.length,
     });
-    return null;
+    return [];
   }
 
   const pathArg = args[0];
@@ -245,29 +348,50 @@ function extractRoute(
     isStringLiteral: Node.isStringLiteral(pathArg),
   });
 
-  if (!Node.isStringLiteral(pathArg)) {
-    debug('✗ Path argument is not a string literal', {
+  const routePaths = resolveRoutePaths(pathArg, options, substitute);
+  if (routePaths.length === 0) {
+    debug('✗ Path argument could not be resolved to a path', {
       method: method.toUpperCase(),
       kind: pathArgKind,
       text: pathArgText,
     });
-    return null;
+    return [];
   }
 
-  const routePath = pathArg.getLiteralValue();
-  const fullPath = composePath(basePath, routePath);
+  const fullPaths = routePaths.map((routePath) => ({
+    ...routePath,
+    path: composePath(basePath, routePath.path),
+  }));
 
-  debug('Composed full path', {
-    routePath,
+  debug('Composed full paths', {
+    routePaths: routePaths.map((p) => p.path),
     basePath: basePath || '/',
-    fullPath,
+    fullPaths: fullPaths.map((p) => p.path),
   });
 
+  return buildRoutes(
+    method,
+    fullPaths,
+    args.slice(1),
+    options,
+    callExpr.getTypeArguments(),
+  );
+}
+
+/**
+ * Resolve the handler from the arguments of a route registration and build
+ * one RouteInfo per path. The paths have already been resolved by the caller.
+ */
+function buildRoutes(
+  method: RouteMethod,
+  fullPaths: RoutePath[],
+  handlerArgs: Node[],
+  options?: ScopeDiscoveryOptions,
+  typeArgs: Node[] = [],
+): RouteInfo[] {
   // Show all handler arguments
-  const handlerArgs = args.slice(1);
   debug(`Found ${handlerArgs.length} handler/middleware arguments`, {
-    handlers: handlerArgs.map((arg, i) => ({
-      index: i + 1,
+    handlers: handlerArgs.map((arg) => ({
       kind: arg.getKindName(),
       text: arg.getText().substring(0, 40),
     })),
@@ -278,14 +402,14 @@ function extractRoute(
     ? { patterns: options.wrapperPatterns }
     : undefined;
 
-  const handler = resolveHandler(callExpr, wrapperConfig);
+  const handler = resolveHandlerFromArguments(handlerArgs, wrapperConfig);
   if (!handler) {
     debug('✗ Could not resolve handler', {
       method: method.toUpperCase(),
-      path: fullPath,
+      paths: fullPaths.map((p) => p.path),
       possibleReasons: 'No function-like arguments found',
     });
-    return null;
+    return [];
   }
 
   debug('✓ Resolved handler', {
@@ -294,29 +418,177 @@ function extractRoute(
     preview: handler.node.getText().substring(0, 80),
   });
 
-  const routeInfo = {
-    path: fullPath,
-    method,
-    handlerName: handler.name,
-    handlerNode: handler.node,
+  // Explicit type arguments, e.g. app.get<{ id: string }, User>(...), and
+  // validation middleware schemas, e.g. validateBody(CreateUserSchema),
+  // celebrate({ [Segments.BODY]: Joi.object({...}) }) or express-validator
+  // chains like body('email').isEmail()
+  const typeArgTypes = extractTypesFromTypeArguments(typeArgs);
+  const expressValidatorTypes = extractExpressValidatorTypes(handlerArgs);
+  const validationTypes = extractValidationTypes(handlerArgs, [
+    ...(options?.validationMiddleware ?? []),
+    ...DEFAULT_VALIDATION_MIDDLEWARE,
+  ]);
+  const requestTypes =
+    typeArgTypes || expressValidatorTypes || validationTypes
+      ? { ...typeArgTypes, ...expressValidatorTypes, ...validationTypes }
+      : null;
+
+  // Middleware functions before the handler, e.g. requireTenant in
+  // router.get('/items', requireTenant, listItems)
+  const middlewareNodes: Node[] = handlerArgs.flatMap((arg) => {
+    const middleware = resolveHandlerFromArguments([arg], wrapperConfig);
+    return middleware && middleware.node !== handler.node ? [middleware.node] : [];
+  });
+
+  return fullPaths.map(({ path, regexPattern }) => {
+    debug('✓ Successfully extracted complete route', {
+      method: method.toUpperCase(),
+      path,
+      handler: handler.name || 'anonymous',
+    });
+
+    const routeInfo: RouteInfo = {
+      path,
+      method,
+      handlerName: handler.name,
+      handlerNode: handler.node,
+    };
+    if (regexPattern !== undefined) {
+      routeInfo.regexPattern = regexPattern;
+    }
+    if (requestTypes) {
+      routeInfo.requestTypes = requestTypes;
+    }
+    if (middlewareNodes.length > 0) {
+      routeInfo.middlewareNodes = middlewareNodes;
+    }
+    return routeInfo;
+  });
+}
+
+/**
+ * Check if a variable can be mounted with app.use(): either a router
+ * or a sub-application created with express()
+ */
+function isMountable(
+  variable: VariableDeclaration | PropertyDeclaration,
+  options?: ScopeDiscoveryOptions,
+): boolean {
+  return isRouter(variable, options) || isExpressApp(variable);
+}
+
+/**
+ * A router or sub-application mounted with app.use()
+ */
+interface RouterMount {
+  mountPath: string;
+  routerName: string;
+  routerSourceFile?: SourceFile;
+  /** Function or class that defines the router (factories and controllers) */
+  routerScope?: Node;
+}
+
+/**
+ * Extract mount information for a router created by a factory function,
+ * e.g. app.use('/users', createUserRouter(deps))
+ */
+function extractRouterFactoryMount(
+  factoryCall: CallExpression,
+  mountPath: string,
+  options?: ScopeDiscoveryOptions,
+): RouterMount | null {
+  const factoryText = factoryCall.getExpression().getText();
+
+  debug(`Resolving router factory "${factoryText}"`);
+
+  const factory = resolveFunctionDefinition(factoryCall);
+  if (!factory) {
+    debug('✗ Could not resolve router factory function', {
+      factory: factoryText,
+    });
+    return null;
+  }
+
+  const routerVar = findReturnedVariables(factory).find((variable) =>
+    isMountable(variable, options),
+  );
+  if (!routerVar) {
+    debug('✗ Router factory does not return a local router variable', {
+      factory: factoryText,
+      location: formatNodeLocation(factory),
+    });
+    return null;
+  }
+
+  debug('✓ Resolved router returned by factory', {
+    factory: factoryText,
+    routerName: routerVar.getName(),
+    location: formatNodeLocation(factory),
+  });
+
+  return {
+    mountPath,
+    routerName: routerVar.getName(),
+    routerSourceFile: factory.getSourceFile(),
+    routerScope: factory,
   };
+}
 
-  debug('✓ Successfully extracted complete route', {
-    method: method.toUpperCase(),
-    path: fullPath,
-    handler: handler.name || 'anonymous',
+/**
+ * Extract mount information for a router stored on a class instance,
+ * e.g. app.use('/users', userController.router). Routes registered on
+ * this.router in the class constructor and methods are discovered.
+ */
+function extractClassRouterMount(
+  routerAccess: PropertyAccessExpression,
+  mountPath: string,
+  options?: ScopeDiscoveryOptions,
+): RouterMount | null {
+  const propertyName = routerAccess.getName();
+  const routerProperty = routerAccess
+    .getNameNode()
+    .getSymbol()
+    ?.getDeclarations()
+    .find(
+      (decl): decl is PropertyDeclaration =>
+        Node.isPropertyDeclaration(decl) && isMountable(decl, options),
+    );
+  const classDecl = routerProperty?.getParentIfKind(
+    SyntaxKind.ClassDeclaration,
+  );
+
+  if (!routerProperty || !classDecl) {
+    debug('✗ Property is not a router declared on a class', {
+      property: routerAccess.getText(),
+    });
+    return null;
+  }
+
+  debug('✓ Resolved router property on class', {
+    className: classDecl.getName() || 'anonymous',
+    property: propertyName,
+    location: formatNodeLocation(routerProperty),
   });
 
-  return routeInfo;
+  return {
+    mountPath,
+    routerName: `this.${propertyName}`,
+    routerSourceFile: classDecl.getSourceFile(),
+    routerScope: classDecl,
+  };
 }
 
 /**
- * Extract router mount information from app.use() call
+ * Extract router mount information from app.use() call.
+ * Every argument after the optional path is checked, so routers can be
+ * mounted after middleware (app.use('/api', auth, apiRouter)), several at
+ * once (app.use('/api', v1Router, v2Router)) or inside arrays.
  */
-function extractRouterMount(
+function extractRouterMounts(
   callExpr: CallExpression,
   sourceFile: SourceFile,
-): { mountPath: string; routerName: string; routerSourceFile?: SourceFile } | null {
+  options?: ScopeDiscoveryOptions,
+): RouterMount[] {
   const args = callExpr.getArguments();
 
   debug('Extracting router mount details', {
@@ -329,41 +601,63 @@ function extractRouterMount(
       expected: 'at least 1',
       received: 0,
     });
-    return null;
+    return [];
   }
 
-  let mountPath: string;
-  let routerArg: Node;
-
-  // Handle both app.use(router) and app.use('/path', router)
-  if (args.length === 1) {
-    // app.use(router) - mount at root
-    debug('Single argument detected, checking if it is a router');
-    mountPath = '/';
-    routerArg = args[0];
-  } else {
-    // app.use('/path', router) - mount at specified path
-    const pathArg = args[0];
-    const pathArgText = pathArg.getText();
-    const pathArgKind = pathArg.getKindName();
+  let mountPath = '/';
+  let candidateArgs = args;
 
+  // Handle both app.use(router, ...) and app.use('/path', router, ...)
+  const pathArg = args[0];
+  if (isStringTyped(pathArg)) {
     debug('Checking path argument', {
-      text: pathArgText,
-      kind: pathArgKind,
+      text: pathArg.getText(),
+      kind: pathArg.getKindName(),
       isStringLiteral: Node.isStringLiteral(pathArg),
     });
 
-    if (!Node.isStringLiteral(pathArg)) {
-      debug('✗ Path argument is not a string literal', {
-        kind: pathArgKind,
+    const resolvedPath = resolvePathArgument(pathArg);
+    if (resolvedPath === null) {
+      debug('✗ Path argument could not be resolved to a string', {
+        kind: pathArg.getKindName(),
       });
-      return null;
+      return [];
     }
 
-    mountPath = pathArg.getLiteralValue();
-    routerArg = args[1];
+    mountPath = resolvedPath;
+    candidateArgs = args.slice(1);
+  } else {
+    debug('No path argument detected, mounting at root');
   }
 
+  return flattenArrayArguments(candidateArgs)
+    .map((routerArg) =>
+      extractMountFromArgument(routerArg, mountPath, sourceFile, options),
+    )
+    .filter((mount): mount is RouterMount => mount !== null);
+}
+
+/**
+ * Flatten array arguments, e.g. app.use('/api', [auth, apiRouter])
+ */
+function flattenArrayArguments(args: Node[]): Node[] {
+  return args.flatMap((arg) =>
+    Node.isArrayLiteralExpression(arg)
+      ? flattenArrayArguments(arg.getElements())
+      : [arg],
+  );
+}
+
+/**
+ * Resolve a single app.use() argument to a router or sub-application mount.
+ * Returns null for middleware and anything else that cannot be mounted.
+ */
+function extractMountFromArgument(
+  routerArg: Node,
+  mountPath: string,
+  sourceFile: SourceFile,
+  options?: ScopeDiscoveryOptions,
+): RouterMount | null {
   const routerArgText = routerArg.getText();
   const routerArgKind = routerArg.getKindName();
 
@@ -373,6 +667,14 @@ function extractRouterMount(
     isIdentifier: Node.isIdentifier(routerArg),
   });
 
+  if (Node.isCallExpression(routerArg)) {
+    return extractRouterFactoryMount(routerArg, mountPath, options);
+  }
+
+  if (Node.isPropertyAccessExpression(routerArg)) {
+    return extractClassRouterMount(routerArg, mountPath, options);
+  }
+
   if (!Node.isIdentifier(routerArg)) {
     debug('✗ Router argument is not an identifier', {
       kind: routerArgKind,
@@ -401,11 +703,11 @@ function extractRouterMount(
     debug('Found local variable with matching name', {
       name: routerName,
       declaration: routerVarText,
-      isRouter: isRouter(routerVar),
+      isMountable: isMountable(routerVar, options),
     });
 
-    if (isRouter(routerVar)) {
-      debug('✓ Verified as Express Router', {
+    if (isMountable(routerVar, options)) {
+      debug('✓ Verified as Express Router or sub-application', {
         routerName,
         location: 'local file',
       });
@@ -430,14 +732,14 @@ function extractRouterMount(
     });
 
     if (Node.isVariableDeclaration(importedDefinition)) {
-      const isRouterCheck = isRouter(importedDefinition);
-      debug('Checking if imported variable is a router', {
-        isRouter: isRouterCheck,
+      const isMountableCheck = isMountable(importedDefinition, options);
+      debug('Checking if imported variable is a router or sub-application', {
+        isMountable: isMountableCheck,
       });
 
-      if (isRouterCheck) {
+      if (isMountableCheck) {
         const importedSourceFile = importedDefinition.getSourceFile();
-        debug('✓ Verified as imported Express Router', {
+        debug('✓ Verified as imported Express Router or sub-application', {
           routerName: importedDefinition.getName(),
           importedFrom: importedSourceFile.getFilePath(),
         });
@@ -454,7 +756,7 @@ function extractRouterMount(
     });
   }
 
-  debug('✗ Router not found or not valid Express Router', {
+  debug('✗ Router not found or not valid Express Router or sub-application', {
     routerName,
   });
   return null;
@@ -476,15 +778,22 @@ function processHttpMethodCall(
     call: callText,
   });
 
-  const route = extractRoute(callExpr, methodName as HttpMethod, basePath, options);
-  if (route) {
-    debug('✓ Successfully extracted route', {
-      method: methodName.toUpperCase(),
-      path: route.path,
-      handler: route.handlerName || 'anonymous',
-      handlerKind: route.handlerNode.getKindName(),
+  const extractedRoutes = extractRoute(
+    callExpr,
+    methodName as RouteMethod,
+    basePath,
+    options,
+  );
+  if (extractedRoutes.length > 0) {
+    extractedRoutes.forEach((route) => {
+      debug('✓ Successfully extracted route', {
+        method: methodName.toUpperCase(),
+        path: route.path,
+        handler: route.handlerName || 'anonymous',
+        handlerKind: route.handlerNode.getKindName(),
+      });
     });
-    routes.push(route);
+    routes.push(...extractedRoutes);
   } else {
     debug('✗ Failed to extract route', {
       method: methodName.toUpperCase(),
@@ -494,6 +803,72 @@ function processHttpMethodCall(
   }
 }
 
+/**
+ * Process a registration with a computed method name, e.g. app[method](...).
+ * Inside a loop over a static route table, such as
+ * routes.forEach((r) => app[r.method](r.path, r.handler)), one route is
+ * registered per table entry.
+ */
+function processComputedMethodCall(
+  callExpr: CallExpression,
+  scope: Node,
+  basePath: string,
+  routes: RouteInfo[],
+  options?: ScopeDiscoveryOptions,
+): void {
+  const callText = callExpr.getText().substring(0, 100);
+  const table = expandRouteTable(callExpr);
+  const loop = table?.loop ?? callExpr;
+
+  // Loops inside nested functions are processed when we recurse into them
+  if (isInsideFunctionBody(loop, scope)) {
+    return;
+  }
+
+  const methodArg = callExpr
+    .getExpression()
+    .asKindOrThrow(SyntaxKind.ElementAccessExpression)
+    .getArgumentExpression();
+  const registrations: RouteTableRegistration[] = table
+    ? table.registrations
+    : methodArg
+      ? [{ method: methodArg, args: callExpr.getArguments() }]
+      : [];
+
+  debug('Processing computed method registration', {
+    call: callText,
+    routeTableEntries: table?.registrations.length,
+  });
+
+  for (const registration of registrations) {
+    const methodName = evaluateStaticString(registration.method);
+    if (methodName === null || !isHttpMethod(methodName)) {
+      debug('✗ Could not resolve computed method to an HTTP method', {
+        method: registration.method.getText(),
+        resolved: methodName,
+      });
+      continue;
+    }
+
+    const extractedRoutes = extractRoute(
+      callExpr,
+      methodName as RouteMethod,
+      basePath,
+      options,
+      registration.args,
+      registration.substitute,
+    );
+    extractedRoutes.forEach((route) => {
+      debug('✓ Successfully extracted route from computed method', {
+        method: methodName.toUpperCase(),
+        path: route.path,
+        handler: route.handlerName || 'anonymous',
+      });
+    });
+    routes.push(...extractedRoutes);
+  }
+}
+
 /**
  * Process a single router mount (app.use)
  */
@@ -511,8 +886,16 @@ function processRouterMount(
     call: callText,
   });
 
-  const mount = extractRouterMount(callExpr, sourceFile);
-  if (mount) {
+  const mounts = extractRouterMounts(callExpr, sourceFile, options);
+  if (mounts.length === 0) {
+    debug('✗ Failed to extract router mount', {
+      call: callText,
+      reason: 'Could not resolve router or missing mount path',
+    });
+    return;
+  }
+
+  for (const mount of mounts) {
     const newBasePath = composePath(basePath, mount.mountPath);
     debug('✓ Successfully extracted router mount', {
       mountPath: mount.mountPath,
@@ -525,13 +908,26 @@ function processRouterMount(
 
     // If router is imported from another file, discover routes in that file
     const targetSourceFile = mount.routerSourceFile || sourceFile;
+    const targetScope = mount.routerScope || targetSourceFile;
+
+    // Factories and controllers may be mounted several times (e.g. /v1 and
+    // /v2), so they are only skipped when revisited under the same base path
+    if (mount.routerScope) {
+      const scopeKey = `${getFunctionKey(mount.routerScope)}@${newBasePath}`;
+      if (visitedFunctions.has(scopeKey)) {
+        debug('⚠ Skipping already visited router scope', { scopeKey });
+        continue;
+      }
+      visitedFunctions.add(scopeKey);
+    }
+
     debug('➜ Recursing into mounted router', {
       routerName: mount.routerName,
       basePath: newBasePath,
     });
 
     discoverRoutesInScope(
-      targetSourceFile,
+      targetScope,
       targetSourceFile,
       mount.routerName,
       newBasePath,
@@ -539,12 +935,123 @@ function processRouterMount(
       visitedFunctions,
       options,
     );
-  } else {
-    debug('✗ Failed to extract router mount', {
-      call: callText,
-      reason: 'Could not resolve router or missing mount path',
+  }
+}
+
+interface ChainedMethodCall {
+  callExpr: CallExpression;
+  methodName: string;
+}
+
+/**
+ * Collect the method calls chained onto a route object,
+ * e.g. the .get() and .put() in router.route('/users/:id').get(a).put(b)
+ */
+function collectChainedMethodCalls(routeObject: Node): ChainedMethodCall[] {
+  const access = routeObject.getParentIfKind(
+    SyntaxKind.PropertyAccessExpression,
+  );
+  const callExpr = access?.getParentIfKind(SyntaxKind.CallExpression);
+
+  if (!access || !callExpr || callExpr.getExpression() !== access) {
+    return [];
+  }
+
+  return [
+    { callExpr, methodName: access.getName() },
+    ...collectChainedMethodCalls(callExpr),
+  ];
+}
+
+/**
+ * Collect method calls made on a variable holding a route object,
+ * e.g. const userRoute = router.route('/users/:id'); userRoute.get(a).put(b);
+ */
+function collectMethodCallsOnRouteVariable(
+  routeCall: CallExpression,
+  scope: Node,
+  callExpressions: CallExpression[],
+): ChainedMethodCall[] {
+  const declaration = routeCall.getParentIfKind(SyntaxKind.VariableDeclaration);
+  if (!declaration || declaration.getInitializer() !== routeCall) {
+    return [];
+  }
+
+  const routeVariableName = declaration.getName();
+  debug(`Route object stored in variable "${routeVariableName}"`);
+
+  return callExpressions
+    .filter((callExpr) => !isInsideFunctionBody(callExpr, scope))
+    .flatMap((callExpr) => {
+      const expression = callExpr.getExpression();
+      if (
+        !Node.isPropertyAccessExpression(expression) ||
+        expression.getExpression().getText() !== routeVariableName
+      ) {
+        return [];
+      }
+      return [
+        { callExpr, methodName: expression.getName() },
+        ...collectChainedMethodCalls(callExpr),
+      ];
+    });
+}
+
+/**
+ * Process a route chain (app.route('/path').get(...).post(...)),
+ * emitting one route per chained HTTP method with the shared path
+ */
+function processRouteChain(
+  routeCall: CallExpression,
+  scope: Node,
+  basePath: string,
+  callExpressions: CallExpression[],
+  routes: RouteInfo[],
+  options?: ScopeDiscoveryOptions,
+): void {
+  const callText = routeCall.getText().substring(0, 100);
+  const pathArg = routeCall.getArguments()[0];
+
+  debug('Processing route chain with route()', {
+    call: callText,
+  });
+
+  const routePaths = pathArg ? resolveRoutePaths(pathArg, options) : [];
+  if (routePaths.length === 0) {
+    debug('✗ Route chain path could not be resolved to a path', {
+      kind: pathArg?.getKindName(),
+      text: pathArg?.getText(),
     });
+    return;
   }
+
+  const fullPaths = routePaths.map((routePath) => ({
+    ...routePath,
+    path: composePath(basePath, routePath.path),
+  }));
+  const chainedCalls = [
+    ...collectChainedMethodCalls(routeCall),
+    ...collectMethodCallsOnRouteVariable(routeCall, scope, callExpressions),
+  ];
+
+  debug(`Found ${chainedCalls.length} methods chained on route`, {
+    paths: fullPaths.map((p) => p.path),
+    methods: chainedCalls.map((c) => c.methodName),
+  });
+
+  chainedCalls
+    .filter(({ methodName }) => isHttpMethod(methodName))
+    .forEach(({ callExpr, methodName }) => {
+      routes.push(
+        ...buildRoutes(
+          methodName as RouteMethod,
+          fullPaths,
+          callExpr.getArguments(),
+          options,
+          callExpr.getTypeArguments(),
+        ),
+      );
+    });
 }
 
 /**
@@ -566,14 +1073,22 @@ function processRouteMethodCalls(
   });
 
   for (const callExpr of callExpressions) {
+    const expression = callExpr.getExpression();
+
+    if (
+      Node.isElementAccessExpression(expression) &&
+      expression.getExpression().getText() === appOrRouterName
+    ) {
+      processComputedMethodCall(callExpr, scope, basePath, routes, options);
+      continue;
+    }
+
     // Skip call expressions that are inside function bodies
     // (they will be processed when we recurse into those functions)
     if (isInsideFunctionBody(callExpr, scope)) {
       continue;
     }
 
-    const expression = callExpr.getExpression();
-
     if (!Node.isPropertyAccessExpression(expression)) {
       continue;
     }
@@ -592,6 +1107,15 @@ function processRouteMethodCalls(
 
     if (isHttpMethod(methodName)) {
       processHttpMethodCall(callExpr, methodName, basePath, routes, options);
+    } else if (methodName === 'route') {
+      processRouteChain(
+        callExpr,
+        scope,
+        basePath,
+        callExpressions,
+        routes,
+        options,
+      );
     } else if (methodName === 'use') {
       processRouterMount(
         callExpr,
@@ -1,5 +1,12 @@
-import type { Node } from 'ts-morph';
-import { RouteInfo } from '../types/internal.mjs';
+import { ClassDeclaration } from 'ts-morph';
+import {
+  RouteInfo,
+  HttpMethod,
+  HTTP_METHODS,
+  RouteMethod,
+  RequestTypeInfo,
+  TypeInfo,
+} from '../types/internal.mjs';
 import {
   OpenAPISpec,
   PathsObject,
@@ -8,23 +15,73 @@ import {
   ParameterObject,
   SchemaObject,
   ReferenceObject,
+  ResponsesObject,
+  ResponseObject,
 } from '../types/openapi.mjs';
 import { parseJsDoc } from './jsdoc-parser.mjs';
 import {
   extractRequestTypes,
   expandTypeToStructure,
+  TypeExtractionOptions,
 } from './type-extraction.mjs';
 import { convertTypeToSchema } from './type-converter.mjs';
+import { buildLibrarySchema } from './schema-adapters.mjs';
+import {
+  getValidatedClass,
+  applyClassValidatorConstraints,
+} from './class-validator.mjs';
+import { STATUS_CODES } from 'http';
+import { inferResponses, InferredResponse } from './response-inference.mjs';
+import { inferHeaders, InferredHeader } from './header-inference.mjs';
 
 export interface BuildOptions {
   title: string;
   version: string;
   description?: string;
+  /** HTTP methods that an `app.all()` route expands into */
+  allMethods?: HttpMethod[];
+  /** How operationIds are derived from member handlers like `userHandlers.list` */
+  operationIdStrategy?: OperationIdStrategy;
+  /** Extra handler type names treated like `RequestHandler<...>` (e.g. AsyncHandler) */
+  handlerTypes?: string[];
+  /** Infer untyped response bodies from `res.json()` / `res.send()` calls */
+  inferResponses?: boolean;
+  /** Extra helper type names for status-code-keyed response maps (besides TypedResponse) */
+  responseMapTypes?: string[];
+  /** Extra helper type names whose first type argument declares request headers (besides TypedHeaders) */
+  headerTypes?: string[];
 }
 
+/**
+ * Naming strategies for handlers that are members of an object or class:
+ * - `qualified`: `userHandlers.list` (default)
+ * - `member`: `list`
+ * - `camelCase`: `userHandlersList`
+ */
+export type OperationIdStrategy = 'qualified' | 'member' | 'camelCase';
+
+export const OPERATION_ID_STRATEGIES: OperationIdStrategy[] = [
+  'qualified',
+  'member',
+  'camelCase',
+];
+
+/**
+ * Methods an `app.all()` route expands into when no list is configured.
+ * TRACE is left out since it is almost never meant to be exposed.
+ */
+export const DEFAULT_ALL_METHODS: HttpMethod[] = HTTP_METHODS.filter(
+  (method) => method !== 'trace',
+);
+
 // Context to track schemas during spec building
 interface BuildContext {
   schemas: { [key: string]: SchemaObject };
+  allMethods: HttpMethod[];
+  operationIdStrategy: OperationIdStrategy;
+  operationIds: Set<string>;
+  typeExtraction: TypeExtractionOptions;
+  inferResponses: boolean;
 }
 
 export async function buildOpenApiSpec(
@@ -33,6 +90,15 @@ export async function buildOpenApiSpec(
 ): Promise<OpenAPISpec> {
   const context: BuildContext = {
     schemas: {},
+    allMethods: options.allMethods ?? DEFAULT_ALL_METHODS,
+    operationIdStrategy: options.operationIdStrategy ?? 'qualified',
+    operationIds: new Set(),
+    typeExtraction: {
+      handlerTypes: options.handlerTypes,
+      responseMapTypes: options.responseMapTypes,
+      headerTypes: options.headerTypes,
+    },
+    inferResponses: options.inferResponses ?? false,
   };
 
   const paths = await buildPaths(routes, context);
@@ -58,10 +124,8 @@ async function buildPaths(
   const paths: PathsObject = {};
 
   for (const route of routes) {
-    const { path, method, handlerName, handlerNode } = route;
-
     // Convert Express path format to OpenAPI format
-    const openApiPath = convertExpressPathToOpenAPI(path);
+    const openApiPath = convertExpressPathToOpenAPI(route.path);
 
     // Initialize path item if it doesn't exist
     if (!paths[openApiPath]) {
@@ -70,72 +134,270 @@ async function buildPaths(
 
     const pathItem: PathItemObject = paths[openApiPath];
 
-    // Extract response body schema
-    const responseBody = await extractResponseBody(handlerNode, context);
+    if (route.method === 'all') {
+      // Explicitly registered methods take precedence over app.all()
+      const methods = context.allMethods.filter((m) => !pathItem[m]);
+      for (const method of methods) {
+        pathItem[method] = await buildOperation(route, method, context);
+      }
+    } else {
+      pathItem[route.method] = await buildOperation(
+        route,
+        route.method,
+        context,
+      );
+    }
+  }
 
-    // Create operation
-    const operation: OperationObject = {
-      responses: {
-        '200': responseBody || {
-          description: 'Successful response',
-        },
-      },
-    };
+  return paths;
+}
 
-    // Add operationId if handler name exists
-    if (handlerName) {
-      operation.operationId = handlerName;
-    }
+async function buildOperation(
+  route: RouteInfo,
+  method: HttpMethod,
+  context: BuildContext,
+): Promise<OperationObject> {
+  const { path, handlerName, handlerNode } = route;
+
+  // Types found during discovery (e.g. decorated parameters, route call type
+  // arguments) take precedence over the types of the handler
+  const handlerTypes = extractRequestTypes(handlerNode, context.typeExtraction);
+  const requestTypes = route.requestTypes
+    ? { ...handlerTypes, ...route.requestTypes }
+    : handlerTypes;
+  const inferredResponses = inferResponses(handlerNode);
+
+  // Create operation
+  const operation: OperationObject = {
+    responses: await buildResponses(
+      requestTypes,
+      method,
+      context,
+      inferredResponses,
+    ),
+  };
 
-    // Extract and add JSDoc information
-    const jsDoc = parseJsDoc(handlerNode);
-    if (jsDoc) {
-      if (jsDoc.summary) {
-        operation.summary = jsDoc.summary;
-      }
-      if (jsDoc.description) {
-        operation.description = jsDoc.description;
-      }
-    }
+  // Add operationId if handler name exists
+  if (handlerName) {
+    operation.operationId = ensureUniqueOperationId(
+      buildOperationId(
+        applyOperationIdStrategy(handlerName, context.operationIdStrategy),
+        route.method,
+        method,
+      ),
+      context,
+    );
+  }
 
-    // Check if handler has type information
-    const requestTypes = extractRequestTypes(handlerNode);
-    const hasTypeInfo = requestTypes !== null;
+  // Keep the original pattern of routes registered with a RegExp path
+  if (route.regexPattern !== undefined) {
+    operation['x-express-regex'] = route.regexPattern;
+  }
 
-    // Warn if no type information found
-    if (!hasTypeInfo) {
-      const methodUpper = method.toUpperCase();
-      console.warn(
-        `Warning: Route ${methodUpper} ${path} has no type information. ` +
-          `Consider adding Request type annotations for better OpenAPI spec generation.`,
-      );
+  // Extract and add JSDoc information
+  const jsDoc = parseJsDoc(handlerNode);
+  if (jsDoc) {
+    if (jsDoc.summary) {
+      operation.summary = jsDoc.summary;
+    }
+    if (jsDoc.description) {
+      operation.description = jsDoc.description;
     }
+  }
 
-    // Extract and add path parameters
-    const pathParams = await extractPathParameters(path, handlerNode);
+  // Check if handler has type information
+  const hasTypeInfo =
+    requestTypes !== null ||
+    (context.inferResponses &&
+      inferredResponses.some((r) => r.payloadTypes.length > 0));
+
+  // Warn if no type information found
+  if (!hasTypeInfo) {
+    const methodUpper = method.toUpperCase();
+    console.warn(
+      `Warning: Route ${methodUpper} ${path} has no type information. ` +
+        `Consider adding Request type annotations for better OpenAPI spec generation.`,
+    );
+  }
 
-    // Extract and add query parameters
-    const queryParams = await extractQueryParameters(handlerNode);
+  // Extract and add path parameters
+  const pathParams = await extractPathParameters(path, requestTypes, context);
+
+  // Extract and add query and header parameters
+  const queryParams = await extractObjectParameters(
+    requestTypes?.queryParams,
+    'query',
+    context,
+  );
+  const headerParams = mergeInferredHeaders(
+    await extractObjectParameters(
+      requestTypes?.headerParams,
+      'header',
+      context,
+    ),
+    inferHeaders([...(route.middlewareNodes ?? []), handlerNode]),
+  );
+
+  // Combine parameters
+  const allParams = [...pathParams, ...queryParams, ...headerParams];
+  if (allParams.length > 0) {
+    operation.parameters = allParams;
+  }
 
-    // Combine parameters
-    const allParams = [...pathParams, ...queryParams];
-    if (allParams.length > 0) {
-      operation.parameters = allParams;
+  // Extract and add request body for POST/PUT/PATCH
+  if (['post', 'put', 'patch'].includes(method)) {
+    const requestBody = await extractRequestBody(requestTypes, context);
+    if (requestBody) {
+      operation.requestBody = requestBody;
     }
+  }
 
-    // Extract and add request body for POST/PUT/PATCH
-    if (['post', 'put', 'patch'].includes(method)) {
-      const requestBody = await extractRequestBody(handlerNode, context);
-      if (requestBody) {
-        operation.requestBody = requestBody;
-      }
+  return operation;
+}
+
+/**
+ * Build the operationId for a route. Routes registered with `app.all()`
+ * produce one operation per method, so the method is appended to keep
+ * operationIds unique.
+ */
+function buildOperationId(
+  handlerName: string,
+  routeMethod: RouteMethod,
+  method: HttpMethod,
+): string {
+  return routeMethod === 'all' ? `${handlerName}_${method}` : handlerName;
+}
+
+/**
+ * Apply the naming strategy to a qualified handler name like `userHandlers.list`
+ */
+function applyOperationIdStrategy(
+  handlerName: string,
+  strategy: OperationIdStrategy,
+): string {
+  const parts = handlerName.split('.');
+
+  switch (strategy) {
+    case 'member':
+      return parts[parts.length - 1];
+    case 'camelCase':
+      return parts
+        .map((part, i) =>
+          i === 0 ? part : part.charAt(0).toUpperCase() + part.slice(1),
+        )
+        .join('');
+    default:
+      return handlerName;
+  }
+}
+
+/**
+ * Ensure an operationId is unique within the spec by appending a numeric
+ * suffix (`_2`, `_3`, ...), e.g. when one handler serves several paths
+ * as in app.get(['/user', '/users'], getUser)
+ */
+function ensureUniqueOperationId(
+  operationId: string,
+  context: BuildContext,
+): string {
+  let uniqueId = operationId;
+  for (let suffix = 2; context.operationIds.has(uniqueId); suffix++) {
+    uniqueId = `${operationId}_${suffix}`;
+  }
+  context.operationIds.add(uniqueId);
+  return uniqueId;
+}
+
+/**
+ * Build the responses map for an operation, keyed by the status codes the
+ * handler responds with (200 if none are found).
+ * HEAD and OPTIONS never carry a response body, so they get fixed defaults.
+ *
+ * The typed response body belongs to the first success status that sends a
+ * body, or to a 200 response when no success status is sent. Other statuses get schemas from their payload types when response
+ * inference is enabled. A typed response map (`TypedResponse<{ 200: User }>`)
+ * takes precedence for the status codes it declares.
+ */
+async function buildResponses(
+  typeInfo: RequestTypeInfo | null,
+  method: HttpMethod,
+  context: BuildContext,
+  inferredResponses: InferredResponse[],
+): Promise<ResponsesObject> {
+  if (method === 'head') {
+    return {
+      '200': { description: 'Successful response (headers only)' },
+    };
+  }
+
+  if (method === 'options') {
+    return {
+      '204': { description: 'Allowed methods and CORS headers' },
+    };
+  }
+
+  // Extract response body schema
+  const responseBody = typeInfo?.responseBody
+    ? await extractResponseBody(typeInfo, context)
+    : null;
+
+  const successStatus = inferredResponses.find(
+    (r) => r.statusCode >= 200 && r.statusCode < 300 && r.hasBody,
+  )?.statusCode;
+
+  const responses: ResponsesObject = {};
+  for (const { statusCode, payloadTypes } of inferredResponses) {
+    const description = getStatusDescription(statusCode);
+    if (responseBody && statusCode === successStatus) {
+      responses[statusCode] = { ...responseBody, description };
+    } else if (context.inferResponses && payloadTypes.length > 0) {
+      responses[statusCode] = {
+        ...(await extractInferredResponseBody(payloadTypes, context)),
+        description,
+      };
+    } else {
+      responses[statusCode] = { description };
     }
+  }
 
-    // Add operation to path item based on method
-    pathItem[method] = operation;
+  for (const [statusCode, statusType] of Object.entries(
+    typeInfo?.responseBodies ?? {},
+  )) {
+    const statusResponse = await extractResponseBody(
+      { responseBody: statusType },
+      context,
+    );
+    responses[statusCode] = {
+      ...statusResponse,
+      description: getStatusDescription(Number(statusCode)),
+    };
   }
 
-  return paths;
+  // The typed body falls back to 200 only when no success status is sent,
+  // e.g. not next to the 204 of a handler that only calls sendStatus(204)
+  const hasSuccessStatus = Object.keys(responses).some(
+    (statusCode) => Number(statusCode) >= 200 && Number(statusCode) < 300,
+  );
+  if (
+    Object.keys(responses).length === 0 ||
+    (responseBody && !hasSuccessStatus)
+  ) {
+    responses['200'] = responseBody || {
+      description: 'Successful response',
+    };
+  }
+
+  return responses;
+}
+
+/**
+ * Default response description, e.g. `Not Found` for 404
+ */
+function getStatusDescription(statusCode: number): string {
+  if (statusCode === 200) {
+    return 'Successful response';
+  }
+  return STATUS_CODES[statusCode] ?? `Status ${statusCode}`;
 }
 
 /**
@@ -164,25 +426,33 @@ function extractPathParamNames(path: string): string[] {
 
 async function extractPathParameters(
   path: string,
-  handlerNode: Node,
+  typeInfo: RequestTypeInfo | null,
+  context: BuildContext,
 ): Promise<ParameterObject[]> {
   const paramNames = extractPathParamNames(path);
   if (paramNames.length === 0) {
     return [];
   }
 
-  // Extract type information from handler
-  const typeInfo = extractRequestTypes(handlerNode);
   let pathParamSchema: SchemaObject | undefined;
 
   if (typeInfo?.pathParams) {
-    if (typeInfo.pathParams.isNamed || typeInfo.pathParams.typeText) {
+    if (
+      typeInfo.pathParams.isNamed ||
+      typeInfo.pathParams.typeText ||
+      typeInfo.pathParams.schema
+    ) {
       // Convert the type to OpenAPI schema
       const typeText =
         typeInfo.pathParams.typeText ||
         typeInfo.pathParams.typeNode?.getText() ||
         '';
-      pathParamSchema = await convertTypeToSchema(typeText);
+      pathParamSchema =
+        (await convertTypeInfoToSchema(
+          typeInfo.pathParams,
+          typeText,
+          context,
+        )) ?? undefined;
     }
   }
 
@@ -207,52 +477,60 @@ async function extractPathParameters(
   return parameters;
 }
 
-async function extractQueryParameters(
-  handlerNode: Node,
+/**
+ * Builds one query or header parameter per property of the type.
+ * Query parameters are optional by default; schemas built from validators
+ * (Zod, express-validator, class-validator DTOs) and typed headers mark the
+ * parameters they require.
+ */
+async function extractObjectParameters(
+  typeInfo: TypeInfo | undefined,
+  location: 'query' | 'header',
+  context: BuildContext,
 ): Promise<ParameterObject[]> {
-  // Extract type information from handler
-  const typeInfo = extractRequestTypes(handlerNode);
-
-  if (!typeInfo?.queryParams) {
+  if (!typeInfo) {
     return [];
   }
 
   let typeText = '';
 
-  let queryParamSchema: SchemaObject;
-
-  if (typeInfo.queryParams.isNamed && typeInfo.queryParams.typeNode) {
+  if (typeInfo.isNamed && typeInfo.typeNode) {
     // For named types, use typeChecker to resolve to structural form
-    const type = typeInfo.queryParams.typeNode.getType();
-    typeText = expandTypeToStructure(type, typeInfo.queryParams.typeNode);
-
-    if (!typeText) {
-      return [];
-    }
-    queryParamSchema = await convertTypeToSchema(typeText);
+    const type = typeInfo.typeNode.getType();
+    typeText = expandTypeToStructure(type, typeInfo.typeNode);
   } else {
     // For inline types and resolved utility types, use the text directly
-    typeText =
-      typeInfo.queryParams.resolvedTypeText ||
-      typeInfo.queryParams.typeText ||
-      '';
-    if (!typeText) {
-      return [];
-    }
-    queryParamSchema = await convertTypeToSchema(typeText);
+    typeText = typeInfo.resolvedTypeText || typeInfo.typeText || '';
   }
 
-  // Create parameter objects for each query parameter property
+  const paramsSchema = await convertTypeInfoToSchema(
+    typeInfo,
+    typeText,
+    context,
+  );
+  if (!paramsSchema) {
+    return [];
+  }
+
+  const isValidated = !!(
+    typeInfo.schema ||
+    typeInfo.schemaNode ||
+    (typeInfo.typeNode && getValidatedClass(typeInfo.typeNode))
+  );
+
+  // Create parameter objects for each property
   const parameters: ParameterObject[] = [];
 
-  if (queryParamSchema?.properties) {
+  if (paramsSchema?.properties) {
     for (const [paramName, paramSchema] of Object.entries(
-      queryParamSchema.properties,
+      paramsSchema.properties,
     )) {
       const param: ParameterObject = {
         name: paramName,
-        in: 'query',
-        required: false, // Query params are optional by default
+        in: location,
+        required:
+          (isValidated || location === 'header') &&
+          !!paramsSchema.required?.includes(paramName),
         schema: paramSchema as SchemaObject,
       };
 
@@ -263,16 +541,44 @@ async function extractQueryParameters(
   return parameters;
 }
 
+/**
+ * Adds the headers read by the route's middleware and handler to the typed
+ * header parameters. Header names are case-insensitive; a header is required
+ * if either source requires it.
+ */
+function mergeInferredHeaders(
+  headerParams: ParameterObject[],
+  inferredHeaders: InferredHeader[],
+): ParameterObject[] {
+  const parameters = [...headerParams];
+
+  for (const header of inferredHeaders) {
+    const existing = parameters.find(
+      (p) => p.name.toLowerCase() === header.name.toLowerCase(),
+    );
+    if (existing) {
+      existing.required = existing.required || header.required;
+      continue;
+    }
+
+    parameters.push({
+      name: header.name,
+      in: 'header',
+      required: header.required,
+      schema: { type: 'string' },
+    });
+  }
+
+  return parameters;
+}
+
 async function extractRequestBody(
-  handlerNode: Node,
+  typeInfo: RequestTypeInfo | null,
   context: BuildContext,
 ): Promise<{
   required: boolean;
   content: { [key: string]: { schema: SchemaObject | ReferenceObject } };
 } | null> {
-  // Extract type information from handler
-  const typeInfo = extractRequestTypes(handlerNode);
-
   if (!typeInfo?.bodyParams) {
     return null;
   }
@@ -294,12 +600,15 @@ async function extractRequestBody(
       const type = typeNode.getType();
       const typeText = expandTypeToStructure(type, typeNode);
 
-      if (!typeText) {
+      // Convert to OpenAPI schema and add to components
+      const bodySchema = await convertTypeInfoToSchema(
+        typeInfo.bodyParams,
+        typeText,
+        context,
+      );
+      if (!bodySchema) {
         return null;
       }
-
-      // Convert to OpenAPI schema and add to components
-      const bodySchema = await convertTypeToSchema(typeText);
       context.schemas[typeName] = bodySchema;
     }
 
@@ -311,11 +620,16 @@ async function extractRequestBody(
       typeInfo.bodyParams.resolvedTypeText ||
       typeInfo.bodyParams.typeText ||
       '';
-    if (!typeText) {
+    const bodySchema = await convertTypeInfoToSchema(
+      typeInfo.bodyParams,
+      typeText,
+      context,
+    );
+    if (!bodySchema) {
       return null;
     }
 
-    schema = await convertTypeToSchema(typeText);
+    schema = bodySchema;
   }
 
   return {
@@ -329,15 +643,12 @@ async function extractRequestBody(
 }
 
 async function extractResponseBody(
-  handlerNode: Node,
+  typeInfo: RequestTypeInfo | null,
   context: BuildContext,
 ): Promise<{
   description: string;
   content?: { [key: string]: { schema: SchemaObject | ReferenceObject } };
 } | null> {
-  // Extract type information from handler
-  const typeInfo = extractRequestTypes(handlerNode);
-
   if (!typeInfo?.responseBody) {
     // Return default response without schema
     return {
@@ -364,14 +675,17 @@ async function extractResponseBody(
       const type = typeNode.getType();
       const typeText = expandTypeToStructure(type, typeNode);
 
-      if (!typeText) {
+      // Convert to OpenAPI schema and add to components
+      const responseSchema = await convertTypeInfoToSchema(
+        typeInfo.responseBody,
+        typeText,
+        context,
+      );
+      if (!responseSchema) {
         return {
           description: 'Successful response',
         };
       }
-
-      // Convert to OpenAPI schema and add to components
-      const responseSchema = await convertTypeToSchema(typeText);
       context.schemas[typeName] = responseSchema;
     }
 
@@ -383,13 +697,18 @@ async function extractResponseBody(
       typeInfo.responseBody.resolvedTypeText ||
       typeInfo.responseBody.typeText ||
       '';
-    if (!typeText) {
+    const responseSchema = await convertTypeInfoToSchema(
+      typeInfo.responseBody,
+      typeText,
+      context,
+    );
+    if (!responseSchema) {
       return {
         description: 'Successful response',
       };
     }
 
-    schema = await convertTypeToSchema(typeText);
+    schema = responseSchema;
   }
 
   return {
@@ -401,3 +720,98 @@ async function extractResponseBody(
     },
   };
 }
+
+/**
+ * Converts a type to a schema. Schemas built from validators are used as is;
+ * types inferred from a schema library (Zod, TypeBox, Valibot, Yup) are built
+ * from the schema itself, keeping constraints like `.min()` and `.email()`;
+ * the type text is used when the schema cannot be interpreted.
+ * class-validator DTO classes get the constraints of their decorators.
+ */
+async function convertTypeInfoToSchema(
+  typeInfo: TypeInfo,
+  typeText: string,
+  context: BuildContext,
+): Promise<SchemaObject | null> {
+  if (typeInfo.schema) {
+    return typeInfo.schema;
+  }
+
+  const librarySchema =
+    typeInfo.schemaNode &&
+    typeInfo.schemaLibrary &&
+    buildLibrarySchema(typeInfo.schemaNode, typeInfo.schemaLibrary);
+  if (librarySchema) {
+    return librarySchema;
+  }
+
+  const schema = typeText ? await convertTypeToSchema(typeText) : null;
+  const validatedClass =
+    typeInfo.typeNode && getValidatedClass(typeInfo.typeNode);
+  return schema && validatedClass
+    ? applyValidatedClass(schema, validatedClass, context)
+    : schema;
+}
+
+/**
+ * Applies the decorators of a class-validator DTO and adds the nested DTOs
+ * it references to components.schemas
+ */
+async function applyValidatedClass(
+  schema: SchemaObject,
+  classDecl: ClassDeclaration,
+  context: BuildContext,
+): Promise<SchemaObject> {
+  const result = applyClassValidatorConstraints(schema, classDecl);
+
+  for (const nestedClass of result.nestedClasses) {
+    const name = nestedClass.getName();
+    if (!name || context.schemas[name]) {
+      continue;
+    }
+
+    // Reserve the name first so self-referencing DTOs terminate
+    context.schemas[name] = {};
+    const typeText = expandTypeToStructure(nestedClass.getType(), nestedClass);
+    const nestedSchema = await convertTypeToSchema(typeText);
+    context.schemas[name] = nestedSchema
+      ? await applyValidatedClass(nestedSchema, nestedClass, context)
+      : { type: 'object' };
+  }
+
+  return result.schema;
+}
+
+/**
+ * Build the response body from payload types inferred from `res.json()` /
+ * `res.send()` calls. Distinct payloads are combined with `oneOf`.
+ */
+async function extractInferredResponseBody(
+  payloadTypes: TypeInfo[],
+  context: BuildContext,
+): Promise<ResponseObject | null> {
+  const schemas: (SchemaObject | ReferenceObject)[] = [];
+  for (const responseType of payloadTypes) {
+    const response = await extractResponseBody(
+      { responseBody: responseType },
+      context,
+    );
+    const schema = response?.content?.['application/json'].schema;
+    if (schema) {
+      schemas.push(schema);
+    }
+  }
+
+  if (schemas.length === 0) {
+    return null;
+  }
+
+  return {
+    description: 'Successful response',
+    content: {
+      'application/json': {
+        schema: schemas.length === 1 ? schemas[0] : { oneOf: schemas },
+      },
+    },
+  };
+}
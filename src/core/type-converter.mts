@@ -55,9 +55,12 @@ function cleanSchema(schema: SchemaObject): SchemaObject {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const cleanedProps: any = {};
     for (const [key, value] of Object.entries(cleaned.properties)) {
-      cleanedProps[key] = cleanSchema(value);
+      cleanedProps[unquote(key)] = cleanSchema(value);
     }
     cleaned.properties = cleanedProps;
+    if (cleaned.required) {
+      cleaned.required = cleaned.required.map(unquote);
+    }
   } else if (cleaned.type === "object" && !cleaned.items) {
     // Add empty properties for object types without properties
     cleaned.properties = {};
@@ -78,3 +81,10 @@ function cleanSchema(schema: SchemaObject): SchemaObject {
 
   return cleaned as SchemaObject;
 }
+
+/**
+ * typeconv keeps the quotes of quoted property names (`'x-tenant-id'`)
+ */
+function unquote(key: string): string {
+  return /^(['"]).*\1$/.test(key) ? key.slice(1, -1) : key;
+}
@@ -1,14 +1,51 @@
-import { Node, ParameterDeclaration, Type, TypeNode, TypeReferenceNode, Symbol as TsSymbol } from "ts-morph";
+import {
+  Node,
+  ParameterDeclaration,
+  Type,
+  TypeNode,
+  TypeReferenceNode,
+  InterfaceDeclaration,
+  TypeAliasDeclaration,
+  Symbol as TsSymbol,
+  SyntaxKind,
+  TypeFlags,
+} from "ts-morph";
 import { RequestTypeInfo, TypeInfo } from "../types/internal.mjs";
+import { getImportOf } from "../ast/express-checker.mjs";
+import { getInferredSchema, getInferenceAdapter } from "./schema-adapters.mjs";
+
+export interface TypeExtractionOptions {
+  /**
+   * Extra handler type names whose type arguments follow `RequestHandler<P, ResBody, ReqBody, ReqQuery>`
+   * (e.g. AsyncHandler), used for handlers typed by their annotation
+   */
+  handlerTypes?: string[];
+  /**
+   * Extra helper type names whose first type argument is a status-code-keyed response map,
+   * in addition to TypedResponse
+   */
+  responseMapTypes?: string[];
+  /**
+   * Extra helper type names whose first type argument declares the request headers,
+   * in addition to TypedHeaders
+   */
+  headerTypes?: string[];
+}
 
 /**
  * Extracts type information from an Express request handler's parameters.
  *
  * Parses both the Request and Response parameters to extract type information:
  * - From `Request<PathParams, ResBody, ReqBody, ReqQuery>`: path, response, body, query params
+ * - From `TypedHeaders<Headers, PathParams, ...>`: header params, then Request's
  * - From `Response<ResBody>`: response body type
  *
+ * Handlers with contextually typed parameters take their types from the handler's
+ * `RequestHandler<...>` annotation instead, see extractTypesFromHandlerType, or
+ * from the parameter types resolved by the type checker.
+ *
  * @param node - A function node (FunctionDeclaration, ArrowFunction, or FunctionExpression)
+ * @param options - Extra handler type names to recognize
  * @returns RequestTypeInfo containing extracted types, or null if not a valid handler
  *
  * @example
@@ -19,7 +56,10 @@ import { RequestTypeInfo, TypeInfo } from "../types/internal.mjs";
  * //   bodyParams: { isNamed: true, typeName: "CreateUserBody" }
  * // }
  */
-export function extractRequestTypes(node: Node): RequestTypeInfo | null {
+export function extractRequestTypes(
+  node: Node,
+  options?: TypeExtractionOptions,
+): RequestTypeInfo | null {
   if (!isHandlerFunction(node)) {
     return null;
   }
@@ -32,12 +72,20 @@ export function extractRequestTypes(node: Node): RequestTypeInfo | null {
   const requestParam = params[0];
   const responseParam = params.length > 1 ? params[1] : null;
 
-  const typesFromRequest = extractTypesFromRequestParam(requestParam);
-  const responseTypeFromResponse = responseParam
-    ? extractResponseTypeFromResponseParam(responseParam)
+  const typesFromRequest =
+    extractTypesFromHeadersHelper(requestParam, options) ??
+    extractTypesFromRequestParam(requestParam) ??
+    extractTypesFromHandlerType(node, options) ??
+    extractTypesFromContextualType(requestParam);
+  const responseMap = responseParam
+    ? extractResponseMapFromResponseParam(responseParam, options)
+    : null;
+  const responseTypeFromResponse = responseParam && !responseMap
+    ? extractResponseTypeFromResponseParam(responseParam, typesFromRequest?.types.responseBody)
     : null;
 
-  const hasAnyExpressTypes = typesFromRequest !== null || responseTypeFromResponse !== null;
+  const hasAnyExpressTypes =
+    typesFromRequest !== null || responseTypeFromResponse !== null || responseMap !== null;
   if (!hasAnyExpressTypes) {
     return null;
   }
@@ -48,6 +96,9 @@ export function extractRequestTypes(node: Node): RequestTypeInfo | null {
     result.responseBody,
     responseTypeFromResponse,
   );
+  if (responseMap) {
+    result.responseBodies = responseMap;
+  }
 
   return result;
 }
@@ -63,7 +114,8 @@ function isHandlerFunction(node: Node): node is Node & { getParameters(): Parame
   return (
     Node.isFunctionDeclaration(node) ||
     Node.isArrowFunction(node) ||
-    Node.isFunctionExpression(node)
+    Node.isFunctionExpression(node) ||
+    Node.isMethodDeclaration(node)
   );
 }
 
@@ -77,17 +129,129 @@ interface RequestExtractionResult {
 
 /**
  * Extracts types from the Request parameter (typically the first param 'req').
- * Handles Request<PathParams, ResBody, ReqBody, ReqQuery, Locals>.
+ * Handles Request<PathParams, ResBody, ReqBody, ReqQuery, Locals>, including
+ * custom types that extend it (see resolveExpressTypeArguments).
  */
 function extractTypesFromRequestParam(
   param: ParameterDeclaration,
+): RequestExtractionResult | null {
+  const typeArgs = resolveExpressTypeArguments(param.getTypeNode(), "Request");
+  return typeArgs ? buildRequestTypes(typeArgs) : null;
+}
+
+/**
+ * Helper type names whose first type argument declares the request headers
+ */
+const DEFAULT_HEADER_TYPES = ["TypedHeaders"];
+
+/**
+ * Extracts types from a Request parameter typed with a headers helper, e.g.
+ * `req: TypedHeaders<{ "x-tenant-id": string; "if-match"?: string }, UserParams>`.
+ * The remaining type arguments follow Request.
+ *
+ * The helper is declared by the application, e.g.
+ * `type TypedHeaders<H, P = ParamsDictionary> = Request<P> & { headers: H }`.
+ */
+function extractTypesFromHeadersHelper(
+  param: ParameterDeclaration,
+  options?: TypeExtractionOptions,
 ): RequestExtractionResult | null {
   const typeNode = param.getTypeNode();
-  if (!isExpressRequestType(typeNode)) {
+  if (!Node.isTypeReference(typeNode)) {
+    return null;
+  }
+
+  const helperNames = [...DEFAULT_HEADER_TYPES, ...(options?.headerTypes ?? [])];
+  const typeName = typeNode.getTypeName();
+  const simpleName = Node.isQualifiedName(typeName) ? typeName.getRight().getText() : typeName.getText();
+  const [headersArg, ...requestArgs] = typeNode.getTypeArguments();
+  if (!helperNames.includes(simpleName) || !headersArg) {
     return null;
   }
 
-  const typeArgs = typeNode.getTypeArguments();
+  const { types } = buildRequestTypes(requestArgs);
+  const headerParams = extractTypeInfo(headersArg);
+  if (headerParams) {
+    types.headerParams = headerParams;
+  }
+  return { types };
+}
+
+/**
+ * Extracts types from the type a handler is annotated with, for handlers whose
+ * parameters are contextually typed:
+ * - `const getUser: RequestHandler<UserParams, User> = (req, res) => {...}`
+ * - `((req, res) => {...}) satisfies RequestHandler<UserParams, User>`
+ * - `((req, res) => {...}) as Handler<UserParams, User>`
+ *
+ * RequestHandler shares the type parameter positions of Request.
+ */
+function extractTypesFromHandlerType(
+  node: Node,
+  options?: TypeExtractionOptions,
+): RequestExtractionResult | null {
+  for (const typeNode of getHandlerTypeNodes(node)) {
+    const typeArgs = resolveExpressTypeArguments(
+      typeNode,
+      "RequestHandler",
+      options?.handlerTypes,
+    );
+    if (typeArgs) {
+      return buildRequestTypes(typeArgs);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Collects the `as`/`satisfies` types around a handler expression and the type
+ * annotation of the variable or property it is assigned to, innermost first.
+ */
+function getHandlerTypeNodes(node: Node): TypeNode[] {
+  const typeNodes: TypeNode[] = [];
+  let parent = node.getParent();
+
+  while (
+    Node.isParenthesizedExpression(parent) ||
+    Node.isAsExpression(parent) ||
+    Node.isSatisfiesExpression(parent)
+  ) {
+    if (!Node.isParenthesizedExpression(parent)) {
+      const typeNode = parent.getTypeNode();
+      if (typeNode) {
+        typeNodes.push(typeNode);
+      }
+    }
+    parent = parent.getParent();
+  }
+
+  if (Node.isVariableDeclaration(parent) || Node.isPropertyDeclaration(parent)) {
+    const typeNode = parent.getTypeNode();
+    if (typeNode) {
+      typeNodes.push(typeNode);
+    }
+  }
+
+  return typeNodes;
+}
+
+/**
+ * Extracts types from explicit type arguments on a route registration, e.g.
+ * `app.get<{ id: string }, User, never, ListQuery>('/users/:id', handler)`.
+ *
+ * @param typeArgs - The type arguments of the route call, in Request positions
+ * @returns The request types, or null if no type argument carries a type
+ */
+export function extractTypesFromTypeArguments(typeArgs: Node[]): RequestTypeInfo | null {
+  const { types } = buildRequestTypes(typeArgs);
+  return Object.keys(types).length > 0 ? types : null;
+}
+
+/**
+ * Maps type arguments in Request/RequestHandler positions to request types.
+ */
+function buildRequestTypes(typeArgs: ExpressTypeArguments): RequestExtractionResult {
   const types: RequestTypeInfo = {};
 
   types.pathParams = extractTypeArgumentIfPresent(typeArgs, 0);
@@ -105,29 +269,15 @@ function extractTypesFromRequestParam(
   return { types };
 }
 
-/**
- * Checks if a type node is an Express Request type.
- */
-function isExpressRequestType(typeNode: TypeNode | undefined): typeNode is TypeReferenceNode {
-  if (!typeNode || !Node.isTypeReference(typeNode)) {
-    return false;
-  }
-  return typeNode.getTypeName().getText() === "Request";
-}
-
 /**
  * Extracts type info from a type argument at the given index, if present and non-empty.
  */
 function extractTypeArgumentIfPresent(
-  typeArgs: Node[],
+  typeArgs: ExpressTypeArguments,
   index: number,
 ): TypeInfo | undefined {
-  if (typeArgs.length <= index) {
-    return undefined;
-  }
-
   const typeArg = typeArgs[index];
-  if (isEmptyObject(typeArg)) {
+  if (!typeArg || isPlaceholderType(typeArg)) {
     return undefined;
   }
 
@@ -140,37 +290,408 @@ function extractTypeArgumentIfPresent(
 
 /**
  * Extracts the response body type from the Response parameter (typically 'res').
- * Handles Response<ResBody, Locals>.
+ * Handles Response<ResBody, Locals>, including custom types that extend it.
+ *
+ * An unannotated parameter only falls back to its contextual Response type when
+ * the request types give no response body: for handlers typed
+ * `RequestHandler<P, User>`, the contextual type is derived from the handler type
+ * and would lose the ResBody's name.
  */
 function extractResponseTypeFromResponseParam(
   param: ParameterDeclaration,
+  requestResponseBody?: TypeInfo,
 ): TypeInfo | null {
+  if (!param.getTypeNode()) {
+    if (requestResponseBody) {
+      return null;
+    }
+    const typeArgs = getContextualTypeArguments(param, "Response");
+    return typeArgs ? extractTypeInfoFromType(typeArgs[0], param) : null;
+  }
+
+  const typeArgs = resolveExpressTypeArguments(param.getTypeNode(), "Response");
+  const responseBodyArg = typeArgs?.[0];
+  if (!responseBodyArg || isPlaceholderType(responseBodyArg)) {
+    return null;
+  }
+
+  return extractTypeInfo(responseBodyArg);
+}
+
+// =============================================================================
+// Response Map Extraction
+// =============================================================================
+
+/**
+ * Helper type names whose first type argument is a response map
+ */
+const DEFAULT_RESPONSE_MAP_TYPES = ["TypedResponse"];
+
+const STATUS_CODE_KEY = /^[1-5]\d\d$/;
+
+const NO_CONTENT_TYPE_KINDS = new Set([
+  SyntaxKind.VoidKeyword,
+  SyntaxKind.UndefinedKeyword,
+  SyntaxKind.NeverKeyword,
+]);
+
+/**
+ * Extracts a status-code-keyed response map from the Response parameter, given
+ * either as the ResBody of Response or through a helper type:
+ * - `res: Response<{ 200: User; 404: NotFoundError }>`
+ * - `res: TypedResponse<{ 200: User; 422: ValidationError }>`
+ *
+ * The helper is declared by the application, e.g.
+ * `type TypedResponse<M> = Response<M[keyof M]>`.
+ *
+ * @returns The response body types keyed by status code, or null if the
+ * parameter is not typed with a response map
+ */
+function extractResponseMapFromResponseParam(
+  param: ParameterDeclaration,
+  options?: TypeExtractionOptions,
+): { [statusCode: string]: TypeInfo } | null {
   const typeNode = param.getTypeNode();
-  if (!isExpressResponseType(typeNode)) {
+  if (!Node.isTypeReference(typeNode)) {
     return null;
   }
 
-  const typeArgs = typeNode.getTypeArguments();
-  if (typeArgs.length === 0) {
+  const helperNames = [...DEFAULT_RESPONSE_MAP_TYPES, ...(options?.responseMapTypes ?? [])];
+  const typeName = typeNode.getTypeName();
+  const simpleName = Node.isQualifiedName(typeName) ? typeName.getRight().getText() : typeName.getText();
+  const mapNode = helperNames.includes(simpleName)
+    ? typeNode.getTypeArguments()[0]
+    : resolveExpressTypeArguments(typeNode, "Response")?.[0];
+
+  return mapNode ? extractStatusResponseMap(mapNode) : null;
+}
+
+/**
+ * Reads an object type whose keys are all status codes into one TypeInfo per
+ * status code. Named property types keep their names (for `$ref`).
+ */
+function extractStatusResponseMap(mapNode: Node): { [statusCode: string]: TypeInfo } | null {
+  const properties = mapNode.getType().getProperties();
+  if (properties.length === 0 || !properties.every((p) => STATUS_CODE_KEY.test(p.getName()))) {
     return null;
   }
 
-  const responseBodyArg = typeArgs[0];
-  if (isEmptyObject(responseBodyArg)) {
+  const responseMap: { [statusCode: string]: TypeInfo } = {};
+  for (const property of properties) {
+    const declaration = property.getValueDeclaration();
+    const propertyTypeNode = Node.isPropertySignature(declaration) ? declaration.getTypeNode() : undefined;
+    if (propertyTypeNode && NO_CONTENT_TYPE_KINDS.has(propertyTypeNode.getKind())) {
+      // e.g. { 204: void } declares a status without a body
+      responseMap[property.getName()] = { isNamed: false };
+      continue;
+    }
+
+    const typeInfo = propertyTypeNode
+      ? extractTypeInfo(propertyTypeNode)
+      : extractTypeInfoFromType(property.getTypeAtLocation(mapNode), mapNode);
+    if (typeInfo) {
+      responseMap[property.getName()] = typeInfo;
+    }
+  }
+
+  return responseMap;
+}
+
+// =============================================================================
+// Contextual Type Extraction
+// =============================================================================
+
+/**
+ * Default type arguments of Express' Request, which carry no route-specific type
+ */
+const EXPRESS_DEFAULT_TYPE_ARGUMENTS = new Set(["ParamsDictionary", "ParsedQs"]);
+
+/**
+ * Extracts types from the checker-resolved type of an unannotated Request parameter,
+ * e.g. an inline handler contextually typed by `app.get<Params, User>(...)` or by a
+ * typed wrapper function.
+ */
+function extractTypesFromContextualType(
+  param: ParameterDeclaration,
+): RequestExtractionResult | null {
+  if (param.getTypeNode()) {
     return null;
   }
 
-  return extractTypeInfo(responseBodyArg);
+  const typeArgs = getContextualTypeArguments(param, "Request");
+  if (!typeArgs) {
+    return null;
+  }
+
+  const types: RequestTypeInfo = {};
+
+  types.pathParams = extractTypeInfoFromType(typeArgs[0], param) ?? undefined;
+  types.responseBody = extractTypeInfoFromType(typeArgs[1], param) ?? undefined;
+  types.bodyParams = extractTypeInfoFromType(typeArgs[2], param) ?? undefined;
+  types.queryParams = extractTypeInfoFromType(typeArgs[3], param) ?? undefined;
+
+  // Remove undefined values
+  Object.keys(types).forEach((key) => {
+    if (types[key as keyof RequestTypeInfo] === undefined) {
+      delete types[key as keyof RequestTypeInfo];
+    }
+  });
+
+  return Object.keys(types).length > 0 ? { types } : null;
+}
+
+/**
+ * Returns the type arguments of a parameter whose resolved type is the Express
+ * Request or Response, or null for any other type (including `any` when the
+ * Express typings are not installed).
+ */
+function getContextualTypeArguments(
+  param: ParameterDeclaration,
+  target: "Request" | "Response",
+): Type[] | null {
+  const type = param.getType();
+  if (type.getSymbol()?.getName() !== target) {
+    return null;
+  }
+
+  return type.getTypeArguments();
 }
 
 /**
- * Checks if a type node is an Express Response type.
+ * Builds an inline TypeInfo from a checker-resolved type, skipping the Express
+ * defaults and types without information (any, unknown, never, {}).
  */
-function isExpressResponseType(typeNode: TypeNode | undefined): typeNode is TypeReferenceNode {
+export function extractTypeInfoFromType(type: Type | undefined, contextNode: Node): TypeInfo | null {
+  if (!type || type.isAny() || type.isUnknown() || type.getFlags() & TypeFlags.Never) {
+    return null;
+  }
+
+  const typeName = type.getAliasSymbol()?.getName() ?? type.getSymbol()?.getName();
+  const isEmptyObjectType = type.isObject() && !type.isArray() && type.getProperties().length === 0;
+  if ((typeName && EXPRESS_DEFAULT_TYPE_ARGUMENTS.has(typeName)) || isEmptyObjectType) {
+    return null;
+  }
+
+  const typeText = expandPropertyType(type, contextNode, new Set());
+  return { isNamed: false, typeText, resolvedTypeText: typeText };
+}
+
+// =============================================================================
+// Express Type Resolution
+// =============================================================================
+
+/**
+ * Type arguments in the positions of the Express generic, e.g.
+ * `[Params, ResBody, ReqBody, ReqQuery]` for Request. Missing arguments are undefined.
+ */
+type ExpressTypeArguments = (Node | undefined)[];
+
+type ExpressTypeName = "Request" | "Response" | "RequestHandler";
+
+const MAX_TYPE_RESOLUTION_DEPTH = 10;
+
+/**
+ * Modules whose Request/Response types are recognized
+ */
+const EXPRESS_TYPE_MODULES = new Set(["express", "express-serve-static-core"]);
+
+/**
+ * Express type names, `Handler` being an alias of `RequestHandler`
+ */
+const EXPRESS_TYPE_NAMES: Record<string, ExpressTypeName> = {
+  Request: "Request",
+  Response: "Response",
+  RequestHandler: "RequestHandler",
+  Handler: "RequestHandler",
+};
+
+/**
+ * Resolves a parameter type to the type arguments of the Express Request or
+ * Response it refers to. Supports:
+ * - `Request<...>` and qualified names like `express.Request<...>`
+ * - renamed imports like `import { Request as Req } from 'express'`
+ * - interfaces extending the Express type, e.g.
+ *   `interface AuthedRequest<P, B> extends Request<P, any, B> { user: User }`
+ * - type aliases, e.g. `type TypedRequest<B> = Request<{}, {}, B>`
+ *
+ * Type parameters of custom interfaces and aliases are mapped back to the
+ * Express generic positions, so `AuthedRequest<{ id: string }, CreateUser>`
+ * yields `[{ id: string }, any, CreateUser]`.
+ *
+ * @param handlerTypes - Extra type names treated as RequestHandler
+ * @returns The type arguments, or null if the type is not the Express type
+ */
+function resolveExpressTypeArguments(
+  typeNode: TypeNode | undefined,
+  target: ExpressTypeName,
+  handlerTypes: string[] = [],
+): ExpressTypeArguments | null {
   if (!typeNode || !Node.isTypeReference(typeNode)) {
-    return false;
+    return null;
+  }
+
+  return resolveReferenceTypeArguments(
+    typeNode.getTypeName(),
+    typeNode.getTypeArguments(),
+    target,
+    handlerTypes,
+    0,
+  );
+}
+
+function resolveReferenceTypeArguments(
+  nameNode: Node,
+  typeArgs: ExpressTypeArguments,
+  target: ExpressTypeName,
+  handlerTypes: string[],
+  depth: number,
+): ExpressTypeArguments | null {
+  if (depth > MAX_TYPE_RESOLUTION_DEPTH) {
+    return null;
+  }
+
+  const expressName = getExpressTypeName(nameNode, handlerTypes);
+  if (expressName) {
+    return expressName === target ? typeArgs : null;
+  }
+
+  for (const declaration of getTypeDeclarations(nameNode)) {
+    const bindings = bindTypeParameters(declaration, typeArgs);
+
+    // interface AuthedRequest<P> extends Request<P> { ... }
+    const baseTypes = Node.isInterfaceDeclaration(declaration)
+      ? declaration.getExtends().map((heritage) => ({
+          name: heritage.getExpression(),
+          args: heritage.getTypeArguments(),
+        }))
+      : getAliasedTypeReferences(declaration);
+
+    for (const baseType of baseTypes) {
+      const resolved = resolveReferenceTypeArguments(
+        baseType.name,
+        baseType.args.map((arg) => substituteTypeParameter(arg, bindings)),
+        target,
+        handlerTypes,
+        depth + 1,
+      );
+      if (resolved) {
+        return resolved;
+      }
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Returns the Express type a type name refers to: the plain name, a renamed
+ * import from express, a qualified name on an express import (`express.Request`)
+ * or one of the configured handler types.
+ */
+function getExpressTypeName(
+  nameNode: Node,
+  handlerTypes: string[],
+): ExpressTypeName | undefined {
+  const simpleName = Node.isQualifiedName(nameNode) ? nameNode.getRight().getText() : nameNode.getText();
+  if (handlerTypes.includes(simpleName)) {
+    return "RequestHandler";
+  }
+
+  if (Node.isQualifiedName(nameNode) || Node.isPropertyAccessExpression(nameNode)) {
+    const left = Node.isQualifiedName(nameNode) ? nameNode.getLeft() : nameNode.getExpression();
+    const right = Node.isQualifiedName(nameNode) ? nameNode.getRight() : nameNode.getNameNode();
+    const leftImport = Node.isIdentifier(left) ? getImportOf(left) : undefined;
+    const isExpressNamespace =
+      left.getText() === "express" ||
+      (!!leftImport && EXPRESS_TYPE_MODULES.has(leftImport.moduleName));
+    return isExpressNamespace ? asExpressTypeName(right.getText()) : undefined;
+  }
+
+  if (!Node.isIdentifier(nameNode)) {
+    return undefined;
+  }
+
+  const importInfo = getImportOf(nameNode);
+  if (importInfo && EXPRESS_TYPE_MODULES.has(importInfo.moduleName)) {
+    return asExpressTypeName(importInfo.importName);
   }
-  return typeNode.getTypeName().getText() === "Response";
+
+  // Handler is too generic a name to recognize without an express import
+  const name = nameNode.getText();
+  return name === "Handler" ? undefined : asExpressTypeName(name);
+}
+
+function asExpressTypeName(name: string): ExpressTypeName | undefined {
+  return Object.hasOwn(EXPRESS_TYPE_NAMES, name) ? EXPRESS_TYPE_NAMES[name] : undefined;
+}
+
+/**
+ * Finds the interface and type alias declarations a type name refers to,
+ * following imports.
+ */
+function getTypeDeclarations(
+  nameNode: Node,
+): (InterfaceDeclaration | TypeAliasDeclaration)[] {
+  const symbol = nameNode.getSymbol();
+  const target = symbol?.isAlias() ? symbol.getAliasedSymbol() : symbol;
+
+  return (target?.getDeclarations() ?? []).filter(
+    (decl): decl is InterfaceDeclaration | TypeAliasDeclaration =>
+      Node.isInterfaceDeclaration(decl) || Node.isTypeAliasDeclaration(decl),
+  );
+}
+
+/**
+ * Type references an alias resolves to. Intersections like
+ * `Request<P> & { user: User }` are checked member by member.
+ */
+function getAliasedTypeReferences(
+  declaration: TypeAliasDeclaration,
+): { name: Node; args: Node[] }[] {
+  const aliasedType = declaration.getTypeNode();
+  const candidates = Node.isIntersectionTypeNode(aliasedType)
+    ? aliasedType.getTypeNodes()
+    : [aliasedType];
+
+  return candidates
+    .filter((candidate): candidate is TypeReferenceNode => Node.isTypeReference(candidate))
+    .map((candidate) => ({
+      name: candidate.getTypeName(),
+      args: candidate.getTypeArguments(),
+    }));
+}
+
+/**
+ * Maps the declaration's type parameter names to the type arguments at the
+ * usage site, falling back to the parameter defaults.
+ */
+function bindTypeParameters(
+  declaration: InterfaceDeclaration | TypeAliasDeclaration,
+  typeArgs: ExpressTypeArguments,
+): Map<string, Node | undefined> {
+  const bindings = new Map<string, Node | undefined>();
+
+  declaration.getTypeParameters().forEach((typeParam, index) => {
+    bindings.set(typeParam.getName(), typeArgs[index] ?? typeParam.getDefault());
+  });
+
+  return bindings;
+}
+
+/**
+ * Replaces a reference to a type parameter with its bound type argument
+ */
+function substituteTypeParameter(
+  typeArg: Node,
+  bindings: Map<string, Node | undefined>,
+): Node | undefined {
+  if (Node.isTypeReference(typeArg) && typeArg.getTypeArguments().length === 0) {
+    const name = typeArg.getTypeName().getText();
+    if (bindings.has(name)) {
+      return bindings.get(name);
+    }
+  }
+  return typeArg;
 }
 
 // =============================================================================
@@ -315,6 +836,7 @@ function getTypeIdentifier(type: Type): string {
  *
  * Handles different type kinds:
  * - Primitives (string, number, boolean, etc.): Returns as-is
+ * - Enum members: Returns their literal value, e.g. `"admin"` for `Role.Admin`
  * - Arrays: Recursively expands element type
  * - Objects with properties: Recursively expands to structural form
  * - Unions/Intersections: Returns the resolved text
@@ -325,11 +847,21 @@ function expandPropertyType(type: Type, typeNode: Node, visited: Set<string>): s
     const elementType = type.getArrayElementType();
     if (elementType) {
       const expandedElement = expandPropertyType(elementType, typeNode, visited);
-      return `${expandedElement}[]`;
+      return elementType.isUnion() ? `(${expandedElement})[]` : `${expandedElement}[]`;
     }
     return type.getText(typeNode);
   }
 
+  // Enum members would be written as references to the enum, e.g. Role.Admin
+  if (type.isEnumLiteral()) {
+    return JSON.stringify(type.getLiteralValue());
+  }
+
+  // Booleans are unions of true and false to the type checker
+  if (type.isBoolean()) {
+    return "boolean";
+  }
+
   // Check for union types
   if (type.isUnion()) {
     const unionTypes = type.getUnionTypes();
@@ -408,14 +940,26 @@ function isPrimitiveOrBuiltinType(type: Type): boolean {
  * @example
  * // Utility type: Partial<User>
  * // Returns: { isNamed: false, typeText: "{ name?: string; ... }", resolvedTypeText: "...", typeNode }
+ *
+ * @example
+ * // Zod-inferred type: CreateUser, where type CreateUser = z.infer<typeof CreateUserSchema>
+ * // Returns: { isNamed: true, typeName: "CreateUser", typeNode, schemaNode: CreateUserSchema, schemaLibrary: "zod" }
  */
-function extractTypeInfo(typeNode: Node): TypeInfo | null {
+export function extractTypeInfo(typeNode: Node): TypeInfo | null {
   // Check if it's a type reference (named type like UserParams)
   if (Node.isTypeReference(typeNode)) {
     const typeName = typeNode.getTypeName().getText();
+    // Types inferred from schemas keep their schema, e.g. UserSchema for
+    // z.infer<typeof UserSchema> or Static<typeof UserSchema>
+    const inferred = getInferredSchema(typeNode);
+    const schemaInfo = inferred && {
+      schemaNode: inferred.schemaNode,
+      schemaLibrary: inferred.library,
+    };
 
-    // Utility types need semantic resolution to structural form
-    if (isUtilityType(typeName)) {
+    // Utility types and inference helpers (z.infer<...>, Static<...>) need
+    // semantic resolution to structural form
+    if (isUtilityType(typeName) || getInferenceAdapter(typeNode)) {
       const type = typeNode.getType();
       const resolvedText = expandTypeToStructure(type, typeNode);
       return {
@@ -423,6 +967,7 @@ function extractTypeInfo(typeNode: Node): TypeInfo | null {
         typeText: resolvedText,
         resolvedTypeText: resolvedText,
         typeNode,
+        ...schemaInfo,
       };
     }
 
@@ -431,6 +976,7 @@ function extractTypeInfo(typeNode: Node): TypeInfo | null {
       isNamed: true,
       typeName,
       typeNode,
+      ...schemaInfo,
     };
   }
 
@@ -492,6 +1038,14 @@ function extractTypeInfo(typeNode: Node): TypeInfo | null {
   return null;
 }
 
+/**
+ * Checks if a type argument only fills a position, i.e. `{}` or `never`
+ * (e.g. `RequestHandler<Params, User, never, Query>` for a handler without a body).
+ */
+function isPlaceholderType(typeNode: Node): boolean {
+  return isEmptyObject(typeNode) || typeNode.getKind() === SyntaxKind.NeverKeyword;
+}
+
 /**
  * Checks if a type node represents an empty object type `{}`.
  *
@@ -0,0 +1,292 @@
+import { Node, CallExpression, ObjectLiteralExpression } from 'ts-morph';
+import { SchemaObject, ReferenceObject } from '../types/openapi.mjs';
+import { SchemaLibraryAdapter } from '../types/internal.mjs';
+import { getImportOf } from '../ast/express-checker.mjs';
+import {
+  evaluateStaticString,
+  evaluateStaticValue,
+  resolveInitializer,
+  resolveObjectLiteral,
+  evaluateEnumValues,
+  enumSchema,
+  formatNodeLocation,
+} from '../ast/static-evaluator.mjs';
+import { debug } from '../utils/logger.mjs';
+
+const MAX_DEPTH = 10;
+
+/**
+ * Modules TypeBox is imported from (`@sinclair/typebox`, `typebox`, ...)
+ */
+const TYPEBOX_MODULE = /^(@sinclair\/typebox|typebox)(\/|$)/;
+
+const PRIMITIVE_FACTORIES: Record<string, SchemaObject> = {
+  String: { type: 'string' },
+  Number: { type: 'number' },
+  Integer: { type: 'integer' },
+  Boolean: { type: 'boolean' },
+  Date: { type: 'string', format: 'date-time' },
+  Any: {},
+  Unknown: {},
+};
+
+/**
+ * Builds a schema by statically reading a TypeBox schema, e.g.
+ * `Type.Object({ name: Type.String({ minLength: 1 }) })`. TypeBox schemas are
+ * JSON Schema, so options objects (`minLength`, `format`, `description`, ...)
+ * are emitted as-is.
+ *
+ * - `Type.String()` / `Number()` / `Integer()` / `Boolean()` / `Array()` /
+ *   `Object()` / `Record()` => types
+ * - `Type.Optional(T)` => not required
+ * - `Type.Union([...])` => anyOf (`Type.Null()` members => nullable),
+ *   `Type.Intersect([...])` => allOf
+ * - `Type.Literal(x)` / `Type.Enum(E)` => enum, as OpenAPI 3.0 has no `const`
+ * - `Type.Partial()` / `Type.Required()` / `Type.Pick()` / `Type.Omit()` =>
+ *   the corresponding object schema
+ *
+ * @param schemaNode - The schema expression, or a reference to it
+ * @returns The schema, or null if any part cannot be interpreted
+ */
+export function buildTypeBoxSchema(schemaNode: Node): SchemaObject | null {
+  const schema = build(schemaNode, 0);
+  if (!schema) {
+    debug('✗ Could not interpret TypeBox schema', {
+      schema: schemaNode.getText().substring(0, 60),
+      location: formatNodeLocation(schemaNode),
+    });
+    return null;
+  }
+
+  debug('✓ Built schema from TypeBox schema', {
+    schema: schemaNode.getText().substring(0, 60),
+  });
+  return schema;
+}
+
+/**
+ * Reads TypeBox schemas behind `Static<typeof T>`
+ */
+export const typeboxAdapter: SchemaLibraryAdapter = {
+  name: 'typebox',
+  modules: TYPEBOX_MODULE,
+  inferenceTypes: ['Static', 'StaticDecode', 'StaticEncode'],
+  buildSchema: buildTypeBoxSchema,
+};
+
+/** Marks schemas wrapped in `Type.Optional()` while building objects */
+const OPTIONAL = Symbol('optional');
+
+type TypeBoxSchema = SchemaObject & { [OPTIONAL]?: boolean };
+
+function build(node: Node, depth: number): TypeBoxSchema | null {
+  if (depth > MAX_DEPTH) {
+    return null;
+  }
+
+  if (
+    Node.isParenthesizedExpression(node) ||
+    Node.isAsExpression(node) ||
+    Node.isSatisfiesExpression(node)
+  ) {
+    return build(node.getExpression(), depth + 1);
+  }
+
+  if (Node.isCallExpression(node)) {
+    return buildCall(node, depth);
+  }
+
+  const initializer = resolveInitializer(node);
+  return initializer ? build(initializer, depth + 1) : null;
+}
+
+function buildCall(call: CallExpression, depth: number): TypeBoxSchema | null {
+  const callee = call.getExpression();
+  if (
+    !Node.isPropertyAccessExpression(callee) ||
+    !isTypeBuilder(callee.getExpression())
+  ) {
+    return null;
+  }
+
+  const name = callee.getName();
+  const args = call.getArguments();
+  const [firstArg, secondArg] = args;
+
+  if (PRIMITIVE_FACTORIES[name]) {
+    return withOptions({ ...PRIMITIVE_FACTORIES[name] }, firstArg);
+  }
+
+  switch (name) {
+    case 'Optional': {
+      const schema = firstArg && build(firstArg, depth + 1);
+      return schema && { ...schema, [OPTIONAL]: true };
+    }
+    case 'Array': {
+      const items = firstArg && build(firstArg, depth + 1);
+      return items && withOptions({ type: 'array', items }, secondArg);
+    }
+    case 'Object': {
+      const properties = firstArg && resolveObjectLiteral(firstArg);
+      const schema = properties && buildObject(properties, depth);
+      return schema && withOptions(schema, secondArg);
+    }
+    case 'Record': {
+      const values = secondArg && build(secondArg, depth + 1);
+      return values && { type: 'object', additionalProperties: values };
+    }
+    case 'Literal': {
+      const value = firstArg && evaluateStaticValue(firstArg);
+      return value === undefined ? null : enumSchema([value]);
+    }
+    case 'Enum': {
+      const values = firstArg && evaluateEnumValues(firstArg);
+      return values ? enumSchema(values) : null;
+    }
+    case 'Union':
+      return buildUnion(firstArg, depth);
+    case 'Intersect': {
+      const members = firstArg && buildMembers(firstArg, depth);
+      return members && { allOf: members };
+    }
+    case 'Partial':
+    case 'Required': {
+      const schema = firstArg && build(firstArg, depth + 1);
+      if (!schema?.properties) {
+        return null;
+      }
+      const { required: _required, ...rest } = schema;
+      return name === 'Partial'
+        ? rest
+        : { ...rest, required: Object.keys(schema.properties) };
+    }
+    case 'Pick':
+    case 'Omit': {
+      const schema = firstArg && build(firstArg, depth + 1);
+      const keys = secondArg && evaluateStaticValue(secondArg);
+      if (!schema?.properties || !Array.isArray(keys)) {
+        return null;
+      }
+      const keep = (key: string) =>
+        name === 'Pick' ? keys.includes(key) : !keys.includes(key);
+      const properties = Object.fromEntries(
+        Object.entries(schema.properties).filter(([key]) => keep(key)),
+      );
+      const { required: _required, ...rest } = schema;
+      const required = (schema.required ?? []).filter(keep);
+      return {
+        ...rest,
+        properties,
+        ...(required.length > 0 && { required }),
+      };
+    }
+    default:
+      return null;
+  }
+}
+
+function buildObject(
+  properties: ObjectLiteralExpression,
+  depth: number,
+): SchemaObject | null {
+  const schemaProperties: { [key: string]: SchemaObject | ReferenceObject } =
+    {};
+  const required: string[] = [];
+
+  for (const property of properties.getProperties()) {
+    if (!Node.isPropertyAssignment(property)) {
+      return null;
+    }
+
+    const nameNode = property.getNameNode();
+    const name = Node.isIdentifier(nameNode)
+      ? nameNode.getText()
+      : evaluateStaticString(nameNode);
+    const value = property.getInitializer();
+    const schema = name !== null && value && build(value, depth + 1);
+    if (!schema || name === null) {
+      return null;
+    }
+
+    const { [OPTIONAL]: optional, ...propertySchema } = schema;
+    schemaProperties[name] = propertySchema;
+    if (!optional) {
+      required.push(name);
+    }
+  }
+
+  return {
+    type: 'object',
+    properties: schemaProperties,
+    ...(required.length > 0 && { required }),
+  };
+}
+
+function buildUnion(
+  membersNode: Node | undefined,
+  depth: number,
+): SchemaObject | null {
+  const members = membersNode && buildMembers(membersNode, depth);
+  if (!members) {
+    return null;
+  }
+
+  // Type.Union([T, Type.Null()]) => nullable T
+  const nonNull = members.filter((m) => m.type !== 'null');
+  const nullable = nonNull.length < members.length;
+  const schema: SchemaObject =
+    nonNull.length === 1 ? { ...nonNull[0] } : { anyOf: nonNull };
+  return nullable ? { ...schema, nullable: true } : schema;
+}
+
+function buildMembers(node: Node, depth: number): SchemaObject[] | null {
+  if (!Node.isArrayLiteralExpression(node)) {
+    return null;
+  }
+
+  const members = node.getElements().map((element) => {
+    const callee = Node.isCallExpression(element)
+      ? element.getExpression()
+      : undefined;
+    return Node.isPropertyAccessExpression(callee) &&
+      callee.getName() === 'Null'
+      ? { type: 'null' }
+      : build(element, depth + 1);
+  });
+  return members.every((m) => m !== null) ? (members as SchemaObject[]) : null;
+}
+
+/**
+ * Merges a TypeBox options object (JSON Schema keywords) into a schema
+ */
+function withOptions(
+  schema: SchemaObject,
+  optionsNode: Node | undefined,
+): SchemaObject | null {
+  if (!optionsNode) {
+    return schema;
+  }
+
+  const options = evaluateStaticValue(optionsNode);
+  if (!options || typeof options !== 'object' || Array.isArray(options)) {
+    return null;
+  }
+  return { ...schema, ...options };
+}
+
+/**
+ * Checks if an expression is the TypeBox builder (`import { Type } from
+ * '@sinclair/typebox'`, `import Type from 'typebox'`)
+ */
+function isTypeBuilder(node: Node): boolean {
+  if (!Node.isIdentifier(node)) {
+    return false;
+  }
+
+  const importInfo = getImportOf(node);
+  return (
+    !!importInfo &&
+    TYPEBOX_MODULE.test(importInfo.moduleName) &&
+    ['Type', 'default', '*'].includes(importInfo.importName)
+  );
+}
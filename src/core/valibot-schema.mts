@@ -0,0 +1,345 @@
+import { Node, CallExpression, ObjectLiteralExpression } from 'ts-morph';
+import { SchemaObject, ReferenceObject } from '../types/openapi.mjs';
+import { SchemaLibraryAdapter } from '../types/internal.mjs';
+import { getImportOf } from '../ast/express-checker.mjs';
+import {
+  evaluateStaticString,
+  evaluateStaticValue,
+  resolveInitializer,
+  resolveObjectLiteral,
+  evaluateEnumValues,
+  enumSchema,
+  formatNodeLocation,
+} from '../ast/static-evaluator.mjs';
+import { debug } from '../utils/logger.mjs';
+
+const MAX_DEPTH = 10;
+
+/**
+ * Modules Valibot is imported from
+ */
+const VALIBOT_MODULE = /^valibot(\/|$)/;
+
+const PRIMITIVE_FACTORIES: Record<string, SchemaObject> = {
+  string: { type: 'string' },
+  number: { type: 'number' },
+  bigint: { type: 'integer' },
+  boolean: { type: 'boolean' },
+  date: { type: 'string', format: 'date-time' },
+  any: {},
+  unknown: {},
+};
+
+const STRING_FORMATS: Record<string, string> = {
+  email: 'email',
+  url: 'uri',
+  uuid: 'uuid',
+  isoDateTime: 'date-time',
+  isoTimestamp: 'date-time',
+  isoDate: 'date',
+  ipv4: 'ipv4',
+  ipv6: 'ipv6',
+};
+
+interface ValibotSchema {
+  schema: SchemaObject;
+  /** Whether the key may be missing (`v.optional()`, `v.nullish()`) */
+  optional: boolean;
+}
+
+/**
+ * Builds a schema by statically reading a Valibot schema, e.g.
+ * `v.object({ email: v.pipe(v.string(), v.email()) })`, inline or referenced
+ * by identifier (including across imports).
+ *
+ * - `v.string()` / `number()` / `boolean()` / `date()` / `array()` /
+ *   `object()` / `record()` / `union()` => types
+ * - `v.optional(s, default)` => not required (with default),
+ *   `v.nullable(s)` => nullable, `v.picklist([...])` / `v.enum(E)` /
+ *   `v.literal(x)` => enum
+ * - Pipe actions (`v.pipe(schema, ...actions)` or the older
+ *   `v.string([...actions])`): `email()` / `url()` / `uuid()` /
+ *   `isoDateTime()` => format, `minLength()` / `maxLength()` / `length()` =>
+ *   minLength/maxLength or minItems/maxItems, `minValue()` / `maxValue()` =>
+ *   minimum/maximum, `regex()` => pattern, `integer()` => integer,
+ *   `description()` => description
+ *
+ * Actions that do not describe the value (`trim()`, `transform()`, ...) are
+ * skipped.
+ *
+ * @param schemaNode - The schema expression, or a reference to it
+ * @returns The schema, or null if any schema in it cannot be interpreted
+ */
+export function buildValibotSchema(schemaNode: Node): SchemaObject | null {
+  const result = build(schemaNode, 0);
+  if (!result) {
+    debug('✗ Could not interpret Valibot schema', {
+      schema: schemaNode.getText().substring(0, 60),
+      location: formatNodeLocation(schemaNode),
+    });
+    return null;
+  }
+
+  debug('✓ Built schema from Valibot schema', {
+    schema: schemaNode.getText().substring(0, 60),
+  });
+  return result.schema;
+}
+
+/**
+ * Reads Valibot schemas behind `v.InferOutput<typeof S>` and
+ * `v.InferInput<...>`
+ */
+export const valibotAdapter: SchemaLibraryAdapter = {
+  name: 'valibot',
+  modules: VALIBOT_MODULE,
+  inferenceTypes: ['InferOutput', 'InferInput', 'Output', 'Input'],
+  buildSchema: buildValibotSchema,
+};
+
+function build(node: Node, depth: number): ValibotSchema | null {
+  if (depth > MAX_DEPTH) {
+    return null;
+  }
+
+  if (
+    Node.isParenthesizedExpression(node) ||
+    Node.isAsExpression(node) ||
+    Node.isSatisfiesExpression(node)
+  ) {
+    return build(node.getExpression(), depth + 1);
+  }
+
+  if (Node.isCallExpression(node)) {
+    const name = getValibotFunction(node);
+    return name ? buildFactory(name, node.getArguments(), depth) : null;
+  }
+
+  const initializer = resolveInitializer(node);
+  return initializer ? build(initializer, depth + 1) : null;
+}
+
+function buildFactory(
+  name: string,
+  args: Node[],
+  depth: number,
+): ValibotSchema | null {
+  const [firstArg, secondArg] = args;
+
+  if (PRIMITIVE_FACTORIES[name]) {
+    // v.string([v.email()]) pipes actions as an argument (before v0.31)
+    const pipe = args.find(Node.isArrayLiteralExpression);
+    const base = required({ ...PRIMITIVE_FACTORIES[name] });
+    return pipe ? applyActions(base, pipe.getElements()) : base;
+  }
+
+  switch (name) {
+    case 'pipe': {
+      const base = firstArg && build(firstArg, depth + 1);
+      return base && applyActions(base, args.slice(1));
+    }
+    case 'object':
+    case 'strictObject':
+    case 'looseObject': {
+      const entries = firstArg && resolveObjectLiteral(firstArg);
+      const schema = entries && buildObject(entries, depth);
+      return schema && required(schema);
+    }
+    case 'array': {
+      const items = firstArg && build(firstArg, depth + 1);
+      return items && required({ type: 'array', items: items.schema });
+    }
+    case 'record': {
+      const values = secondArg && build(secondArg, depth + 1);
+      return (
+        values &&
+        required({ type: 'object', additionalProperties: values.schema })
+      );
+    }
+    case 'optional':
+    case 'nullish':
+    case 'nullable': {
+      const inner = firstArg && build(firstArg, depth + 1);
+      if (!inner) {
+        return null;
+      }
+      const defaultValue = secondArg && evaluateStaticValue(secondArg);
+      const schema: SchemaObject = {
+        ...inner.schema,
+        ...(name !== 'optional' && { nullable: true }),
+        ...(defaultValue !== undefined && { default: defaultValue }),
+      };
+      return { schema, optional: name !== 'nullable' || inner.optional };
+    }
+    case 'literal': {
+      const value = firstArg && evaluateStaticValue(firstArg);
+      return value === undefined ? null : required(enumSchema([value]));
+    }
+    case 'picklist':
+    case 'enum':
+    case 'enum_': {
+      const values = firstArg && evaluateEnumValues(firstArg);
+      return values ? required(enumSchema(values)) : null;
+    }
+    case 'union':
+    case 'variant': {
+      const options = name === 'variant' ? secondArg : firstArg;
+      if (!Node.isArrayLiteralExpression(options)) {
+        return null;
+      }
+      const schemas = options
+        .getElements()
+        .map((option) => build(option, depth + 1));
+      return schemas.every((s) => s !== null)
+        ? required({ anyOf: schemas.map((s) => s!.schema) })
+        : null;
+    }
+    default:
+      return null;
+  }
+}
+
+function buildObject(
+  entries: ObjectLiteralExpression,
+  depth: number,
+): SchemaObject | null {
+  const properties: { [key: string]: SchemaObject | ReferenceObject } = {};
+  const requiredNames: string[] = [];
+
+  for (const property of entries.getProperties()) {
+    if (!Node.isPropertyAssignment(property)) {
+      return null;
+    }
+
+    const nameNode = property.getNameNode();
+    const name = Node.isIdentifier(nameNode)
+      ? nameNode.getText()
+      : evaluateStaticString(nameNode);
+    const value = property.getInitializer();
+    const propertySchema = name !== null && value && build(value, depth + 1);
+    if (!propertySchema || name === null) {
+      return null;
+    }
+
+    properties[name] = propertySchema.schema;
+    if (!propertySchema.optional) {
+      requiredNames.push(name);
+    }
+  }
+
+  return {
+    type: 'object',
+    properties,
+    ...(requiredNames.length > 0 && { required: requiredNames }),
+  };
+}
+
+/**
+ * Applies pipe actions like `v.email()` or `v.minLength(1)` to a schema
+ */
+function applyActions(base: ValibotSchema, actions: Node[]): ValibotSchema {
+  let schema: SchemaObject = { ...base.schema };
+
+  for (const action of actions) {
+    const name = Node.isCallExpression(action)
+      ? getValibotFunction(action)
+      : null;
+    if (!name || !Node.isCallExpression(action)) {
+      continue;
+    }
+
+    const [firstArg] = action.getArguments();
+    const value = firstArg && evaluateStaticValue(firstArg);
+    const limit = typeof value === 'number' ? value : undefined;
+    const [minKey, maxKey] =
+      schema.type === 'array'
+        ? ['minItems', 'maxItems']
+        : ['minLength', 'maxLength'];
+
+    if (STRING_FORMATS[name]) {
+      schema = { ...schema, format: STRING_FORMATS[name] };
+      continue;
+    }
+
+    switch (name) {
+      case 'minLength':
+        schema = withNumber(schema, minKey, limit);
+        break;
+      case 'maxLength':
+        schema = withNumber(schema, maxKey, limit);
+        break;
+      case 'length':
+        schema = withNumber(withNumber(schema, minKey, limit), maxKey, limit);
+        break;
+      case 'nonEmpty':
+        schema = withNumber(schema, minKey, 1);
+        break;
+      case 'minValue':
+        schema = withNumber(schema, 'minimum', limit);
+        break;
+      case 'maxValue':
+        schema = withNumber(schema, 'maximum', limit);
+        break;
+      case 'integer':
+        schema = { ...schema, type: 'integer' };
+        break;
+      case 'regex': {
+        if (Node.isRegularExpressionLiteral(firstArg)) {
+          const literal = firstArg.getLiteralText();
+          const pattern = literal.substring(1, literal.lastIndexOf('/'));
+          schema = { ...schema, pattern };
+        }
+        break;
+      }
+      case 'description':
+        schema =
+          typeof value === 'string'
+            ? { ...schema, description: value }
+            : schema;
+        break;
+    }
+  }
+
+  return { ...base, schema };
+}
+
+function withNumber(
+  schema: SchemaObject,
+  key: string,
+  value: number | undefined,
+): SchemaObject {
+  return value === undefined ? schema : { ...schema, [key]: value };
+}
+
+function required(schema: SchemaObject): ValibotSchema {
+  return { schema, optional: false };
+}
+
+/**
+ * Reads the name of a Valibot function call: `v.string()` with
+ * `import * as v from 'valibot'`, or `string()` imported by name
+ */
+function getValibotFunction(call: CallExpression): string | null {
+  const callee = call.getExpression();
+
+  if (Node.isIdentifier(callee)) {
+    const importInfo = getImportOf(callee);
+    return importInfo && VALIBOT_MODULE.test(importInfo.moduleName)
+      ? importInfo.importName
+      : null;
+  }
+
+  if (!Node.isPropertyAccessExpression(callee)) {
+    return null;
+  }
+
+  const namespace = callee.getExpression();
+  const importInfo = Node.isIdentifier(namespace)
+    ? getImportOf(namespace)
+    : undefined;
+  return importInfo &&
+    VALIBOT_MODULE.test(importInfo.moduleName) &&
+    importInfo.importName === '*'
+    ? callee.getName()
+    : null;
+}
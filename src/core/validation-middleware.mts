@@ -0,0 +1,205 @@
+import { Node, CallExpression } from 'ts-morph';
+import { RequestTypeInfo, TypeInfo } from '../types/internal.mjs';
+import { extractTypeInfoFromType } from './type-extraction.mjs';
+import { buildJoiSchema } from './joi-schema.mjs';
+import {
+  evaluateStaticString,
+  formatNodeLocation,
+} from '../ast/static-evaluator.mjs';
+import { debug } from '../utils/logger.mjs';
+
+/**
+ * The part of the request a validation schema describes. `request` schemas
+ * are objects with `body`, `query`, `params` and/or `headers` keys.
+ */
+export type ValidationTarget =
+  | 'body'
+  | 'query'
+  | 'params'
+  | 'headers'
+  | 'request';
+
+export const VALIDATION_TARGETS: ValidationTarget[] = [
+  'body',
+  'query',
+  'params',
+  'headers',
+  'request',
+];
+
+/**
+ * A validation middleware factory, e.g. `validateBody(CreateUserSchema)`
+ */
+export interface ValidationMiddlewareConfig {
+  /** Middleware function name, e.g. validateBody (or validators.body) */
+  name: string;
+  /** What the schema validates */
+  target: ValidationTarget;
+  /** Index of the argument holding the schema (defaults to 0) */
+  schemaArgument?: number;
+}
+
+type RequestTarget = Exclude<ValidationTarget, 'request'>;
+
+const TARGET_FIELDS: Record<
+  RequestTarget,
+  'bodyParams' | 'queryParams' | 'pathParams' | 'headerParams'
+> = {
+  body: 'bodyParams',
+  query: 'queryParams',
+  params: 'pathParams',
+  headers: 'headerParams',
+};
+
+/**
+ * Validation middleware recognized without configuration:
+ * `celebrate({ [Segments.BODY]: Joi.object({...}) })`
+ */
+export const DEFAULT_VALIDATION_MIDDLEWARE: ValidationMiddlewareConfig[] = [
+  { name: 'celebrate', target: 'request' },
+];
+
+/**
+ * Extracts request types from the validation middleware of a route, e.g.
+ * `router.post('/users', validateBody(CreateUserSchema), createUser)`.
+ *
+ * Zod schemas are converted through their input type (`z.input<typeof schema>`),
+ * which is what clients send. Joi schemas are read statically from their
+ * construction chain.
+ *
+ * @param middlewareArgs - The middleware and handler arguments of the route
+ * @param configs - The validation middleware to recognize
+ * @returns The request types described by the schemas, or null if none
+ */
+export function extractValidationTypes(
+  middlewareArgs: Node[],
+  configs: ValidationMiddlewareConfig[],
+): RequestTypeInfo | null {
+  const types: RequestTypeInfo = {};
+
+  for (const arg of middlewareArgs) {
+    if (!Node.isCallExpression(arg)) {
+      continue;
+    }
+
+    const config = findMiddlewareConfig(arg, configs);
+    const schemaArg = config && arg.getArguments()[config.schemaArgument ?? 0];
+    if (!config || !schemaArg) {
+      continue;
+    }
+
+    if (config.target !== 'request') {
+      assignSchemaType(types, config.target, schemaArg);
+      continue;
+    }
+
+    // validate({ body: CreateUserSchema, query: ListQuerySchema })
+    if (!Node.isObjectLiteralExpression(schemaArg)) {
+      debug('✗ Request validation schema is not an object literal', {
+        middleware: config.name,
+        location: formatNodeLocation(schemaArg),
+      });
+      continue;
+    }
+    for (const property of schemaArg.getProperties()) {
+      const target = getRequestTarget(property);
+      const schema = Node.isPropertyAssignment(property)
+        ? property.getInitializer()
+        : Node.isShorthandPropertyAssignment(property)
+          ? property.getNameNode()
+          : undefined;
+      if (target && schema) {
+        assignSchemaType(types, target, schema);
+      }
+    }
+  }
+
+  return Object.keys(types).length > 0 ? types : null;
+}
+
+/**
+ * Reads the target of a request schema key: `body`, `'query'` or a computed
+ * key like celebrate's `[Segments.BODY]`
+ */
+function getRequestTarget(property: Node): RequestTarget | null {
+  if (
+    !Node.isPropertyAssignment(property) &&
+    !Node.isShorthandPropertyAssignment(property)
+  ) {
+    return null;
+  }
+
+  const nameNode = property.getNameNode();
+  let key: string | null = nameNode.getText();
+  if (Node.isStringLiteral(nameNode)) {
+    key = nameNode.getLiteralValue();
+  } else if (Node.isComputedPropertyName(nameNode)) {
+    const expression = nameNode.getExpression();
+    key =
+      evaluateStaticString(expression) ??
+      (Node.isPropertyAccessExpression(expression)
+        ? expression.getName().toLowerCase()
+        : null);
+  }
+
+  return key && key in TARGET_FIELDS ? (key as RequestTarget) : null;
+}
+
+function findMiddlewareConfig(
+  call: CallExpression,
+  configs: ValidationMiddlewareConfig[],
+): ValidationMiddlewareConfig | undefined {
+  const callee = call.getExpression();
+  const calleeText = callee.getText();
+  const calleeName = Node.isPropertyAccessExpression(callee)
+    ? callee.getName()
+    : calleeText;
+
+  return configs.find(
+    (config) => config.name === calleeText || config.name === calleeName,
+  );
+}
+
+function assignSchemaType(
+  types: RequestTypeInfo,
+  target: RequestTarget,
+  schemaNode: Node,
+): void {
+  const typeInfo = extractSchemaTypeInfo(schemaNode);
+  if (!typeInfo) {
+    console.warn(
+      `Warning: Could not derive a ${target} schema from validation schema ` +
+        `\`${schemaNode.getText().substring(0, 60)}\` at ${formatNodeLocation(schemaNode)}.`,
+    );
+    return;
+  }
+
+  debug('✓ Extracted validation schema', {
+    target,
+    schema: schemaNode.getText().substring(0, 60),
+  });
+  types[TARGET_FIELDS[target]] = typeInfo;
+}
+
+/**
+ * Resolves a schema to the type it validates. Joi schemas are built from their
+ * construction chain; Zod schemas expose their input type as the `_input`
+ * property (Zod 3 and 4).
+ */
+function extractSchemaTypeInfo(schemaNode: Node): TypeInfo | null {
+  const joiSchema = buildJoiSchema(schemaNode);
+  if (joiSchema) {
+    return { isNamed: false, schema: joiSchema };
+  }
+
+  const inputProperty = schemaNode.getType().getProperty('_input');
+  if (!inputProperty) {
+    return null;
+  }
+
+  const typeInfo = extractTypeInfoFromType(
+    inputProperty.getTypeAtLocation(schemaNode),
+    schemaNode,
+  );
+  return typeInfo && { ...typeInfo, schemaNode, schemaLibrary: 'zod' };
+}
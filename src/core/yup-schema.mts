@@ -0,0 +1,357 @@
+import { Node, CallExpression, ObjectLiteralExpression } from 'ts-morph';
+import { SchemaObject, ReferenceObject } from '../types/openapi.mjs';
+import { SchemaLibraryAdapter } from '../types/internal.mjs';
+import { getImportOf } from '../ast/express-checker.mjs';
+import {
+  evaluateStaticString,
+  evaluateStaticValue,
+  resolveInitializer,
+  resolveObjectLiteral,
+  formatNodeLocation,
+} from '../ast/static-evaluator.mjs';
+import { debug } from '../utils/logger.mjs';
+
+const MAX_DEPTH = 10;
+
+/**
+ * Modules Yup is imported from
+ */
+const YUP_MODULE = /^yup(\/|$)/;
+
+const TYPE_FACTORIES: Record<string, SchemaObject> = {
+  string: { type: 'string' },
+  number: { type: 'number' },
+  boolean: { type: 'boolean' },
+  bool: { type: 'boolean' },
+  date: { type: 'string', format: 'date-time' },
+  array: { type: 'array', items: {} },
+  object: { type: 'object', properties: {} },
+  mixed: {},
+};
+
+const STRING_FORMATS: Record<string, string> = {
+  email: 'email',
+  url: 'uri',
+  uuid: 'uuid',
+  datetime: 'date-time',
+};
+
+interface YupSchema {
+  schema: SchemaObject;
+  /** Whether the value must be present (`.required()`, `.defined()`) */
+  required: boolean;
+}
+
+/**
+ * Builds a schema by statically reading a Yup schema, e.g.
+ * `yup.object({ email: yup.string().email().required() })`, inline or
+ * referenced by identifier (including across imports).
+ *
+ * - `yup.string()` / `number()` / `boolean()` / `date()` / `array().of()` /
+ *   `object({...})` / `.shape({...})` => types
+ * - `.required()` / `.defined()` => required, `.nullable()` => nullable,
+ *   `.oneOf([...])` => enum, `.default(x)` => default
+ * - `.min()` / `.max()` / `.length()` => minLength/maxLength, minimum/maximum
+ *   or minItems/maxItems depending on the schema type; `.moreThan()` /
+ *   `.lessThan()` / `.positive()` / `.negative()` => exclusive bounds
+ * - `.email()` / `.url()` / `.uuid()` => format, `.matches(/.../)` => pattern,
+ *   `.integer()` => integer
+ *
+ * Methods that do not describe the value (`.trim()`, `.test()`, `.when()`,
+ * ...) are skipped.
+ *
+ * @param schemaNode - The schema expression, or a reference to it
+ * @returns The schema, or null if the expression is not a Yup schema
+ */
+export function buildYupSchema(schemaNode: Node): SchemaObject | null {
+  const result = build(schemaNode, 0);
+  if (!result) {
+    debug('✗ Could not interpret Yup schema', {
+      schema: schemaNode.getText().substring(0, 60),
+      location: formatNodeLocation(schemaNode),
+    });
+    return null;
+  }
+
+  debug('✓ Built schema from Yup schema', {
+    schema: schemaNode.getText().substring(0, 60),
+  });
+  return result.schema;
+}
+
+/**
+ * Reads Yup schemas behind `yup.InferType<typeof s>`
+ */
+export const yupAdapter: SchemaLibraryAdapter = {
+  name: 'yup',
+  modules: YUP_MODULE,
+  inferenceTypes: ['InferType'],
+  buildSchema: buildYupSchema,
+};
+
+function build(node: Node, depth: number): YupSchema | null {
+  if (depth > MAX_DEPTH) {
+    return null;
+  }
+
+  if (
+    Node.isParenthesizedExpression(node) ||
+    Node.isAsExpression(node) ||
+    Node.isSatisfiesExpression(node)
+  ) {
+    return build(node.getExpression(), depth + 1);
+  }
+
+  if (Node.isCallExpression(node)) {
+    return buildCall(node, depth);
+  }
+
+  const initializer = resolveInitializer(node);
+  return initializer ? build(initializer, depth + 1) : null;
+}
+
+function buildCall(call: CallExpression, depth: number): YupSchema | null {
+  const callee = call.getExpression();
+  const args = call.getArguments();
+
+  // import { string } from 'yup'; string()
+  if (Node.isIdentifier(callee)) {
+    const importInfo = getImportOf(callee);
+    return importInfo && YUP_MODULE.test(importInfo.moduleName)
+      ? buildFactory(importInfo.importName, args, depth)
+      : null;
+  }
+
+  if (!Node.isPropertyAccessExpression(callee)) {
+    return null;
+  }
+
+  const name = callee.getName();
+  const object = callee.getExpression();
+
+  // yup.string(), Yup.object({...})
+  if (isYupNamespace(object)) {
+    return buildFactory(name, args, depth);
+  }
+
+  const base = build(object, depth + 1);
+  return base && applyMethod(base, name, args, depth);
+}
+
+function buildFactory(
+  name: string,
+  args: Node[],
+  depth: number,
+): YupSchema | null {
+  if (!TYPE_FACTORIES[name]) {
+    return null;
+  }
+
+  const base: YupSchema = {
+    schema: structuredClone(TYPE_FACTORIES[name]),
+    required: false,
+  };
+  const [firstArg] = args;
+
+  // yup.object({ ... }) / yup.array(yup.string())
+  if (name === 'object' && firstArg) {
+    return applyMethod(base, 'shape', args, depth);
+  }
+  if (name === 'array' && firstArg) {
+    return applyMethod(base, 'of', args, depth);
+  }
+  return base;
+}
+
+function applyMethod(
+  base: YupSchema,
+  name: string,
+  args: Node[],
+  depth: number,
+): YupSchema | null {
+  const [firstArg] = args;
+  const schema: SchemaObject = { ...base.schema };
+
+  if (STRING_FORMATS[name]) {
+    return { ...base, schema: { ...schema, format: STRING_FORMATS[name] } };
+  }
+
+  switch (name) {
+    case 'required':
+    case 'defined':
+      return { ...base, required: true };
+    case 'optional':
+    case 'notRequired':
+      return { ...base, required: false };
+    case 'nullable':
+      return { ...base, schema: { ...schema, nullable: true } };
+    case 'oneOf': {
+      const values = firstArg && evaluateStaticValue(firstArg);
+      if (!Array.isArray(values)) {
+        return base;
+      }
+      const withoutNull = values.filter((v) => v !== null);
+      return {
+        ...base,
+        schema: {
+          ...schema,
+          enum: withoutNull,
+          ...(withoutNull.length < values.length && { nullable: true }),
+        },
+      };
+    }
+    case 'default': {
+      const value = firstArg && evaluateStaticValue(firstArg);
+      return value === undefined
+        ? base
+        : { ...base, schema: { ...schema, default: value } };
+    }
+    case 'matches': {
+      if (!Node.isRegularExpressionLiteral(firstArg)) {
+        return base;
+      }
+      const literal = firstArg.getLiteralText();
+      const pattern = literal.substring(1, literal.lastIndexOf('/'));
+      return { ...base, schema: { ...schema, pattern } };
+    }
+    case 'integer':
+      return { ...base, schema: { ...schema, type: 'integer' } };
+    case 'of': {
+      const items = firstArg && build(firstArg, depth + 1);
+      return items
+        ? { ...base, schema: { ...schema, items: items.schema } }
+        : null;
+    }
+    case 'shape': {
+      const fields = firstArg && resolveObjectLiteral(firstArg);
+      const extension = fields && buildObject(fields, depth);
+      if (!extension) {
+        return null;
+      }
+      const requiredNames = [
+        ...(schema.required ?? []),
+        ...(extension.required ?? []),
+      ];
+      return {
+        ...base,
+        schema: {
+          ...schema,
+          properties: { ...schema.properties, ...extension.properties },
+          ...(requiredNames.length > 0 && { required: requiredNames }),
+        },
+      };
+    }
+    default:
+      return applyConstraint(base, name, firstArg);
+  }
+}
+
+/**
+ * Applies size and range constraints, whose keywords depend on the schema
+ * type. Other methods (`.trim()`, `.test()`, `.label()`, ...) do not describe
+ * the value and are skipped.
+ */
+function applyConstraint(
+  base: YupSchema,
+  name: string,
+  arg: Node | undefined,
+): YupSchema {
+  const value = arg ? evaluateStaticValue(arg) : undefined;
+  const limit = typeof value === 'number' ? value : undefined;
+  const { type } = base.schema;
+  const constraints: SchemaObject = {};
+
+  if (type === 'string' || type === 'array') {
+    const [minKey, maxKey] =
+      type === 'string' ? ['minLength', 'maxLength'] : ['minItems', 'maxItems'];
+    if (name === 'min' || name === 'length') {
+      constraints[minKey] = limit;
+    }
+    if (name === 'max' || name === 'length') {
+      constraints[maxKey] = limit;
+    }
+  } else if (type === 'number' || type === 'integer') {
+    switch (name) {
+      case 'min':
+        constraints.minimum = limit;
+        break;
+      case 'moreThan':
+        constraints.minimum = limit;
+        constraints.exclusiveMinimum = true;
+        break;
+      case 'max':
+        constraints.maximum = limit;
+        break;
+      case 'lessThan':
+        constraints.maximum = limit;
+        constraints.exclusiveMaximum = true;
+        break;
+      case 'positive':
+        constraints.minimum = 0;
+        constraints.exclusiveMinimum = true;
+        break;
+      case 'negative':
+        constraints.maximum = 0;
+        constraints.exclusiveMaximum = true;
+        break;
+    }
+  }
+
+  const keys = Object.keys(constraints);
+  if (keys.length === 0 || keys.some((key) => constraints[key] === undefined)) {
+    return base;
+  }
+
+  return { ...base, schema: { ...base.schema, ...constraints } };
+}
+
+function buildObject(
+  fields: ObjectLiteralExpression,
+  depth: number,
+): SchemaObject | null {
+  const properties: { [key: string]: SchemaObject | ReferenceObject } = {};
+  const requiredNames: string[] = [];
+
+  for (const property of fields.getProperties()) {
+    if (!Node.isPropertyAssignment(property)) {
+      return null;
+    }
+
+    const nameNode = property.getNameNode();
+    const name = Node.isIdentifier(nameNode)
+      ? nameNode.getText()
+      : evaluateStaticString(nameNode);
+    const value = property.getInitializer();
+    const propertySchema = name !== null && value && build(value, depth + 1);
+    if (!propertySchema || name === null) {
+      return null;
+    }
+
+    properties[name] = propertySchema.schema;
+    if (propertySchema.required) {
+      requiredNames.push(name);
+    }
+  }
+
+  return {
+    type: 'object',
+    properties,
+    ...(requiredNames.length > 0 && { required: requiredNames }),
+  };
+}
+
+/**
+ * Checks if an expression is the Yup namespace (`import * as yup from 'yup'`)
+ */
+function isYupNamespace(node: Node): boolean {
+  if (!Node.isIdentifier(node)) {
+    return false;
+  }
+
+  const importInfo = getImportOf(node);
+  return (
+    !!importInfo &&
+    YUP_MODULE.test(importInfo.moduleName) &&
+    ['*', 'default'].includes(importInfo.importName)
+  );
+}
@@ -0,0 +1,534 @@
+import {
+  Node,
+  CallExpression,
+  ObjectLiteralExpression,
+  Identifier,
+} from 'ts-morph';
+import { SchemaObject, ReferenceObject } from '../types/openapi.mjs';
+import { SchemaLibraryAdapter } from '../types/internal.mjs';
+import { getImportOf } from '../ast/express-checker.mjs';
+import {
+  evaluateStaticString,
+  evaluateStaticValue,
+  resolveInitializer,
+  evaluateEnumValues,
+  enumSchema,
+  formatNodeLocation,
+} from '../ast/static-evaluator.mjs';
+import { debug } from '../utils/logger.mjs';
+
+const MAX_DEPTH = 10;
+
+/**
+ * Modules Zod is imported from (`zod`, `zod/v4`, `zod/mini`, ...)
+ */
+const ZOD_MODULE = /^zod(\/|$)/;
+
+const PRIMITIVE_FACTORIES: Record<string, SchemaObject> = {
+  string: { type: 'string' },
+  number: { type: 'number' },
+  int: { type: 'integer' },
+  bigint: { type: 'integer', format: 'int64' },
+  boolean: { type: 'boolean' },
+  date: { type: 'string', format: 'date-time' },
+  any: {},
+  unknown: {},
+};
+
+/**
+ * String formats, available as string methods (`z.string().email()`) and,
+ * in Zod 4, as factories (`z.email()`)
+ */
+const STRING_FORMATS: Record<string, string> = {
+  email: 'email',
+  uuid: 'uuid',
+  guid: 'uuid',
+  url: 'uri',
+  datetime: 'date-time',
+  date: 'date',
+  time: 'time',
+  ipv4: 'ipv4',
+  ipv6: 'ipv6',
+};
+
+/**
+ * Methods that refine or transform values without changing what clients
+ * send. Transforms and pipes keep the input schema.
+ */
+const PASSTHROUGH_METHODS = new Set([
+  'refine',
+  'superRefine',
+  'check',
+  'transform',
+  'pipe',
+  'brand',
+  'readonly',
+  'trim',
+  'toLowerCase',
+  'toUpperCase',
+  'startsWith',
+  'endsWith',
+  'includes',
+  'finite',
+  'safe',
+  'strip',
+  'passthrough',
+]);
+
+interface ZodSchema {
+  schema: SchemaObject;
+  /** Whether the value may be omitted (`.optional()`, `.default()`) */
+  optional: boolean;
+}
+
+/**
+ * Builds a schema by statically reading a Zod schema construction chain,
+ * keeping the constraints that are lost in the inferred TypeScript type:
+ * - `.min()` / `.max()` / `.length()` => minLength/maxLength, minimum/maximum
+ *   or minItems/maxItems depending on the schema type
+ * - `.email()` / `.uuid()` / `.url()` / `.datetime()` => format
+ * - `.regex(/.../)` => pattern, `.int()` => integer
+ * - `.default(x)` => default, `.describe('...')` => description
+ * - `.nullable()` => nullable, `z.enum([...])` / `z.literal(x)` => enum
+ *
+ * The schema describes what clients send: `.default()` fields are optional
+ * and transforms keep their input schema.
+ *
+ * @param schemaNode - The schema expression, or a reference to it
+ * @returns The schema, or null if any part of the chain cannot be interpreted
+ *
+ * @example
+ * // const UserSchema = z.object({ name: z.string().min(1), email: z.string().email() });
+ * // buildZodSchema(UserSchema) => {
+ * //   type: 'object',
+ * //   properties: { name: { type: 'string', minLength: 1 }, email: { type: 'string', format: 'email' } },
+ * //   required: ['name', 'email'],
+ * // }
+ */
+export function buildZodSchema(schemaNode: Node): SchemaObject | null {
+  const result = build(schemaNode, 0);
+  if (!result) {
+    debug('✗ Could not interpret Zod schema', {
+      schema: schemaNode.getText().substring(0, 60),
+      location: formatNodeLocation(schemaNode),
+    });
+    return null;
+  }
+
+  debug('✓ Built schema from Zod schema', {
+    schema: schemaNode.getText().substring(0, 60),
+  });
+  return result.schema;
+}
+
+/**
+ * Reads Zod schemas behind `z.infer<typeof S>`, `z.input<...>` and
+ * `z.output<...>`
+ */
+export const zodAdapter: SchemaLibraryAdapter = {
+  name: 'zod',
+  modules: ZOD_MODULE,
+  inferenceTypes: ['infer', 'input', 'output'],
+  buildSchema: buildZodSchema,
+};
+
+function build(node: Node, depth: number): ZodSchema | null {
+  if (depth > MAX_DEPTH) {
+    return null;
+  }
+
+  if (
+    Node.isParenthesizedExpression(node) ||
+    Node.isAsExpression(node) ||
+    Node.isSatisfiesExpression(node)
+  ) {
+    return build(node.getExpression(), depth + 1);
+  }
+
+  if (Node.isCallExpression(node)) {
+    return buildCall(node, depth);
+  }
+
+  // A reference to a schema declared elsewhere, e.g. `UserSchema` or
+  // `schemas.User` (including imported ones)
+  const initializer = resolveInitializer(node);
+  return initializer ? build(initializer, depth + 1) : null;
+}
+
+function buildCall(call: CallExpression, depth: number): ZodSchema | null {
+  const callee = call.getExpression();
+  const args = call.getArguments();
+
+  // import { string } from 'zod'; string()
+  if (Node.isIdentifier(callee)) {
+    const importName = isZodImport(callee) && getImportOf(callee)?.importName;
+    return importName ? buildFactory(importName, args, depth) : null;
+  }
+
+  if (!Node.isPropertyAccessExpression(callee)) {
+    return null;
+  }
+
+  const name = callee.getName();
+  const object = callee.getExpression();
+
+  // z.string(), z.coerce.number()
+  if (isZodNamespace(object)) {
+    return buildFactory(name, args, depth);
+  }
+
+  const base = build(object, depth + 1);
+  return base && applyMethod(base, name, args, depth);
+}
+
+function buildFactory(
+  name: string,
+  args: Node[],
+  depth: number,
+): ZodSchema | null {
+  const [firstArg] = args;
+
+  if (PRIMITIVE_FACTORIES[name]) {
+    return required({ ...PRIMITIVE_FACTORIES[name] });
+  }
+
+  if (STRING_FORMATS[name]) {
+    return required({ type: 'string', format: STRING_FORMATS[name] });
+  }
+
+  switch (name) {
+    case 'object':
+    case 'strictObject':
+    case 'looseObject': {
+      if (!Node.isObjectLiteralExpression(firstArg)) {
+        return null;
+      }
+      const schema = buildObject(firstArg, depth);
+      if (schema && name === 'strictObject') {
+        schema.additionalProperties = false;
+      }
+      return schema && required(schema);
+    }
+    case 'array': {
+      const items = firstArg && build(firstArg, depth + 1);
+      return items && required({ type: 'array', items: items.schema });
+    }
+    case 'enum':
+    case 'nativeEnum': {
+      const values = firstArg && evaluateEnumValues(firstArg);
+      return values && required(enumSchema(values));
+    }
+    case 'literal': {
+      const value = firstArg && evaluateStaticValue(firstArg);
+      return value === undefined ? null : required(enumSchema([value]));
+    }
+    case 'union':
+    case 'discriminatedUnion': {
+      const options = args[name === 'union' ? 0 : 1];
+      if (!Node.isArrayLiteralExpression(options)) {
+        return null;
+      }
+      const schemas = options
+        .getElements()
+        .map((element) => build(element, depth + 1));
+      return schemas.every((s) => s !== null)
+        ? required({ anyOf: schemas.map((s) => s.schema) })
+        : null;
+    }
+    case 'record': {
+      const values = args[args.length - 1];
+      const valueSchema = values && build(values, depth + 1);
+      return valueSchema
+        ? required({
+            type: 'object',
+            additionalProperties: valueSchema.schema,
+          })
+        : null;
+    }
+    case 'optional':
+    case 'nullable':
+    case 'nullish': {
+      const inner = firstArg && build(firstArg, depth + 1);
+      return inner && applyMethod(inner, name, [], depth);
+    }
+    default:
+      return null;
+  }
+}
+
+function buildObject(
+  shape: ObjectLiteralExpression,
+  depth: number,
+): SchemaObject | null {
+  const properties: { [key: string]: SchemaObject | ReferenceObject } = {};
+  const requiredNames: string[] = [];
+
+  for (const property of shape.getProperties()) {
+    const value = Node.isPropertyAssignment(property)
+      ? property.getInitializer()
+      : Node.isShorthandPropertyAssignment(property)
+        ? property.getNameNode()
+        : undefined;
+    const name =
+      Node.isPropertyAssignment(property) ||
+      Node.isShorthandPropertyAssignment(property)
+        ? getPropertyName(property.getNameNode())
+        : null;
+    const propertySchema = value && name !== null && build(value, depth + 1);
+    if (!propertySchema || name === null) {
+      return null;
+    }
+
+    properties[name] = propertySchema.schema;
+    if (!propertySchema.optional) {
+      requiredNames.push(name);
+    }
+  }
+
+  return {
+    type: 'object',
+    properties,
+    ...(requiredNames.length > 0 && { required: requiredNames }),
+  };
+}
+
+function applyMethod(
+  base: ZodSchema,
+  name: string,
+  args: Node[],
+  depth: number,
+): ZodSchema | null {
+  const [firstArg] = args;
+  const schema: SchemaObject = { ...base.schema };
+
+  if (PASSTHROUGH_METHODS.has(name)) {
+    return base;
+  }
+
+  if (STRING_FORMATS[name]) {
+    return { ...base, schema: { ...schema, format: STRING_FORMATS[name] } };
+  }
+
+  switch (name) {
+    case 'optional':
+      return { schema, optional: true };
+    case 'nullable':
+      return { ...base, schema: { ...schema, nullable: true } };
+    case 'nullish':
+      return { schema: { ...schema, nullable: true }, optional: true };
+    // .catch() replaces missing or invalid input, like a default
+    case 'default':
+    case 'prefault':
+    case 'catch': {
+      const value = firstArg && evaluateStaticValue(firstArg);
+      return {
+        schema: value === undefined ? schema : { ...schema, default: value },
+        optional: true,
+      };
+    }
+    case 'describe': {
+      const description = firstArg && evaluateStaticString(firstArg);
+      return description === null || description === undefined
+        ? base
+        : { ...base, schema: { ...schema, description } };
+    }
+    case 'regex': {
+      if (!Node.isRegularExpressionLiteral(firstArg)) {
+        return base;
+      }
+      const literal = firstArg.getLiteralText();
+      const pattern = literal.substring(1, literal.lastIndexOf('/'));
+      return { ...base, schema: { ...schema, pattern } };
+    }
+    case 'int':
+      return { ...base, schema: { ...schema, type: 'integer' } };
+    case 'array':
+      return required({ type: 'array', items: schema });
+    case 'or': {
+      const other = firstArg && build(firstArg, depth + 1);
+      return other && required({ anyOf: [schema, other.schema] });
+    }
+    case 'strict':
+      return { ...base, schema: { ...schema, additionalProperties: false } };
+    case 'partial':
+      return Node.isObjectLiteralExpression(firstArg)
+        ? null
+        : { ...base, schema: omitKey(schema, 'required') };
+    case 'extend': {
+      const extension =
+        Node.isObjectLiteralExpression(firstArg) &&
+        buildObject(firstArg, depth);
+      if (!extension || schema.type !== 'object') {
+        return null;
+      }
+      const requiredKeys = [
+        ...(schema.required ?? []).filter(
+          (n: string) => !(n in (extension.properties ?? {})),
+        ),
+        ...(extension.required ?? []),
+      ];
+      return {
+        ...base,
+        schema: {
+          ...schema,
+          properties: { ...schema.properties, ...extension.properties },
+          ...(requiredKeys.length > 0 && { required: requiredKeys }),
+        },
+      };
+    }
+    case 'pick':
+    case 'omit': {
+      const keys = Node.isObjectLiteralExpression(firstArg)
+        ? firstArg
+            .getProperties()
+            .map((p) =>
+              Node.isPropertyAssignment(p)
+                ? getPropertyName(p.getNameNode())
+                : null,
+            )
+        : [];
+      if (
+        schema.type !== 'object' ||
+        keys.length === 0 ||
+        keys.some((k) => k === null)
+      ) {
+        return null;
+      }
+      const keep = (key: string) => keys.includes(key) === (name === 'pick');
+      const properties = Object.fromEntries(
+        Object.entries(schema.properties ?? {}).filter(([key]) => keep(key)),
+      );
+      const requiredKeys = (schema.required ?? []).filter(keep);
+      return {
+        ...base,
+        schema: {
+          ...omitKey(schema, 'required'),
+          properties,
+          ...(requiredKeys.length > 0 && { required: requiredKeys }),
+        },
+      };
+    }
+    default:
+      return applyConstraint(base, name, firstArg);
+  }
+}
+
+/**
+ * Applies size and range constraints, whose keywords depend on the schema type
+ */
+function applyConstraint(
+  base: ZodSchema,
+  name: string,
+  arg: Node | undefined,
+): ZodSchema | null {
+  const value = arg ? evaluateStaticValue(arg) : undefined;
+  const limit = typeof value === 'number' ? value : undefined;
+  const { type } = base.schema;
+  const constraints: SchemaObject = {};
+
+  if (type === 'string' || type === 'array') {
+    const [minKey, maxKey] =
+      type === 'string' ? ['minLength', 'maxLength'] : ['minItems', 'maxItems'];
+    if (name === 'nonempty') {
+      constraints[minKey] = 1;
+    } else if (name === 'min' || name === 'length') {
+      constraints[minKey] = limit;
+    }
+    if (name === 'max' || name === 'length') {
+      constraints[maxKey] = limit;
+    }
+  } else if (type === 'number' || type === 'integer') {
+    switch (name) {
+      case 'min':
+      case 'gte':
+        constraints.minimum = limit;
+        break;
+      case 'gt':
+        constraints.minimum = limit;
+        constraints.exclusiveMinimum = true;
+        break;
+      case 'max':
+      case 'lte':
+        constraints.maximum = limit;
+        break;
+      case 'lt':
+        constraints.maximum = limit;
+        constraints.exclusiveMaximum = true;
+        break;
+      case 'positive':
+        constraints.minimum = 0;
+        constraints.exclusiveMinimum = true;
+        break;
+      case 'nonnegative':
+        constraints.minimum = 0;
+        break;
+      case 'negative':
+        constraints.maximum = 0;
+        constraints.exclusiveMaximum = true;
+        break;
+      case 'nonpositive':
+        constraints.maximum = 0;
+        break;
+      case 'multipleOf':
+      case 'step':
+        constraints.multipleOf = limit;
+        break;
+    }
+  }
+
+  const keys = Object.keys(constraints);
+  if (keys.length === 0) {
+    // Unknown method: fall back to the type-based schema
+    return null;
+  }
+  if (keys.some((key) => constraints[key] === undefined)) {
+    // Known constraint with a non-static limit: keep the schema without it
+    return base;
+  }
+
+  return { ...base, schema: { ...base.schema, ...constraints } };
+}
+
+function required(schema: SchemaObject): ZodSchema {
+  return { schema, optional: false };
+}
+
+function omitKey(schema: SchemaObject, key: string): SchemaObject {
+  const { [key]: _omitted, ...rest } = schema;
+  return rest;
+}
+
+function getPropertyName(nameNode: Node): string | null {
+  if (Node.isIdentifier(nameNode)) {
+    return nameNode.getText();
+  }
+  return Node.isStringLiteral(nameNode) || Node.isComputedPropertyName(nameNode)
+    ? evaluateStaticString(
+        Node.isComputedPropertyName(nameNode)
+          ? nameNode.getExpression()
+          : nameNode,
+      )
+    : null;
+}
+
+function isZodImport(identifier: Identifier): boolean {
+  const moduleName = getImportOf(identifier)?.moduleName;
+  return !!moduleName && ZOD_MODULE.test(moduleName);
+}
+
+/**
+ * Checks if an expression is the Zod namespace (`z`, `import * as z`) or its
+ * coercing variant (`z.coerce`)
+ */
+function isZodNamespace(node: Node): boolean {
+  if (Node.isPropertyAccessExpression(node) && node.getName() === 'coerce') {
+    return isZodNamespace(node.getExpression());
+  }
+
+  if (!Node.isIdentifier(node) || !isZodImport(node)) {
+    return false;
+  }
+
+  const importName = getImportOf(node)?.importName;
+  return importName === 'z' || importName === '*' || importName === 'default';
+}
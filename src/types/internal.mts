@@ -1,12 +1,37 @@
 import { Node } from 'ts-morph';
+import { SchemaObject } from './openapi.mjs';
 
-export type HttpMethod = 'get' | 'post' | 'put' | 'patch' | 'delete';
+export const HTTP_METHODS = [
+  'get',
+  'post',
+  'put',
+  'patch',
+  'delete',
+  'head',
+  'options',
+  'trace',
+] as const;
+
+export type HttpMethod = (typeof HTTP_METHODS)[number];
+
+/** A route registration method; `all` matches every HTTP method */
+export type RouteMethod = HttpMethod | 'all';
 
 export interface RouteInfo {
   path: string;
-  method: HttpMethod;
+  method: RouteMethod;
   handlerName?: string;
   handlerNode: Node;
+  /** Source of the RegExp for routes registered with a regex path */
+  regexPattern?: string;
+  /**
+   * Request types found during discovery (e.g. from decorated parameters or
+   * type arguments on the route call). They take precedence over the types
+   * extracted from the handler.
+   */
+  requestTypes?: RequestTypeInfo;
+  /** Middleware functions that run before the handler in the route chain */
+  middlewareNodes?: Node[];
 }
 
 export interface JSDocInfo {
@@ -21,6 +46,29 @@ export interface TypeInfo {
   typeText?: string;
   resolvedTypeText?: string;
   typeNode?: Node;
+  /**
+   * Runtime schema the type is derived from (e.g. `UserSchema` for
+   * `z.infer<typeof UserSchema>`), read for constraints the type loses
+   */
+  schemaNode?: Node;
+  /** Name of the schema library adapter that reads `schemaNode` */
+  schemaLibrary?: string;
+  /** Schema built directly from validators (e.g. express-validator chains) */
+  schema?: SchemaObject;
+}
+
+/**
+ * Reads the runtime schemas of a validation library whose TypeScript types are
+ * inferred from them, e.g. `z.infer<typeof UserSchema>`
+ */
+export interface SchemaLibraryAdapter {
+  name: string;
+  /** Modules the library is imported from */
+  modules: RegExp;
+  /** Helper types that infer a type from a schema (`infer`, `Static`, ...) */
+  inferenceTypes: string[];
+  /** Builds a schema from a schema expression, or null if it cannot be read */
+  buildSchema(schemaNode: Node): SchemaObject | null;
 }
 
 export interface RequestTypeInfo {
@@ -28,4 +76,7 @@ export interface RequestTypeInfo {
   responseBody?: TypeInfo;
   bodyParams?: TypeInfo;
   queryParams?: TypeInfo;
+  headerParams?: TypeInfo;
+  /** Response body types keyed by status code, from a typed response map */
+  responseBodies?: { [statusCode: string]: TypeInfo };
 }
@@ -23,6 +23,9 @@ export interface PathItemObject {
   put?: OperationObject;
   patch?: OperationObject;
   delete?: OperationObject;
+  head?: OperationObject;
+  options?: OperationObject;
+  trace?: OperationObject;
 }
 
 export interface OperationObject {
@@ -32,6 +35,8 @@ export interface OperationObject {
   parameters?: ParameterObject[];
   requestBody?: RequestBodyObject;
   responses?: ResponsesObject;
+  /** Specification extensions, e.g. x-express-regex */
+  [extension: `x-${string}`]: unknown;
 }
 
 export interface ParameterObject {
@@ -62,6 +67,7 @@ export interface SchemaObject {
   properties?: { [key: string]: SchemaObject | ReferenceObject };
   required?: string[];
   items?: SchemaObject | ReferenceObject;
+  oneOf?: (SchemaObject | ReferenceObject)[];
   additionalProperties?: boolean | SchemaObject | ReferenceObject;
   description?: string;
   format?: string;
@@ -0,0 +1,78 @@
+/**
+ * Name of the wildcard path parameter that stands in for the
+ * non-literal part of a RegExp route.
+ */
+export const REGEX_PATH_PARAM = 'path';
+
+const REGEX_META_CHARS = new Set([
+  '.',
+  '*',
+  '+',
+  '?',
+  '(',
+  ')',
+  '[',
+  ']',
+  '{',
+  '}',
+  '|',
+  '^',
+  '$',
+]);
+
+/**
+ * Converts the source of a RegExp route into a best-effort Express path.
+ * The literal path segments at the start of the pattern are kept and the
+ * remainder becomes a wildcard path parameter.
+ *
+ * @param source - The RegExp source, e.g. `^\/legacy\/.*`
+ * @returns An Express path, e.g. `/legacy/:path(*)`
+ *
+ * @example
+ * regexToExpressPath('\\/legacy\\/.*'); // '/legacy/:path(*)'
+ * regexToExpressPath('^\\/health$'); // '/health'
+ * regexToExpressPath('.*fly$'); // '/:path(*)'
+ */
+export function regexToExpressPath(source: string): string {
+  const pattern = source.replace(/^\^/, '').replace(/\$$/, '');
+  const { literal, complete } = readLiteralPrefix(pattern);
+
+  if (complete) {
+    return literal || '/';
+  }
+
+  // Only keep whole segments, the last one may be partially matched
+  const segmentPrefix = literal.slice(0, literal.lastIndexOf('/') + 1);
+  return `${segmentPrefix || '/'}:${REGEX_PATH_PARAM}(*)`;
+}
+
+/**
+ * Reads the literal (non-regex) prefix of a pattern, unescaping `\/` and
+ * friends. `complete` is true if the whole pattern is a literal.
+ */
+function readLiteralPrefix(pattern: string): {
+  literal: string;
+  complete: boolean;
+} {
+  let literal = '';
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+
+    if (char === '\\') {
+      const next = pattern[i + 1];
+      // Character classes like \d or \w end the literal prefix
+      if (next === undefined || /\w/.test(next)) {
+        return { literal, complete: false };
+      }
+      literal += next;
+      i++;
+    } else if (REGEX_META_CHARS.has(char)) {
+      return { literal, complete: false };
+    } else {
+      literal += char;
+    }
+  }
+
+  return { literal, complete: true };
+}
@@ -227,7 +227,12 @@ describe("End-to-End Integration", () => {
     // ASSERT - All operations have responses
     expect(spec.paths["/health"].get?.responses?.["200"]).toBeDefined();
     expect(spec.paths["/api/users"].get?.responses?.["200"]).toBeDefined();
-    expect(spec.paths["/api/users"].post?.responses?.["200"]).toBeDefined();
+    expect(spec.paths["/api/users"].post?.responses).toEqual({
+      "201": { description: "Created" },
+    });
+    expect(spec.paths["/api/users/{id}"].delete?.responses).toEqual({
+      "204": { description: "No Content" },
+    });
 
     // Count total number of paths
     const pathCount = Object.keys(spec.paths).length;
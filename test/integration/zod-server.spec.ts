@@ -162,17 +162,60 @@ describe('Zod Server E2E', () => {
     // Components.schemas exists even if empty
     expect(spec.components?.schemas).toBeDefined();
 
-    // Note: Zod-inferred types (using z.infer<typeof Schema>) cannot be
-    // automatically extracted to OpenAPI schemas due to their complex
-    // conditional type nature. This is a known limitation when using Zod.
-    //
-    // Workaround: Use direct TypeScript interfaces/types instead of z.infer<>
-    // for better OpenAPI generation, or manually define schemas.
-    //
-    // The tool still correctly discovers all routes and extracts:
+    // Schemas of Zod-inferred types (using z.infer<typeof Schema>) are built
+    // from the Zod schemas; the tool also discovers all routes and extracts:
     // - Operation IDs, summaries, descriptions
     // - Path parameters
-    // - Query parameters (when types are resolvable)
+    // - Query parameters
+  });
+
+  it('should preserve Zod constraints in schemas', async () => {
+    const spec = await generateOpenApiSpec({
+      entryPoint: ZOD_SERVER_PATH,
+      title: 'Zod API',
+      version: '1.0.0',
+    });
+
+    // POST /users - body schema keeps min, email, int/positive and default
+    expect(spec.components?.schemas?.CreateUserRequest).toEqual({
+      type: 'object',
+      properties: {
+        name: { type: 'string', minLength: 1 },
+        email: { type: 'string', format: 'email' },
+        age: { type: 'integer', minimum: 0, exclusiveMinimum: true },
+        role: {
+          type: 'string',
+          enum: ['admin', 'user', 'guest'],
+          default: 'user',
+        },
+      },
+      required: ['name', 'email'],
+    });
+
+    // GET /users/:id - uuid path parameter
+    const idParam = spec.paths['/users/{id}']?.get?.parameters?.find(
+      (p) => 'name' in p && p.name === 'id'
+    );
+    expect(idParam && 'schema' in idParam && idParam.schema).toEqual({
+      type: 'string',
+      format: 'uuid',
+    });
+
+    // GET /users - query parameters describe the input before transforms
+    const pageParam = spec.paths['/users']?.get?.parameters?.find(
+      (p) => 'name' in p && p.name === 'page'
+    );
+    expect(pageParam && 'schema' in pageParam && pageParam.schema).toEqual({
+      type: 'string',
+      default: '1',
+    });
+
+    // POST /orders - nested array constraints
+    const orderSchema = spec.components?.schemas?.CreateOrderRequest;
+    expect(orderSchema?.properties?.items).toMatchObject({
+      type: 'array',
+      minItems: 1,
+    });
   });
 
   it('should maintain all HTTP methods for each path', async () => {
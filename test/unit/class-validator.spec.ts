@@ -0,0 +1,184 @@
+import { describe, it, expect } from 'vitest';
+import { Project, Node } from 'ts-morph';
+import {
+  getValidatedClass,
+  applyClassValidatorConstraints,
+} from '../../src/core/class-validator.mjs';
+
+function getTypeNode(project: Project, alias: string): Node {
+  return project
+    .getSourceFileOrThrow('test.ts')
+    .getTypeAliasOrThrow(alias)
+    .getTypeNodeOrThrow();
+}
+
+describe('class-validator', () => {
+  it('should apply decorator constraints to the class schema', () => {
+    // ARRANGE
+    const project = new Project({ useInMemoryFileSystem: true });
+    project.createSourceFile(
+      'test.ts',
+      `
+      import {
+        IsEmail, IsOptional, IsInt, Min, Max, Length, Matches, IsEnum, IsIn,
+        IsString, ArrayMaxSize, ValidateNested,
+      } from 'class-validator';
+      import { Type, Expose, Exclude } from 'class-transformer';
+
+      enum Role { Admin = 'admin', User = 'user' }
+
+      class AddressDto {
+        @IsString() city: string;
+      }
+
+      class CreateUserDto {
+        @IsEmail() email: string;
+        @Length(3, 20) @Matches(/^[a-z]+$/) username: string;
+        @IsOptional() @IsInt() @Min(18) @Max(120) age?: number;
+        @IsEnum(Role) role: Role;
+        @IsIn(['light', 'dark']) theme: string;
+        @ArrayMaxSize(5) @IsString({ each: true }) tags: string[];
+        @ValidateNested() @Type(() => AddressDto) address: AddressDto;
+        @Expose({ name: 'display_name' }) @IsString() displayName: string;
+        @Exclude() password: string;
+      }
+
+      type Body = CreateUserDto;
+    `,
+    );
+    const baseSchema = {
+      type: 'object',
+      properties: {
+        email: { type: 'string' },
+        username: { type: 'string' },
+        age: { type: 'number' },
+        role: { type: 'string', enum: ['admin', 'user'] },
+        theme: { type: 'string' },
+        tags: { type: 'array', items: {} },
+        address: { type: 'object', properties: { city: { type: 'string' } } },
+        displayName: { type: 'string' },
+        password: { type: 'string' },
+      },
+      required: [
+        'email',
+        'username',
+        'role',
+        'theme',
+        'tags',
+        'address',
+        'displayName',
+        'password',
+      ],
+    };
+
+    // ACT
+    const classDecl = getValidatedClass(getTypeNode(project, 'Body'));
+    const result = applyClassValidatorConstraints(baseSchema, classDecl!);
+
+    // ASSERT
+    expect(classDecl?.getName()).toBe('CreateUserDto');
+    expect(result.schema).toEqual({
+      type: 'object',
+      properties: {
+        email: { type: 'string', format: 'email' },
+        username: {
+          type: 'string',
+          minLength: 3,
+          maxLength: 20,
+          pattern: '^[a-z]+$',
+        },
+        age: { type: 'integer', minimum: 18, maximum: 120 },
+        role: { type: 'string', enum: ['admin', 'user'] },
+        theme: { type: 'string', enum: ['light', 'dark'] },
+        tags: { type: 'array', items: { type: 'string' }, maxItems: 5 },
+        address: { $ref: '#/components/schemas/AddressDto' },
+        display_name: { type: 'string' },
+      },
+      required: [
+        'email',
+        'username',
+        'role',
+        'theme',
+        'tags',
+        'address',
+        'display_name',
+      ],
+    });
+    expect(result.nestedClasses.map((c) => c.getName())).toEqual([
+      'AddressDto',
+    ]);
+  });
+
+  it('should ignore classes and decorators not from class-validator', () => {
+    // ARRANGE
+    const project = new Project({ useInMemoryFileSystem: true });
+    project.createSourceFile(
+      'test.ts',
+      `
+      import { Column } from 'typeorm';
+
+      class UserEntity {
+        @Column() name: string;
+      }
+
+      interface UserShape { name: string }
+
+      type Entity = UserEntity;
+      type Shape = UserShape;
+    `,
+    );
+
+    // ACT
+    const entityClass = getValidatedClass(getTypeNode(project, 'Entity'));
+    const shapeClass = getValidatedClass(getTypeNode(project, 'Shape'));
+
+    // ASSERT
+    expect(entityClass).toBeNull();
+    expect(shapeClass).toBeNull();
+  });
+
+  it('should replace the converted schema of enum properties', () => {
+    // ARRANGE
+    const project = new Project({ useInMemoryFileSystem: true });
+    project.createSourceFile(
+      'test.ts',
+      `
+      import { IsEnum } from 'class-validator';
+
+      enum Role { Admin = 'admin', User = 'user' }
+      const Priority = { Low: 1, High: 2 } as const;
+
+      class UpdateUserDto {
+        @IsEnum(Role) role: Role;
+        @IsEnum(Priority) priority: number;
+        @IsEnum(Role, { each: true }) roles: Role[];
+      }
+
+      type Body = UpdateUserDto;
+    `,
+    );
+    const baseSchema = {
+      type: 'object',
+      properties: {
+        role: { anyOf: [] },
+        priority: { type: 'number' },
+        roles: { type: 'array', items: { anyOf: [] } },
+      },
+      required: ['role', 'priority', 'roles'],
+    };
+
+    // ACT
+    const classDecl = getValidatedClass(getTypeNode(project, 'Body'));
+    const result = applyClassValidatorConstraints(baseSchema, classDecl!);
+
+    // ASSERT
+    expect(result.schema.properties).toEqual({
+      role: { type: 'string', enum: ['admin', 'user'] },
+      priority: { type: 'number', enum: [1, 2] },
+      roles: {
+        type: 'array',
+        items: { type: 'string', enum: ['admin', 'user'] },
+      },
+    });
+  });
+});
@@ -1,5 +1,10 @@
 import { describe, it, expect, beforeAll, afterAll, vi, beforeEach } from 'vitest';
-import { createProgram } from '../../src/cli/commands.mjs';
+import {
+  createProgram,
+  parseDecoratorMappings,
+  parseAllMethods,
+  parseValidationMiddleware,
+} from '../../src/cli/commands.mjs';
 import { writeFileSync, mkdirSync, rmSync, readFileSync, existsSync } from 'fs';
 import { join } from 'path';
 
@@ -224,3 +229,73 @@ describe('CLI Commands', () => {
     );
   });
 });
+
+describe('Decorator Mappings', () => {
+  it('should parse decorator mappings into a routing config', () => {
+    // ACT
+    const config = parseDecoratorMappings([
+      'controller:ApiController',
+      'get:HttpGet',
+      'POST:HttpPost',
+      'query:Search',
+      'module:@acme/http',
+    ]);
+
+    // ASSERT
+    expect(config).toEqual({
+      controllerDecorators: ['ApiController'],
+      routeDecorators: { HttpGet: 'get', HttpPost: 'post' },
+      queryDecorators: ['Search'],
+      modules: ['@acme/http'],
+    });
+  });
+
+  it('should reject unknown decorator kinds', () => {
+    // ACT & ASSERT
+    expect(() => parseDecoratorMappings(['service:Injectable'])).toThrow(
+      'Invalid decorator kind "service"',
+    );
+  });
+});
+
+describe('All Methods', () => {
+  it('should normalize HTTP methods to lower case', () => {
+    // ACT
+    const methods = parseAllMethods(['GET', 'post']);
+
+    // ASSERT
+    expect(methods).toEqual(['get', 'post']);
+  });
+
+  it('should reject unknown HTTP methods', () => {
+    // ACT & ASSERT
+    expect(() => parseAllMethods(['get', 'foo'])).toThrow(
+      'Invalid HTTP method "foo" in --all-methods',
+    );
+  });
+});
+
+describe('Validation Middleware Mappings', () => {
+  it('should parse validation middleware mappings', () => {
+    // ACT
+    const configs = parseValidationMiddleware([
+      'validateBody:body',
+      'validators.query:query:1',
+      'validate:request',
+    ]);
+
+    // ASSERT
+    expect(configs).toEqual([
+      { name: 'validateBody', target: 'body' },
+      { name: 'validators.query', target: 'query', schemaArgument: 1 },
+      { name: 'validate', target: 'request' },
+    ]);
+  });
+
+  it('should reject unknown validation targets', () => {
+    // ACT & ASSERT
+    expect(() => parseValidationMiddleware(['validate:cookies'])).toThrow(
+      'Invalid validation target "cookies" in "validate:cookies", expected body, query, params, headers, request',
+    );
+  });
+});
@@ -0,0 +1,245 @@
+import { describe, it, expect } from 'vitest';
+import { Project } from 'ts-morph';
+import { discoverDecoratedRoutes } from '../../src/core/decorator-discovery.mjs';
+
+describe('Decorator Discovery', () => {
+  it('should compose paths from controller and method decorators', () => {
+    // ARRANGE
+    const project = new Project({ useInMemoryFileSystem: true });
+    const file = project.createSourceFile(
+      'user-controller.ts',
+      `
+      import { Controller, Get, Post } from 'routing-controllers';
+
+      @Controller('/users')
+      export class UserController {
+        @Get()
+        list() {}
+
+        @Get('/:id')
+        getById() {}
+
+        @Post()
+        create() {}
+
+        helper() {}
+      }
+    `,
+    );
+
+    // ACT
+    const routes = discoverDecoratedRoutes([file]);
+
+    // ASSERT
+    expect(
+      routes.map((r) => `${r.method} ${r.path} ${r.handlerName}`),
+    ).toEqual([
+      'get /users UserController.list',
+      'get /users/:id UserController.getById',
+      'post /users UserController.create',
+    ]);
+  });
+
+  it('should extract request types from decorated parameters and the return type', () => {
+    // ARRANGE
+    const project = new Project({ useInMemoryFileSystem: true });
+    const file = project.createSourceFile(
+      'user-controller.ts',
+      `
+      import {
+        JsonController,
+        Put,
+        Param,
+        QueryParam,
+        Body,
+      } from 'routing-controllers';
+
+      interface User { id: number; name: string }
+      interface UpdateUser { name: string }
+
+      @JsonController('/users')
+      export class UserController {
+        @Put('/:id')
+        async update(
+          @Param('id') id: number,
+          @QueryParam('notify') notify?: boolean,
+          @Body() body: UpdateUser,
+        ): Promise<User> {}
+      }
+    `,
+    );
+
+    // ACT
+    const [route] = discoverDecoratedRoutes([file]);
+
+    // ASSERT
+    expect(route.requestTypes?.pathParams?.typeText).toBe('{ id: number }');
+    expect(route.requestTypes?.queryParams?.typeText).toBe(
+      '{ notify?: boolean }',
+    );
+    expect(route.requestTypes?.bodyParams?.typeName).toBe('UpdateUser');
+    expect(route.requestTypes?.responseBody?.typeName).toBe('User');
+  });
+
+  it('should expand imported aliases and enums of single-field parameters', () => {
+    // ARRANGE
+    const project = new Project({
+      useInMemoryFileSystem: true,
+      compilerOptions: { strict: true },
+    });
+    project.createSourceFile(
+      'types.ts',
+      `
+      export type UserId = string;
+      export enum Role { Admin = 'admin', User = 'user' }
+      export enum Level { Low, High }
+    `,
+    );
+    const file = project.createSourceFile(
+      'user-controller.ts',
+      `
+      import { Controller, Get, Param, QueryParam } from 'routing-controllers';
+      import { UserId, Role, Level } from './types';
+
+      @Controller('/users')
+      export class UserController {
+        @Get('/:id')
+        getById(
+          @Param('id') id: UserId,
+          @QueryParam('role') role?: Role,
+          @QueryParam('levels') levels: Level[] = [],
+        ) {}
+      }
+    `,
+    );
+
+    // ACT
+    const [route] = discoverDecoratedRoutes([file]);
+
+    // ASSERT
+    expect(route.requestTypes?.pathParams?.typeText).toBe('{ id: string }');
+    expect(route.requestTypes?.queryParams?.typeText).toBe(
+      '{ role?: "admin" | "user"; levels?: (0 | 1)[] }',
+    );
+  });
+
+  it('should recognize configured decorator names', () => {
+    // ARRANGE
+    const project = new Project({ useInMemoryFileSystem: true });
+    const file = project.createSourceFile(
+      'order-controller.ts',
+      `
+      interface OrderFilter { status?: string }
+
+      @ApiController('orders')
+      export class OrderController {
+        @HttpGet('/')
+        list(@Search() filter: OrderFilter) {}
+      }
+    `,
+    );
+
+    // ACT
+    const routes = discoverDecoratedRoutes([file], {
+      controllerDecorators: ['ApiController'],
+      routeDecorators: { HttpGet: 'get' },
+      queryDecorators: ['Search'],
+    });
+
+    // ASSERT
+    expect(routes).toHaveLength(1);
+    expect(routes[0].path).toBe('/orders');
+    expect(routes[0].requestTypes?.queryParams?.typeName).toBe('OrderFilter');
+  });
+
+  it('should read the path of an options object', () => {
+    // ARRANGE
+    const project = new Project({ useInMemoryFileSystem: true });
+    const file = project.createSourceFile(
+      'user-controller.ts',
+      `
+      import { Controller, Get } from '@nestjs/common';
+
+      const path = '/:id';
+
+      @Controller({ path: '/users', host: 'api.example.com' })
+      export class UserController {
+        @Get({ path })
+        getById() {}
+      }
+
+      @Controller({ host: 'admin.example.com' })
+      export class AdminController {
+        @Get('/status')
+        status() {}
+      }
+    `,
+    );
+
+    // ACT
+    const routes = discoverDecoratedRoutes([file]);
+
+    // ASSERT
+    expect(routes.map((r) => `${r.method} ${r.path}`)).toEqual([
+      'get /users/:id',
+      'get /status',
+    ]);
+  });
+
+  it('should only recognize default decorators imported from a decorator module', () => {
+    // ARRANGE
+    const project = new Project({ useInMemoryFileSystem: true });
+    const file = project.createSourceFile(
+      'controllers.ts',
+      `
+      import * as rc from 'routing-controllers';
+      import { Controller as Routes, Get as HttpGet } from 'routing-controllers';
+      import { Get as Cached } from './cache';
+      import { Get as Fetch } from '@acme/http';
+
+      function Controller(path: string): ClassDecorator {
+        return () => {};
+      }
+
+      @Controller('/local')
+      export class LocalController {
+        @HttpGet('/ignored')
+        list() {}
+      }
+
+      @Routes('/users')
+      export class UserController {
+        @HttpGet('/:id')
+        getById() {}
+
+        @Cached('/cached')
+        cached() {}
+
+        @Fetch('/fetched')
+        fetched() {}
+      }
+
+      @rc.JsonController('/orders')
+      export class OrderController {
+        @rc.Post()
+        create(@rc.Body() body: { total: number }) {}
+      }
+    `,
+    );
+
+    // ACT
+    const routes = discoverDecoratedRoutes([file], { modules: ['@acme/http'] });
+
+    // ASSERT
+    expect(routes.map((r) => `${r.method} ${r.path} ${r.handlerName}`)).toEqual(
+      [
+        'get /users/:id UserController.getById',
+        'get /users/fetched UserController.fetched',
+        'post /orders OrderController.create',
+      ],
+    );
+    expect(routes[2].requestTypes?.bodyParams?.typeText).toBe(
+      '{ total: number }',
+    );
+  });
+});
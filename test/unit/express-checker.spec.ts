@@ -1,5 +1,6 @@
 import { describe, it, expect } from "vitest";
 import { Project } from "ts-morph";
+import { join } from "path";
 import { isExpressApp, isRouter } from "../../src/ast/express-checker.mjs";
 
 describe("Express Checker", () => {
@@ -69,6 +70,45 @@ describe("Express Checker", () => {
       // ASSERT
       expect(result).toBe(false);
     });
+
+    it("should identify express app created through an aliased import", () => {
+      // ARRANGE
+      const project = new Project({ useInMemoryFileSystem: true });
+      const file = project.createSourceFile(
+        "test.ts",
+        `
+        import e from 'express';
+        const app = e();
+      `,
+      );
+      const appVar = file.getVariableDeclarationOrThrow("app");
+
+      // ACT
+      const result = isExpressApp(appVar);
+
+      // ASSERT
+      expect(result).toBe(true);
+    });
+
+    it("should identify app annotated with the Express type", () => {
+      // ARRANGE
+      const project = new Project({ useInMemoryFileSystem: true });
+      const file = project.createSourceFile(
+        "test.ts",
+        `
+        import { Express } from 'express';
+        import { createApp } from './factory';
+        const app: Express = createApp();
+      `,
+      );
+      const appVar = file.getVariableDeclarationOrThrow("app");
+
+      // ACT
+      const result = isExpressApp(appVar);
+
+      // ASSERT
+      expect(result).toBe(true);
+    });
   });
 
   describe("isRouter", () => {
@@ -136,5 +176,86 @@ describe("Express Checker", () => {
       // ASSERT
       expect(result).toBe(false);
     });
+
+    it("should identify routers through the resolved Express type", () => {
+      // ARRANGE
+      const project = new Project();
+      const file = project.createSourceFile(
+        join(process.cwd(), "test", "virtual-router.ts"),
+        `
+        import { Router } from 'express';
+        declare function makeRouter(): Router;
+        const router = makeRouter();
+      `,
+      );
+      const routerVar = file.getVariableDeclarationOrThrow("router");
+
+      // ACT
+      const result = isRouter(routerVar);
+
+      // ASSERT
+      expect(result).toBe(true);
+    });
+
+    it("should identify routers from configured factory functions", () => {
+      // ARRANGE
+      const project = new Project({ useInMemoryFileSystem: true });
+      const file = project.createSourceFile(
+        "test.ts",
+        `
+        import { makeRouter } from './router-factory';
+        const router = makeRouter();
+      `,
+      );
+      const routerVar = file.getVariableDeclarationOrThrow("router");
+
+      // ACT
+      const withoutConfig = isRouter(routerVar);
+      const withConfig = isRouter(routerVar, { routerFactories: ["makeRouter"] });
+
+      // ASSERT
+      expect(withoutConfig).toBe(false);
+      expect(withConfig).toBe(true);
+    });
+
+    it("should identify routers from configured router modules", () => {
+      // ARRANGE
+      const project = new Project({ useInMemoryFileSystem: true });
+      const file = project.createSourceFile(
+        "test.ts",
+        `
+        import PromiseRouter from 'express-promise-router';
+        const router = PromiseRouter();
+      `,
+      );
+      const routerVar = file.getVariableDeclarationOrThrow("router");
+
+      // ACT
+      const result = isRouter(routerVar, {
+        routerModules: ["express-promise-router"],
+      });
+
+      // ASSERT
+      expect(result).toBe(true);
+    });
+
+    it("should identify renamed Router import", () => {
+      // ARRANGE
+      const project = new Project({ useInMemoryFileSystem: true });
+      const file = project.createSourceFile(
+        "test.ts",
+        `
+        import { Router as createRouter } from 'express';
+        const router = createRouter();
+      `,
+      );
+      const routerVar = file.getVariableDeclarationOrThrow("router");
+
+      // ACT
+      const result = isRouter(routerVar);
+
+      // ASSERT
+      expect(result).toBe(true);
+    });
   });
 });
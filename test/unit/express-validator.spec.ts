@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { Project, SyntaxKind } from 'ts-morph';
+import { extractExpressValidatorTypes } from '../../src/core/express-validator.mjs';
+
+function getRouteArguments(code: string) {
+  const project = new Project({ useInMemoryFileSystem: true });
+  const file = project.createSourceFile('test.ts', code);
+  const call = file
+    .getDescendantsOfKind(SyntaxKind.CallExpression)
+    .find((c) => c.getExpression().getText().startsWith('router.'))!;
+  return call.getArguments().slice(1);
+}
+
+describe('Express Validator', () => {
+  it('should build schemas from validation chains', () => {
+    // ARRANGE
+    const args = getRouteArguments(`
+      import { body, query, param, header } from 'express-validator';
+
+      router.post(
+        '/orgs/:orgId/signup',
+        param('orgId').isUUID(),
+        body('email').isEmail().normalizeEmail(),
+        body('age').optional().isInt({ min: 18, max: 120 }),
+        body('name').trim().isLength({ min: 3, max: 20 }).withMessage('Invalid name'),
+        body('role').default('user').isIn(['admin', 'user']),
+        body('address.city').not().isEmpty(),
+        query('invite').optional().matches(/^[A-Z]{6}$/),
+        header('x-tenant-id').exists(),
+        signup,
+      );
+    `);
+
+    // ACT
+    const types = extractExpressValidatorTypes(args);
+
+    // ASSERT
+    expect(types?.pathParams?.schema).toEqual({
+      type: 'object',
+      properties: { orgId: { type: 'string', format: 'uuid' } },
+      required: ['orgId'],
+    });
+    expect(types?.bodyParams?.schema).toEqual({
+      type: 'object',
+      properties: {
+        email: { type: 'string', format: 'email' },
+        age: { type: 'integer', minimum: 18, maximum: 120 },
+        name: { type: 'string', minLength: 3, maxLength: 20 },
+        role: { type: 'string', default: 'user', enum: ['admin', 'user'] },
+        address: {
+          type: 'object',
+          properties: { city: { type: 'string', minLength: 1 } },
+          required: ['city'],
+        },
+      },
+      required: ['email', 'name', 'address'],
+    });
+    expect(types?.queryParams?.schema).toEqual({
+      type: 'object',
+      properties: { invite: { type: 'string', pattern: '^[A-Z]{6}$' } },
+    });
+    expect(types?.headerParams?.schema?.required).toEqual(['x-tenant-id']);
+  });
+
+  it('should read referenced chain arrays and checkSchema', () => {
+    // ARRANGE
+    const args = getRouteArguments(`
+      import { body, checkSchema } from 'express-validator';
+
+      const itemValidation = [
+        body('items').isArray({ min: 1 }),
+        body('items.*.quantity').isInt({ min: 1 }),
+      ];
+
+      router.post(
+        '/orders',
+        itemValidation,
+        checkSchema({
+          coupon: { in: ['query'], optional: true, isLength: { options: { max: 10 } } },
+          priority: { in: 'body', isIn: { options: [['low', 'high']] } },
+        }),
+        createOrder,
+      );
+    `);
+
+    // ACT
+    const types = extractExpressValidatorTypes(args);
+
+    // ASSERT
+    expect(types?.bodyParams?.schema).toEqual({
+      type: 'object',
+      properties: {
+        items: {
+          type: 'array',
+          minItems: 1,
+          items: {
+            type: 'object',
+            properties: { quantity: { type: 'integer', minimum: 1 } },
+            required: ['quantity'],
+          },
+        },
+        priority: { type: 'string', enum: ['low', 'high'] },
+      },
+      required: ['items', 'priority'],
+    });
+    expect(types?.queryParams?.schema).toEqual({
+      type: 'object',
+      properties: { coupon: { type: 'string', maxLength: 10 } },
+    });
+  });
+
+  it('should ignore middleware not imported from express-validator', () => {
+    // ARRANGE
+    const args = getRouteArguments(`
+      import { body } from './my-validators';
+
+      router.post('/users', body('email'), createUser);
+    `);
+
+    // ACT
+    const types = extractExpressValidatorTypes(args);
+
+    // ASSERT
+    expect(types).toBeNull();
+  });
+});
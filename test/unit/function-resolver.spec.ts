@@ -1,6 +1,9 @@
 import { describe, it, expect } from 'vitest';
 import { Project, SyntaxKind } from 'ts-morph';
-import { resolveHandler } from '../../src/ast/function-resolver.mjs';
+import {
+  resolveHandler,
+  findReturnedVariables,
+} from '../../src/ast/function-resolver.mjs';
 
 describe('Function Resolver', () => {
   it('should resolve inline arrow function', () => {
@@ -354,4 +357,234 @@ describe('Function Resolver', () => {
       expect(handler?.node.getText()).toContain('{ secure: boolean }');
     });
   });
+
+  describe('Class Method Handlers', () => {
+    it('should resolve a method reference on a controller instance', () => {
+      // ARRANGE
+      const project = new Project({ useInMemoryFileSystem: true });
+      const file = project.createSourceFile(
+        'test.ts',
+        `
+        class UserController {
+          getById(req, res) {
+            res.json({});
+          }
+        }
+        const userController = new UserController();
+        router.get('/users/:id', userController.getById);
+      `,
+      );
+      const callExpr = file
+        .getDescendantsOfKind(SyntaxKind.CallExpression)
+        .find((call) => call.getExpression().getText() === 'router.get');
+
+      // ACT
+      const handler = resolveHandler(callExpr!);
+
+      // ASSERT
+      expect(handler?.kind).toBe(SyntaxKind.MethodDeclaration);
+      expect(handler?.name).toBe('UserController.getById');
+    });
+
+    it('should unwrap bound methods and arrow function properties', () => {
+      // ARRANGE
+      const project = new Project({ useInMemoryFileSystem: true });
+      const file = project.createSourceFile(
+        'test.ts',
+        `
+        class UserController {
+          constructor(router) {
+            router.get('/a', this.list.bind(this));
+            router.get('/b', asyncHandler(this.create));
+          }
+          list(req, res) {}
+          create = async (req, res) => {};
+        }
+      `,
+      );
+      const [listCall, createCall] = file
+        .getDescendantsOfKind(SyntaxKind.CallExpression)
+        .filter((call) => call.getExpression().getText() === 'router.get');
+
+      // ACT
+      const listHandler = resolveHandler(listCall);
+      const createHandler = resolveHandler(createCall);
+
+      // ASSERT
+      expect(listHandler?.kind).toBe(SyntaxKind.MethodDeclaration);
+      expect(listHandler?.name).toBe('UserController.list');
+      expect(createHandler?.kind).toBe(SyntaxKind.ArrowFunction);
+      expect(createHandler?.name).toBe('UserController.create');
+    });
+  });
+
+  describe('Object Literal Handlers', () => {
+    it('should resolve property and element access handlers on handler maps', () => {
+      // ARRANGE
+      const project = new Project({ useInMemoryFileSystem: true });
+      const file = project.createSourceFile(
+        'test.ts',
+        `
+        function getUser(req, res) {}
+
+        const userHandlers = {
+          list: async (req, res) => {},
+          getUser,
+          remove(req, res) {},
+        };
+
+        router.get('/users', userHandlers.list);
+        router.get('/users/:id', userHandlers['getUser']);
+        router.delete('/users/:id', userHandlers.remove);
+      `,
+      );
+      const calls = file
+        .getDescendantsOfKind(SyntaxKind.CallExpression)
+        .filter((call) => call.getExpression().getText().startsWith('router.'));
+
+      // ACT
+      const handlers = calls.map((call) => resolveHandler(call));
+
+      // ASSERT
+      expect(handlers.map((h) => h?.name)).toEqual([
+        'userHandlers.list',
+        'userHandlers.getUser',
+        'userHandlers.remove',
+      ]);
+      expect(handlers.map((h) => h?.kind)).toEqual([
+        SyntaxKind.ArrowFunction,
+        SyntaxKind.FunctionDeclaration,
+        SyntaxKind.MethodDeclaration,
+      ]);
+    });
+
+    it('should resolve handlers through spread objects and namespace imports', () => {
+      // ARRANGE
+      const project = new Project({ useInMemoryFileSystem: true });
+      project.createSourceFile(
+        'order-handlers.ts',
+        `
+        export async function listOrders(req, res) {}
+        export const orderHandlers = { create: async (req, res) => {} };
+      `,
+      );
+      const file = project.createSourceFile(
+        'main.ts',
+        `
+        import * as orders from './order-handlers';
+        import { orderHandlers } from './order-handlers';
+
+        const allHandlers = { ...orderHandlers };
+
+        router.get('/orders', orders.listOrders);
+        router.post('/orders', allHandlers.create);
+      `,
+      );
+      const [listCall, createCall] = file
+        .getDescendantsOfKind(SyntaxKind.CallExpression)
+        .filter((call) => call.getExpression().getText().startsWith('router.'));
+
+      // ACT
+      const listHandler = resolveHandler(listCall);
+      const createHandler = resolveHandler(createCall);
+
+      // ASSERT
+      expect(listHandler?.kind).toBe(SyntaxKind.FunctionDeclaration);
+      expect(listHandler?.name).toBe('orders.listOrders');
+      expect(createHandler?.kind).toBe(SyntaxKind.ArrowFunction);
+      expect(createHandler?.name).toBe('allHandlers.create');
+    });
+
+    it('should name object members after the object accessed at the route', () => {
+      // ARRANGE
+      const project = new Project({ useInMemoryFileSystem: true });
+      project.createSourceFile(
+        'handlers.ts',
+        `
+        const extra = { remove: async (req, res) => {} };
+        export const merged = { ...extra };
+        export default { list: async (req, res) => {} };
+      `,
+      );
+      const file = project.createSourceFile(
+        'main.ts',
+        `
+        import userHandlers, { merged } from './handlers';
+
+        router.delete('/users/:id', merged.remove);
+        router.get('/users', userHandlers.list);
+        router.get('/admins', (() => merged)().remove);
+      `,
+      );
+      const calls = file
+        .getDescendantsOfKind(SyntaxKind.CallExpression)
+        .filter((call) => call.getExpression().getText().startsWith('router.'));
+
+      // ACT
+      const handlers = calls.map((call) => resolveHandler(call));
+
+      // ASSERT
+      expect(handlers.map((h) => h?.name)).toEqual([
+        'merged.remove',
+        'userHandlers.list',
+        'extra.remove',
+      ]);
+    });
+  });
+
+  describe('Annotated Handlers', () => {
+    it('should resolve handlers wrapped in satisfies and as clauses', () => {
+      // ARRANGE
+      const project = new Project({ useInMemoryFileSystem: true });
+      const file = project.createSourceFile(
+        'test.ts',
+        `
+        import { RequestHandler } from 'express';
+
+        const getUser = (async (req, res) => {}) satisfies RequestHandler<{ id: string }>;
+
+        router.get('/users/:id', getUser);
+        router.post('/users', ((req, res) => {}) as RequestHandler);
+      `,
+      );
+      const calls = file
+        .getDescendantsOfKind(SyntaxKind.CallExpression)
+        .filter((call) => call.getExpression().getText().startsWith('router.'));
+
+      // ACT
+      const handlers = calls.map((call) => resolveHandler(call));
+
+      // ASSERT
+      expect(handlers.map((h) => h?.kind)).toEqual([
+        SyntaxKind.ArrowFunction,
+        SyntaxKind.ArrowFunction,
+      ]);
+      expect(handlers[0]?.name).toBe('getUser');
+    });
+  });
+
+  describe('Returned Variables', () => {
+    it('should find the local variable returned by a function', () => {
+      // ARRANGE
+      const project = new Project({ useInMemoryFileSystem: true });
+      const file = project.createSourceFile(
+        'test.ts',
+        `
+        import { Router } from 'express';
+        export function createUserRouter(deps) {
+          const r = Router();
+          const helper = () => { const other = 1; return other; };
+          return r;
+        }
+      `,
+      );
+      const func = file.getFunctionOrThrow('createUserRouter');
+
+      // ACT
+      const variables = findReturnedVariables(func);
+
+      // ASSERT
+      expect(variables.map((v) => v.getName())).toEqual(['r']);
+    });
+  });
 });
@@ -0,0 +1,120 @@
+import { describe, it, expect } from 'vitest';
+import { Project } from 'ts-morph';
+import { inferHeaders } from '../../src/core/header-inference.mjs';
+
+function getFunctions(code: string) {
+  const project = new Project({ useInMemoryFileSystem: true });
+  const file = project.createSourceFile('test.ts', code);
+  return file.getFunctions();
+}
+
+describe('Header Inference', () => {
+  it('should find headers read through req.header(), req.get() and req.headers', () => {
+    // ARRANGE
+    const [handler] = getFunctions(`
+      import { Request, Response } from 'express';
+
+      function getUser(req: Request, res: Response) {
+        const requestId = req.header('x-request-id');
+        const etag = req.get('If-None-Match');
+        const { 'x-api-version': version } = req.headers;
+        const locale = req.headers['accept-language'] ?? req.headers.locale;
+        const type = req.get('content-type');
+        res.json(getTenant(req));
+      }
+
+      function getTenant(request: Request) {
+        return request.get('X-Tenant-Id');
+      }
+    `);
+
+    // ACT
+    const headers = inferHeaders([handler]);
+
+    // ASSERT
+    expect(headers).toEqual([
+      { name: 'x-request-id', required: false },
+      { name: 'If-None-Match', required: false },
+      { name: 'x-api-version', required: false },
+      { name: 'accept-language', required: false },
+      { name: 'locale', required: false },
+      { name: 'X-Tenant-Id', required: false },
+    ]);
+  });
+
+  it('should mark headers required when requests without them are rejected', () => {
+    // ARRANGE
+    const [requireTenant, requireKey, handler] = getFunctions(`
+      import { Request, Response, NextFunction } from 'express';
+
+      function requireTenant(req: Request, res: Response, next: NextFunction) {
+        const tenantId = req.header('x-tenant-id');
+        if (!tenantId) {
+          return res.status(400).json({ error: 'Missing tenant' });
+        }
+        next();
+      }
+
+      function requireKey(req: Request, res: Response, next: NextFunction) {
+        const { 'x-api-key': apiKey } = req.headers;
+        if (apiKey === undefined) {
+          return next(new Error('Missing API key'));
+        }
+        next();
+      }
+
+      function updateUser(req: Request, res: Response) {
+        if (!req.get('If-Match')) {
+          throw new Error('Precondition required');
+        }
+        const trace = req.get('x-trace-id');
+        if (!trace) {
+          console.log('untraced request');
+        }
+        res.sendStatus(204);
+      }
+    `);
+
+    // ACT
+    const headers = inferHeaders([requireTenant, requireKey, handler]);
+
+    // ASSERT
+    expect(headers).toEqual([
+      { name: 'x-tenant-id', required: true },
+      { name: 'x-api-key', required: true },
+      { name: 'If-Match', required: true },
+      { name: 'x-trace-id', required: false },
+    ]);
+  });
+
+  it('should ignore requests and rejections that belong to other functions', () => {
+    // ARRANGE
+    const [handler] = getFunctions(`
+      import { Request, Response, NextFunction } from 'express';
+
+      function listOrders(req: Request, res: Response, next: NextFunction) {
+        const upstream = requests.map((req) => req.get('x-upstream-id'));
+        const cache = { status: (code: number) => code };
+        const locale = req.get('accept-language');
+        if (!locale) {
+          cache.status(404);
+          fallbacks.forEach((next) => next('missing locale'));
+        }
+        const tenantId = req.get('x-tenant-id');
+        if (!tenantId) {
+          return next(new Error('Missing tenant'));
+        }
+        res.json(upstream);
+      }
+    `);
+
+    // ACT
+    const headers = inferHeaders([handler]);
+
+    // ASSERT
+    expect(headers).toEqual([
+      { name: 'accept-language', required: false },
+      { name: 'x-tenant-id', required: true },
+    ]);
+  });
+});
@@ -1,6 +1,9 @@
 import { describe, it, expect } from 'vitest';
 import { Project, SyntaxKind } from 'ts-morph';
-import { followImport } from '../../src/ast/import-follower.mjs';
+import {
+  followImport,
+  getReachableSourceFiles,
+} from '../../src/ast/import-follower.mjs';
 
 describe('Import Follower', () => {
   it('should follow named import', () => {
@@ -221,4 +224,40 @@ describe('Import Follower', () => {
     expect(resolved?.getText()).toContain('function getUsers');
     expect(resolved?.getName()).toBe('getUsers');
   });
+
+  it('should collect the files reachable through imports and re-exports', () => {
+    // ARRANGE
+    const project = new Project({ useInMemoryFileSystem: true });
+    project.createSourceFile('users.ts', `import { db } from './db';`);
+    project.createSourceFile('db.ts', `export const db = {};`);
+    project.createSourceFile('orders.ts', `export class Orders {}`);
+    project.createSourceFile('unused.ts', `import { db } from './db';`);
+    project.createSourceFile(
+      'controllers.ts',
+      `
+      export * from './users';
+      export { Orders } from './orders';
+    `,
+    );
+    const mainFile = project.createSourceFile(
+      'main.ts',
+      `
+      import express from 'express';
+      import * as controllers from './controllers';
+      import { db } from './db';
+    `,
+    );
+
+    // ACT
+    const files = getReachableSourceFiles(mainFile);
+
+    // ASSERT
+    expect(files.map((f) => f.getBaseName())).toEqual([
+      'main.ts',
+      'controllers.ts',
+      'db.ts',
+      'users.ts',
+      'orders.ts',
+    ]);
+  });
 });
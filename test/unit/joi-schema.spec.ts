@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { Project } from 'ts-morph';
+import { buildJoiSchema } from '../../src/core/joi-schema.mjs';
+
+describe('Joi Schema', () => {
+  it('should map Joi types, presence and constraints', () => {
+    // ARRANGE
+    const project = new Project({ useInMemoryFileSystem: true });
+    const file = project.createSourceFile(
+      'test.ts',
+      `
+      import Joi from 'joi';
+
+      const ROLES = ['admin', 'user'] as const;
+
+      const CreateUserSchema = Joi.object({
+        name: Joi.string().trim().max(50).required(),
+        email: Joi.string().email().required().messages({ 'any.required': 'Email is required' }),
+        age: Joi.number().integer().min(18).description('Age in years'),
+        role: Joi.string().valid(...ROLES).default('user'),
+        code: Joi.string().pattern(/^[A-Z]{3}$/).allow(null),
+        tags: Joi.array().items(Joi.string()).max(5),
+        contact: Joi.alternatives().try(Joi.string().email(), Joi.number()),
+      });
+    `,
+    );
+
+    // ACT
+    const schema = buildJoiSchema(
+      file.getVariableDeclarationOrThrow('CreateUserSchema').getNameNode(),
+    );
+
+    // ASSERT
+    expect(schema).toEqual({
+      type: 'object',
+      properties: {
+        name: { type: 'string', maxLength: 50 },
+        email: { type: 'string', format: 'email' },
+        age: { type: 'integer', minimum: 18, description: 'Age in years' },
+        role: { type: 'string', enum: ['admin', 'user'], default: 'user' },
+        code: { type: 'string', pattern: '^[A-Z]{3}$', nullable: true },
+        tags: { type: 'array', items: { type: 'string' }, maxItems: 5 },
+        contact: {
+          anyOf: [{ type: 'string', format: 'email' }, { type: 'number' }],
+        },
+      },
+      required: ['name', 'email'],
+    });
+  });
+
+  it('should follow imported schemas and ignore non-Joi expressions', () => {
+    // ARRANGE
+    const project = new Project({ useInMemoryFileSystem: true });
+    project.createSourceFile(
+      'schemas.ts',
+      `
+      import { Joi } from 'celebrate';
+
+      export const schemas = {
+        address: Joi.object().keys({ city: Joi.string().required() }),
+      };
+    `,
+    );
+    const file = project.createSourceFile(
+      'test.ts',
+      `
+      import { schemas } from './schemas';
+
+      const address = schemas.address;
+      const other = yup.object({ city: yup.string() });
+    `,
+    );
+
+    // ACT
+    const addressSchema = buildJoiSchema(
+      file.getVariableDeclarationOrThrow('address').getNameNode(),
+    );
+    const otherSchema = buildJoiSchema(
+      file.getVariableDeclarationOrThrow('other').getNameNode(),
+    );
+
+    // ASSERT
+    expect(addressSchema).toEqual({
+      type: 'object',
+      properties: { city: { type: 'string' } },
+      required: ['city'],
+    });
+    expect(otherSchema).toBeNull();
+  });
+});
@@ -0,0 +1,27 @@
+import { describe, it, expect } from 'vitest';
+import { regexToExpressPath } from '../../src/utils/regex-path.mjs';
+
+describe('Regex Path', () => {
+  it('should keep literal segments and add a wildcard parameter', () => {
+    // ARRANGE & ACT & ASSERT
+    expect(regexToExpressPath('\\/legacy\\/.*')).toBe('/legacy/:path(*)');
+  });
+
+  it('should return fully literal patterns as plain paths', () => {
+    // ARRANGE & ACT & ASSERT
+    expect(regexToExpressPath('^\\/health$')).toBe('/health');
+  });
+
+  it('should drop partially matched segments', () => {
+    // ARRANGE & ACT & ASSERT
+    expect(regexToExpressPath('^\\/users?\\/\\d+$')).toBe('/:path(*)');
+    expect(regexToExpressPath('\\/api\\/items\\/\\d+')).toBe(
+      '/api/items/:path(*)',
+    );
+  });
+
+  it('should fall back to a root wildcard when nothing is literal', () => {
+    // ARRANGE & ACT & ASSERT
+    expect(regexToExpressPath('.*fly$')).toBe('/:path(*)');
+  });
+});
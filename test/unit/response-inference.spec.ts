@@ -0,0 +1,143 @@
+import { describe, it, expect } from 'vitest';
+import { Project } from 'ts-morph';
+import { inferResponses } from '../../src/core/response-inference.mjs';
+
+describe('Response Inference', () => {
+  it('should infer the payload types of res.json() and res.send() calls', () => {
+    // ARRANGE
+    const project = new Project({ useInMemoryFileSystem: true });
+    const file = project.createSourceFile(
+      'test.ts',
+      `
+      interface User {
+        id: string;
+        tags: string[];
+      }
+
+      declare function findUser(id: string): User | undefined;
+
+      function getUser(req, res) {
+        const user = findUser(req.params.id);
+        if (!user) {
+          return res.json({ error: 'Not found' });
+        }
+        res.json(user);
+      }
+
+      function health(req, response) {
+        response.send('ok');
+        response.send('still ok');
+      }
+    `,
+    );
+
+    // ACT
+    const userResponses = inferResponses(file.getFunctionOrThrow('getUser'));
+    const healthResponses = inferResponses(file.getFunctionOrThrow('health'));
+
+    // ASSERT
+    expect(userResponses).toHaveLength(1);
+    expect(userResponses[0].statusCode).toBe(200);
+    expect(userResponses[0].payloadTypes.map((t) => t.typeText)).toEqual([
+      '{ error: string }',
+      '{ id: string; tags: string[] }',
+    ]);
+    expect(healthResponses[0].payloadTypes.map((t) => t.typeText)).toEqual([
+      'string',
+    ]);
+  });
+
+  it('should group responses by status code', () => {
+    // ARRANGE
+    const project = new Project({ useInMemoryFileSystem: true });
+    const file = project.createSourceFile(
+      'test.ts',
+      `
+      import { StatusCodes } from 'http-status-codes';
+
+      const NOT_FOUND = 404;
+
+      function updateUser(req, res) {
+        if (!req.body) {
+          return res.status(StatusCodes.BAD_REQUEST).json({ error: 'Invalid' });
+        }
+        if (!req.params.id) {
+          return res.status(NOT_FOUND).send();
+        }
+        if (req.query.dryRun) {
+          return res.sendStatus(204);
+        }
+        res.status(201).json({ id: 1 });
+        res.status(req.query.code).json({});
+      }
+    `,
+    );
+
+    // ACT
+    const responses = inferResponses(file.getFunctionOrThrow('updateUser'));
+
+    // ASSERT
+    expect(
+      responses.map(({ statusCode, hasBody }) => ({ statusCode, hasBody })),
+    ).toEqual([
+      { statusCode: 201, hasBody: true },
+      { statusCode: 204, hasBody: false },
+      { statusCode: 400, hasBody: true },
+      { statusCode: 404, hasBody: false },
+    ]);
+    expect(responses[0].payloadTypes[0].typeText).toBe('{ id: number }');
+  });
+
+  it('should follow helper functions the response is passed to', () => {
+    // ARRANGE
+    const project = new Project({ useInMemoryFileSystem: true });
+    project.createSourceFile(
+      'respond.ts',
+      `
+      export function sendPage(reply, items: number[]) {
+        reply.json({ items, total: items.length });
+      }
+    `,
+    );
+    const file = project.createSourceFile(
+      'test.ts',
+      `
+      import { sendPage } from './respond';
+
+      const listNumbers = (req, res) => {
+        sendPage(res, [1, 2, 3]);
+      };
+    `,
+    );
+    const handler = file
+      .getVariableDeclarationOrThrow('listNumbers')
+      .getInitializerOrThrow();
+
+    // ACT
+    const responses = inferResponses(handler);
+
+    // ASSERT
+    expect(responses[0].payloadTypes.map((t) => t.typeText)).toEqual([
+      '{ items: number[]; total: number }',
+    ]);
+  });
+
+  it('should ignore handlers without a response parameter', () => {
+    // ARRANGE
+    const project = new Project({ useInMemoryFileSystem: true });
+    const file = project.createSourceFile(
+      'test.ts',
+      `
+      function noop(req) {
+        other.json({ id: 1 });
+      }
+    `,
+    );
+
+    // ACT
+    const responses = inferResponses(file.getFunctionOrThrow('noop'));
+
+    // ASSERT
+    expect(responses).toEqual([]);
+  });
+});
@@ -1,4 +1,4 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi } from 'vitest';
 import { Project } from 'ts-morph';
 import { discoverRoutes } from '../../src/core/route-discovery.mjs';
 
@@ -106,6 +106,34 @@ describe('Route Discovery', () => {
       expect(routes[1].method).toBe('patch');
     });
 
+    it('should handle HEAD, OPTIONS, TRACE and ALL methods', () => {
+      // ARRANGE
+      const project = new Project({ useInMemoryFileSystem: true });
+      const file = project.createSourceFile(
+        'test.ts',
+        `
+        import express from 'express';
+        const app = express();
+
+        app.head('/users/:id', (req, res) => {});
+        app.options('/users', (req, res) => {});
+        app.trace('/debug', (req, res) => {});
+        app.all('/proxy/*', (req, res) => {});
+      `,
+      );
+
+      // ACT
+      const routes = discoverRoutes(file);
+
+      // ASSERT
+      expect(routes.map((r) => r.method)).toEqual([
+        'head',
+        'options',
+        'trace',
+        'all',
+      ]);
+    });
+
     it('should handle multiple middleware and extract last handler', () => {
       // ARRANGE
       const project = new Project({ useInMemoryFileSystem: true });
@@ -252,6 +280,32 @@ describe('Route Discovery', () => {
       expect(routes[0].handlerName).toBe('handler');
     });
 
+    it('should mount routers from configured factories on aliased express apps', () => {
+      // ARRANGE
+      const project = new Project({ useInMemoryFileSystem: true });
+      const file = project.createSourceFile(
+        'test.ts',
+        `
+        import e from 'express';
+        import { makeRouter } from './router-factory';
+        const app = e();
+        const router = makeRouter();
+
+        function handler(req, res) {}
+
+        router.get('/users', handler);
+        app.use('/api', router);
+      `,
+      );
+
+      // ACT
+      const routes = discoverRoutes(file, { routerFactories: ['makeRouter'] });
+
+      // ASSERT
+      expect(routes).toHaveLength(1);
+      expect(routes[0].path).toBe('/api/users');
+    });
+
     it('should ignore middleware (non-router) in app.use()', () => {
       // ARRANGE
       const project = new Project({ useInMemoryFileSystem: true });
@@ -689,4 +743,867 @@ describe('Route Discovery', () => {
       expect(routes[0].handlerName).toBe('deleteUser');
     });
   });
+
+  describe('Route Chains', () => {
+    it('should discover methods chained on app.route()', () => {
+      // ARRANGE
+      const project = new Project({ useInMemoryFileSystem: true });
+      const file = project.createSourceFile(
+        'test.ts',
+        `
+        import express from 'express';
+        const app = express();
+
+        function getUser(req, res) {}
+        function updateUser(req, res) {}
+        function removeUser(req, res) {}
+
+        app.route('/users/:id').get(getUser).put(updateUser).delete(removeUser);
+      `,
+      );
+
+      // ACT
+      const routes = discoverRoutes(file);
+
+      // ASSERT
+      expect(routes).toHaveLength(3);
+      expect(routes.map((r) => r.method)).toEqual(['get', 'put', 'delete']);
+      expect(routes.every((r) => r.path === '/users/:id')).toBe(true);
+      expect(routes.map((r) => r.handlerName)).toEqual([
+        'getUser',
+        'updateUser',
+        'removeUser',
+      ]);
+    });
+
+    it('should compose chained route path with router mount path', () => {
+      // ARRANGE
+      const project = new Project({ useInMemoryFileSystem: true });
+      const file = project.createSourceFile(
+        'test.ts',
+        `
+        import express, { Router } from 'express';
+        const app = express();
+        const router = Router();
+
+        function auth(req, res, next) {}
+        function listUsers(req, res) {}
+        function createUser(req, res) {}
+
+        router.route('/users').get(listUsers).post(auth, createUser);
+        app.use('/api', router);
+      `,
+      );
+
+      // ACT
+      const routes = discoverRoutes(file);
+
+      // ASSERT
+      expect(routes).toHaveLength(2);
+      expect(routes[0]).toMatchObject({
+        path: '/api/users',
+        method: 'get',
+        handlerName: 'listUsers',
+      });
+      expect(routes[1]).toMatchObject({
+        path: '/api/users',
+        method: 'post',
+        handlerName: 'createUser',
+      });
+    });
+
+    it('should follow route object stored in a variable', () => {
+      // ARRANGE
+      const project = new Project({ useInMemoryFileSystem: true });
+      const file = project.createSourceFile(
+        'test.ts',
+        `
+        import express from 'express';
+        const app = express();
+
+        function getUser(req, res) {}
+        function updateUser(req, res) {}
+        function removeUser(req, res) {}
+
+        const userRoute = app.route('/users/:id');
+        userRoute.get(getUser);
+        userRoute.put(updateUser).delete(removeUser);
+      `,
+      );
+
+      // ACT
+      const routes = discoverRoutes(file);
+
+      // ASSERT
+      expect(routes).toHaveLength(3);
+      expect(routes.map((r) => r.method)).toEqual(['get', 'put', 'delete']);
+      expect(routes.every((r) => r.path === '/users/:id')).toBe(true);
+    });
+  });
+
+  describe('Non-Literal Paths', () => {
+    it('should resolve const, template and concatenated paths', () => {
+      // ARRANGE
+      const project = new Project({ useInMemoryFileSystem: true });
+      const file = project.createSourceFile(
+        'test.ts',
+        `
+        import express, { Router } from 'express';
+        const app = express();
+        const router = Router();
+        const API_PREFIX = '/api/v2';
+        const USERS = '/users';
+
+        function listUsers(req, res) {}
+        function getUser(req, res) {}
+
+        router.get(USERS, listUsers);
+        router.get(USERS + '/:id', getUser);
+        app.use(\`\${API_PREFIX}/admin\`, router);
+      `,
+      );
+
+      // ACT
+      const routes = discoverRoutes(file);
+
+      // ASSERT
+      expect(routes.map((r) => r.path)).toEqual([
+        '/api/v2/admin/users',
+        '/api/v2/admin/users/:id',
+      ]);
+    });
+
+    it('should warn with file and line when a path cannot be resolved', () => {
+      // ARRANGE
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const project = new Project({ useInMemoryFileSystem: true });
+      const file = project.createSourceFile(
+        'test.ts',
+        `
+        import express from 'express';
+        const app = express();
+        declare function buildPath(): string;
+
+        app.get(buildPath(), (req, res) => {});
+      `,
+      );
+
+      // ACT
+      const routes = discoverRoutes(file);
+
+      // ASSERT
+      expect(routes).toHaveLength(0);
+      expect(warnSpy).toHaveBeenCalledWith(
+        expect.stringContaining('Could not statically resolve route path `buildPath()` at /test.ts:6'),
+      );
+      warnSpy.mockRestore();
+    });
+  });
+
+  describe('Array and RegExp Paths', () => {
+    it('should expand array paths into one route per path', () => {
+      // ARRANGE
+      const project = new Project({ useInMemoryFileSystem: true });
+      const file = project.createSourceFile(
+        'test.ts',
+        `
+        import express from 'express';
+        const app = express();
+        const LEGACY = '/user';
+
+        function getUsers(req, res) {}
+
+        app.get([LEGACY, '/users'], getUsers);
+      `,
+      );
+
+      // ACT
+      const routes = discoverRoutes(file);
+
+      // ASSERT
+      expect(routes).toHaveLength(2);
+      expect(routes.map((r) => r.path)).toEqual(['/user', '/users']);
+      expect(routes.every((r) => r.handlerName === 'getUsers')).toBe(true);
+    });
+
+    it('should approximate regex paths and keep the pattern', () => {
+      // ARRANGE
+      const project = new Project({ useInMemoryFileSystem: true });
+      const file = project.createSourceFile(
+        'test.ts',
+        `
+        import express, { Router } from 'express';
+        const app = express();
+        const router = Router();
+
+        router.get(/\\/legacy\\/.*/, (req, res) => {});
+        app.use('/api', router);
+      `,
+      );
+
+      // ACT
+      const routes = discoverRoutes(file);
+
+      // ASSERT
+      expect(routes).toHaveLength(1);
+      expect(routes[0].path).toBe('/api/legacy/:path(*)');
+      expect(routes[0].regexPattern).toBe('\\/legacy\\/.*');
+    });
+
+    it('should skip regex paths when configured', () => {
+      // ARRANGE
+      const project = new Project({ useInMemoryFileSystem: true });
+      const file = project.createSourceFile(
+        'test.ts',
+        `
+        import express from 'express';
+        const app = express();
+
+        app.get(/\\/legacy\\/.*/, (req, res) => {});
+        app.get(['/new', /\\/old\\/.*/], (req, res) => {});
+      `,
+      );
+
+      // ACT
+      const routes = discoverRoutes(file, { skipRegexRoutes: true });
+
+      // ASSERT
+      expect(routes.map((r) => r.path)).toEqual(['/new']);
+    });
+  });
+
+  describe('Router Factories', () => {
+    it('should discover routes of a router returned by a factory', () => {
+      // ARRANGE
+      const project = new Project({ useInMemoryFileSystem: true });
+      const file = project.createSourceFile(
+        'test.ts',
+        `
+        import express, { Router } from 'express';
+        const app = express();
+
+        function listUsers(req, res) {}
+
+        function createUserRouter(deps) {
+          const r = Router();
+          r.get('/', listUsers);
+          r.get('/:id', (req, res) => {});
+          return r;
+        }
+
+        app.use('/users', createUserRouter({}));
+      `,
+      );
+
+      // ACT
+      const routes = discoverRoutes(file);
+
+      // ASSERT
+      expect(routes.map((r) => r.path)).toEqual(['/users', '/users/:id']);
+      expect(routes[0].handlerName).toBe('listUsers');
+    });
+
+    it('should follow imported router factories', () => {
+      // ARRANGE
+      const project = new Project({ useInMemoryFileSystem: true });
+      project.createSourceFile(
+        'user-router.ts',
+        `
+        import { Router } from 'express';
+
+        function getUser(req, res) {}
+
+        export const createUserRouter = (deps) => {
+          const router = Router();
+          router.get('/:id', getUser);
+          return router;
+        };
+      `,
+      );
+      const file = project.createSourceFile(
+        'main.ts',
+        `
+        import express from 'express';
+        import { createUserRouter } from './user-router';
+        const app = express();
+
+        app.use('/v1/users', createUserRouter({}));
+        app.use('/v2/users', createUserRouter({}));
+      `,
+      );
+
+      // ACT
+      const routes = discoverRoutes(file);
+
+      // ASSERT
+      expect(routes.map((r) => r.path)).toEqual([
+        '/v1/users/:id',
+        '/v2/users/:id',
+      ]);
+      expect(routes.every((r) => r.handlerName === 'getUser')).toBe(true);
+    });
+  });
+
+  describe('Multi-Argument Mounts', () => {
+    it('should find the router after middleware arguments', () => {
+      // ARRANGE
+      const project = new Project({ useInMemoryFileSystem: true });
+      const file = project.createSourceFile(
+        'test.ts',
+        `
+        import express, { Router } from 'express';
+        const app = express();
+        const apiRouter = Router();
+
+        function authenticate(req, res, next) { next(); }
+        function rateLimit(options) { return (req, res, next) => next(); }
+
+        apiRouter.get('/users', (req, res) => {});
+
+        app.use('/api', authenticate, rateLimit({ max: 100 }), apiRouter);
+      `,
+      );
+
+      // ACT
+      const routes = discoverRoutes(file);
+
+      // ASSERT
+      expect(routes.map((r) => r.path)).toEqual(['/api/users']);
+    });
+
+    it('should mount every router passed to a single use() call', () => {
+      // ARRANGE
+      const project = new Project({ useInMemoryFileSystem: true });
+      const file = project.createSourceFile(
+        'test.ts',
+        `
+        import express, { Router } from 'express';
+        const app = express();
+        const v1Router = Router();
+        const v2Router = Router();
+
+        v1Router.get('/users', (req, res) => {});
+        v2Router.get('/accounts', (req, res) => {});
+
+        app.use('/api', v1Router, v2Router);
+      `,
+      );
+
+      // ACT
+      const routes = discoverRoutes(file);
+
+      // ASSERT
+      expect(routes.map((r) => r.path)).toEqual([
+        '/api/users',
+        '/api/accounts',
+      ]);
+    });
+
+    it('should mount routers inside array arguments', () => {
+      // ARRANGE
+      const project = new Project({ useInMemoryFileSystem: true });
+      const file = project.createSourceFile(
+        'test.ts',
+        `
+        import express, { Router } from 'express';
+        const app = express();
+        const apiRouter = Router();
+        const healthRouter = Router();
+
+        function auth(req, res, next) { next(); }
+
+        apiRouter.get('/users', (req, res) => {});
+        healthRouter.get('/health', (req, res) => {});
+
+        app.use('/api', [auth, apiRouter]);
+        app.use(auth, healthRouter);
+      `,
+      );
+
+      // ACT
+      const routes = discoverRoutes(file);
+
+      // ASSERT
+      expect(routes.map((r) => r.path)).toEqual(['/api/users', '/health']);
+    });
+  });
+
+  describe('Sub-Applications', () => {
+    it('should mount a local sub-application with the composed base path', () => {
+      // ARRANGE
+      const project = new Project({ useInMemoryFileSystem: true });
+      const file = project.createSourceFile(
+        'test.ts',
+        `
+        import express from 'express';
+        const app = express();
+        const admin = express();
+
+        admin.get('/stats', (req, res) => {});
+        admin.post('/users/:id/ban', (req, res) => {});
+
+        app.use('/admin', admin);
+      `,
+      );
+
+      // ACT
+      const routes = discoverRoutes(file);
+
+      // ASSERT
+      expect(routes.map((r) => `${r.method} ${r.path}`)).toEqual([
+        'get /admin/stats',
+        'post /admin/users/:id/ban',
+      ]);
+    });
+
+    it('should pick the root app when a sub-application is declared first', () => {
+      // ARRANGE
+      const project = new Project({ useInMemoryFileSystem: true });
+      const file = project.createSourceFile(
+        'test.ts',
+        `
+        import express from 'express';
+        const admin = express();
+        admin.get('/stats', (req, res) => {});
+
+        const app = express();
+        app.get('/health', (req, res) => {});
+        app.use('/admin', admin);
+      `,
+      );
+
+      // ACT
+      const routes = discoverRoutes(file);
+
+      // ASSERT
+      expect(routes.map((r) => r.path)).toEqual(['/health', '/admin/stats']);
+    });
+
+    it('should not treat apps passed to use() of other objects as mounted', () => {
+      // ARRANGE
+      const project = new Project({ useInMemoryFileSystem: true });
+      const file = project.createSourceFile(
+        'test.ts',
+        `
+        import express from 'express';
+        import { createServer } from './server';
+        const app = express();
+        app.get('/health', (req, res) => {});
+
+        const server = createServer();
+        server.use(app);
+
+        function createAdmin() {
+          const app = express();
+          const admin = express();
+          admin.use(app);
+          return admin;
+        }
+
+        const metrics = express();
+        metrics.get('/metrics', (req, res) => {});
+      `,
+      );
+
+      // ACT
+      const routes = discoverRoutes(file);
+
+      // ASSERT
+      expect(routes.map((r) => r.path)).toEqual(['/health']);
+    });
+
+    it('should mount imported sub-applications and their routers', () => {
+      // ARRANGE
+      const project = new Project({ useInMemoryFileSystem: true });
+      project.createSourceFile(
+        'reports.ts',
+        `
+        import { Router } from 'express';
+        export const reportsRouter = Router();
+        reportsRouter.get('/daily', (req, res) => {});
+      `,
+      );
+      project.createSourceFile(
+        'admin.ts',
+        `
+        import express from 'express';
+        import { reportsRouter } from './reports';
+        export const adminApp = express();
+        adminApp.get('/stats', (req, res) => {});
+        adminApp.use('/reports', reportsRouter);
+      `,
+      );
+      const file = project.createSourceFile(
+        'main.ts',
+        `
+        import express from 'express';
+        import { adminApp } from './admin';
+        const app = express();
+        app.use('/admin', adminApp);
+      `,
+      );
+
+      // ACT
+      const routes = discoverRoutes(file);
+
+      // ASSERT
+      expect(routes.map((r) => r.path)).toEqual([
+        '/admin/stats',
+        '/admin/reports/daily',
+      ]);
+    });
+  });
+
+  describe('Route Tables', () => {
+    it('should discover routes registered with forEach over a route table', () => {
+      // ARRANGE
+      const project = new Project({ useInMemoryFileSystem: true });
+      const file = project.createSourceFile(
+        'test.ts',
+        `
+        import express from 'express';
+        const app = express();
+
+        function listUsers(req, res) {}
+        function createUser(req, res) {}
+
+        const routes = [
+          { method: 'get', path: '/users', handler: listUsers },
+          { method: 'post', path: '/users', handler: createUser },
+        ];
+
+        routes.forEach((r) => app[r.method](r.path, r.handler));
+      `,
+      );
+
+      // ACT
+      const routes = discoverRoutes(file);
+
+      // ASSERT
+      expect(
+        routes.map((r) => `${r.method} ${r.path} ${r.handlerName}`),
+      ).toEqual(['get /users listUsers', 'post /users createUser']);
+    });
+
+    it('should substitute table entries inside concatenated and template paths', () => {
+      // ARRANGE
+      const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const project = new Project({ useInMemoryFileSystem: true });
+      const file = project.createSourceFile(
+        'test.ts',
+        `
+        import express from 'express';
+        const app = express();
+        const API_PREFIX = '/api';
+
+        function listUsers(req, res) {}
+        function listOrders(req, res) {}
+
+        const routes = [
+          { method: 'get', path: '/users', handler: listUsers },
+          { method: 'get', path: '/orders', handler: listOrders },
+        ];
+
+        routes.forEach((route) => app[route.method](API_PREFIX + route.path, route.handler));
+        for (const { path, handler } of routes) {
+          app['post'](\`/v2\${path}\`, handler);
+        }
+      `,
+      );
+
+      // ACT
+      const routes = discoverRoutes(file);
+
+      // ASSERT
+      expect(
+        routes.map((r) => `${r.method} ${r.path} ${r.handlerName}`),
+      ).toEqual([
+        'get /api/users listUsers',
+        'get /api/orders listOrders',
+        'post /v2/users listUsers',
+        'post /v2/orders listOrders',
+      ]);
+      expect(warnSpy).not.toHaveBeenCalled();
+      warnSpy.mockRestore();
+    });
+
+    it('should discover routes registered in a for...of loop with destructuring', () => {
+      // ARRANGE
+      const project = new Project({ useInMemoryFileSystem: true });
+      project.createSourceFile(
+        'routes.ts',
+        `
+        function getUser(req, res) {}
+        function deleteUser(req, res) {}
+
+        export const userRoutes = [
+          { method: 'get', path: '/:id', handler: getUser },
+          { method: 'delete', path: '/:id', handler: deleteUser },
+        ] as const;
+      `,
+      );
+      const file = project.createSourceFile(
+        'main.ts',
+        `
+        import express from 'express';
+        import { userRoutes } from './routes';
+        const app = express();
+
+        function auth(req, res, next) { next(); }
+
+        for (const { method, path: routePath, handler } of userRoutes) {
+          app[method]('/users' + routePath, auth, handler);
+        }
+      `,
+      );
+
+      // ACT
+      const routes = discoverRoutes(file);
+
+      // ASSERT
+      expect(
+        routes.map((r) => `${r.method} ${r.path} ${r.handlerName}`),
+      ).toEqual(['get /users/:id getUser', 'delete /users/:id deleteUser']);
+    });
+  });
+
+  describe('Class-Based Controllers', () => {
+    it('should discover routes registered on this.router in a controller', () => {
+      // ARRANGE
+      const project = new Project({ useInMemoryFileSystem: true });
+      project.createSourceFile(
+        'user-controller.ts',
+        `
+        import { Router } from 'express';
+
+        export class UserController {
+          public router = Router();
+
+          constructor() {
+            this.router.get('/:id', this.getById.bind(this));
+            this.registerAdminRoutes();
+          }
+
+          private registerAdminRoutes() {
+            this.router.delete('/:id', this.remove);
+          }
+
+          getById(req, res) {}
+          remove = (req, res) => {};
+        }
+      `,
+      );
+      const file = project.createSourceFile(
+        'main.ts',
+        `
+        import express from 'express';
+        import { UserController } from './user-controller';
+        const app = express();
+        const userController = new UserController();
+
+        app.use('/users', userController.router);
+      `,
+      );
+
+      // ACT
+      const routes = discoverRoutes(file);
+
+      // ASSERT
+      expect(
+        routes.map((r) => `${r.method} ${r.path} ${r.handlerName}`),
+      ).toEqual([
+        'get /users/:id UserController.getById',
+        'delete /users/:id UserController.remove',
+      ]);
+    });
+
+    it('should resolve controller method references as handlers', () => {
+      // ARRANGE
+      const project = new Project({ useInMemoryFileSystem: true });
+      const file = project.createSourceFile(
+        'test.ts',
+        `
+        import express from 'express';
+        const app = express();
+
+        class OrderController {
+          list(req, res) {}
+        }
+        const orders = new OrderController();
+
+        app.get('/orders', orders.list);
+      `,
+      );
+
+      // ACT
+      const routes = discoverRoutes(file);
+
+      // ASSERT
+      expect(routes).toHaveLength(1);
+      expect(routes[0].handlerName).toBe('OrderController.list');
+    });
+  });
+
+  describe('Object Literal Handlers', () => {
+    it('should discover routes whose handlers live in an exported handler map', () => {
+      // ARRANGE
+      const project = new Project({ useInMemoryFileSystem: true });
+      project.createSourceFile(
+        'user-handlers.ts',
+        `
+        export const userHandlers = {
+          list: async (req, res) => {},
+          get: async (req, res) => {},
+        };
+      `,
+      );
+      const file = project.createSourceFile(
+        'main.ts',
+        `
+        import express from 'express';
+        import { userHandlers } from './user-handlers';
+        const app = express();
+
+        app.get('/users', userHandlers.list);
+        app.get('/users/:id', userHandlers['get']);
+      `,
+      );
+
+      // ACT
+      const routes = discoverRoutes(file);
+
+      // ASSERT
+      expect(routes.map((r) => `${r.path} ${r.handlerName}`)).toEqual([
+        '/users userHandlers.list',
+        '/users/:id userHandlers.get',
+      ]);
+    });
+  });
+
+  describe('Decorated Controllers', () => {
+    it('should discover decorated controllers alongside app routes', () => {
+      // ARRANGE
+      const project = new Project({ useInMemoryFileSystem: true });
+      project.createSourceFile(
+        'user-controller.ts',
+        `
+        import { Controller, Get } from 'routing-controllers';
+
+        @Controller('/users')
+        export class UserController {
+          @Get('/:id')
+          getById() {}
+        }
+      `,
+      );
+      project.createSourceFile(
+        'legacy-controller.ts',
+        `
+        import { Controller, Get } from 'routing-controllers';
+
+        @Controller('/legacy')
+        export class LegacyController {
+          @Get('/')
+          list() {}
+        }
+      `,
+      );
+      const file = project.createSourceFile(
+        'main.ts',
+        `
+        import express from 'express';
+        import { useExpressServer } from 'routing-controllers';
+        import { UserController } from './user-controller';
+        const app = express();
+
+        app.get('/health', (req, res) => {});
+        useExpressServer(app, { controllers: [UserController] });
+      `,
+      );
+
+      // ACT
+      const routes = discoverRoutes(file);
+
+      // ASSERT
+      expect(routes.map((r) => r.path)).toEqual(['/health', '/users/:id']);
+      expect(routes[1].handlerName).toBe('UserController.getById');
+    });
+  });
+
+  describe('Route Call Type Arguments', () => {
+    it('should read type arguments on route calls and route chains', () => {
+      // ARRANGE
+      const project = new Project({ useInMemoryFileSystem: true });
+      const file = project.createSourceFile(
+        'test.ts',
+        `
+        import express from 'express';
+        const app = express();
+
+        interface User {
+          id: string;
+        }
+
+        interface ListQuery {
+          limit?: number;
+        }
+
+        app.get<{ id: string }, User, never, ListQuery>('/users/:id', (req, res) => {
+          res.json({ id: req.params.id });
+        });
+        app.route('/users').post<{}, User, { name: string }>((req, res) => {
+          res.json({ id: '1' });
+        });
+        app.delete('/users/:id', (req, res) => {});
+      `,
+      );
+
+      // ACT
+      const routes = discoverRoutes(file);
+
+      // ASSERT
+      expect(routes).toHaveLength(3);
+      expect(routes[0].requestTypes?.pathParams?.typeText).toContain('id');
+      expect(routes[0].requestTypes?.responseBody?.typeName).toBe('User');
+      expect(routes[0].requestTypes?.bodyParams).toBeUndefined();
+      expect(routes[0].requestTypes?.queryParams?.typeName).toBe('ListQuery');
+      expect(routes[1].requestTypes?.pathParams).toBeUndefined();
+      expect(routes[1].requestTypes?.bodyParams?.typeText).toContain('name');
+      expect(routes[2].requestTypes).toBeUndefined();
+    });
+  });
+
+  describe('Validation Middleware', () => {
+    it('should take request types from configured validation middleware', () => {
+      // ARRANGE
+      const project = new Project({ useInMemoryFileSystem: true });
+      const file = project.createSourceFile(
+        'test.ts',
+        `
+        import express, { Request, Response } from 'express';
+        const app = express();
+
+        declare function validateBody<T>(schema: { _input: T }): express.RequestHandler;
+        declare const CreateUserSchema: { _input: { name: string } };
+
+        app.post(
+          '/users',
+          validateBody(CreateUserSchema),
+          (req: Request<{}, {}, { legacy: boolean }>, res: Response) => {},
+        );
+      `,
+      );
+
+      // ACT
+      const routes = discoverRoutes(file, {
+        validationMiddleware: [{ name: 'validateBody', target: 'body' }],
+      });
+
+      // ASSERT
+      expect(routes).toHaveLength(1);
+      expect(routes[0].requestTypes?.bodyParams?.typeText).toBe(
+        '{ name: string }',
+      );
+    });
+  });
 });
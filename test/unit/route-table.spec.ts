@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import { Project, SyntaxKind } from 'ts-morph';
+import { expandRouteTable } from '../../src/ast/route-table.mjs';
+
+function getComputedRegistration(code: string) {
+  const project = new Project({ useInMemoryFileSystem: true });
+  const file = project.createSourceFile('test.ts', code);
+  return file
+    .getDescendantsOfKind(SyntaxKind.CallExpression)
+    .find(
+      (c) => c.getExpression().getKind() === SyntaxKind.ElementAccessExpression,
+    )!;
+}
+
+describe('Route Table', () => {
+  it('should substitute entry properties for the loop variable', () => {
+    // ARRANGE
+    const registration = getComputedRegistration(`
+      const routes = [
+        { method: 'get', path: '/users', handler: listUsers },
+        { method: 'post', path: '/users', handler: createUser },
+      ];
+      routes.forEach((r) => app[r.method](r.path, auth, r.handler));
+    `);
+
+    // ACT
+    const table = expandRouteTable(registration);
+
+    // ASSERT
+    expect(
+      table?.registrations.map((reg) => [
+        reg.method.getText(),
+        ...reg.args.map((arg) => arg.getText()),
+      ]),
+    ).toEqual([
+      ["'get'", "'/users'", 'auth', 'listUsers'],
+      ["'post'", "'/users'", 'auth', 'createUser'],
+    ]);
+  });
+
+  it('should resolve spread tables, shorthand properties and binding defaults', () => {
+    // ARRANGE
+    const registration = getComputedRegistration(`
+      const path = '/health';
+      const adminRoutes = [{ method: 'delete', path: '/cache' }];
+      const routes = [{ path }, ...adminRoutes];
+      for (const { method = 'get', path } of routes) {
+        app[method](path, handler);
+      }
+    `);
+
+    // ACT
+    const table = expandRouteTable(registration);
+
+    // ASSERT
+    expect(
+      table?.registrations.map((reg) => [
+        reg.method.getText(),
+        reg.args[0].getText(),
+      ]),
+    ).toEqual([
+      ["'get'", 'path'],
+      ["'delete'", "'/cache'"],
+    ]);
+  });
+
+  it('should resolve object tables iterated with Object.values()', () => {
+    // ARRANGE
+    const registration = getComputedRegistration(`
+      const routes = {
+        list: { method: 'get', path: '/users' },
+        create: { method: 'post', path: '/users' },
+      };
+      Object.values(routes).forEach((r) => app[r.method](r.path, handler));
+    `);
+
+    // ACT
+    const table = expandRouteTable(registration);
+
+    // ASSERT
+    expect(table?.registrations.map((reg) => reg.method.getText())).toEqual([
+      "'get'",
+      "'post'",
+    ]);
+  });
+
+  it('should return null when the table cannot be resolved statically', () => {
+    // ARRANGE
+    const registration = getComputedRegistration(`
+      function register(routes) {
+        routes.forEach((r) => app[r.method](r.path, r.handler));
+      }
+    `);
+
+    // ACT
+    const table = expandRouteTable(registration);
+
+    // ASSERT
+    expect(table).toBeNull();
+  });
+
+  it('should not expand tables declared with let', () => {
+    // ARRANGE
+    const registration = getComputedRegistration(`
+      let routes = [{ method: 'get', path: '/users', handler: listUsers }];
+      routes = loadRoutes();
+      routes.forEach((r) => app[r.method](r.path, r.handler));
+    `);
+
+    // ACT
+    const table = expandRouteTable(registration);
+
+    // ASSERT
+    expect(table).toBeNull();
+  });
+
+  it('should not expand entries declared with let', () => {
+    // ARRANGE
+    const registration = getComputedRegistration(`
+      let users = { method: 'get', path: '/users' };
+      const routes = [users as Route];
+      routes.forEach((r) => app[r.method](r.path, handler));
+    `);
+
+    // ACT
+    const table = expandRouteTable(registration);
+
+    // ASSERT
+    expect(table).toBeNull();
+  });
+});
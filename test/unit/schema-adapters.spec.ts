@@ -0,0 +1,69 @@
+import { describe, it, expect } from 'vitest';
+import { Project, SyntaxKind } from 'ts-morph';
+import {
+  getInferredSchema,
+  getInferenceAdapter,
+} from '../../src/core/schema-adapters.mjs';
+
+function getVariableTypes(code: string) {
+  const project = new Project({ useInMemoryFileSystem: true });
+  const file = project.createSourceFile('test.ts', code);
+  return file
+    .getDescendantsOfKind(SyntaxKind.VariableDeclaration)
+    .filter((d) => d.getTypeNode())
+    .map((d) => d.getTypeNodeOrThrow());
+}
+
+describe('Schema Adapters', () => {
+  it('should find the schema of z.infer types and their aliases', () => {
+    // ARRANGE
+    const [userType, otherType] = getVariableTypes(`
+      import { z } from 'zod';
+
+      const UserSchema = z.object({ name: z.string() });
+      type User = z.infer<typeof UserSchema>;
+      type UserInput = User;
+
+      let user: UserInput;
+      let other: { name: string };
+    `);
+
+    // ACT
+    const inferred = getInferredSchema(userType);
+    const otherInferred = getInferredSchema(otherType);
+
+    // ASSERT
+    expect(inferred?.schemaNode.getText()).toBe('UserSchema');
+    expect(inferred?.library).toBe('zod');
+    expect(otherInferred).toBeNull();
+  });
+
+  it('should recognize TypeBox, Valibot and Yup inference helpers', () => {
+    // ARRANGE
+    const types = getVariableTypes(`
+      import { Type, Static } from '@sinclair/typebox';
+      import * as v from 'valibot';
+      import * as yup from 'yup';
+      import { InferType } from 'other-lib';
+
+      const T = Type.Object({});
+      const S = v.object({});
+      const s = yup.object({});
+
+      let a: Static<typeof T>;
+      let b: v.InferOutput<typeof S>;
+      let c: yup.InferType<typeof s>;
+      let d: InferType<typeof s>;
+    `);
+
+    // ACT
+    const libraries = types.map((t) => getInferenceAdapter(t)?.name ?? null);
+    const schemas = types.map((t) =>
+      getInferredSchema(t)?.schemaNode.getText(),
+    );
+
+    // ASSERT
+    expect(libraries).toEqual(['typebox', 'valibot', 'yup', null]);
+    expect(schemas).toEqual(['T', 'S', 's', undefined]);
+  });
+});
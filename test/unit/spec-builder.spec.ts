@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest';
-import { Project } from 'ts-morph';
+import { Project, SyntaxKind } from 'ts-morph';
 import { buildOpenApiSpec } from '../../src/core/spec-builder.mjs';
 import { RouteInfo } from '../../src/types/internal.mjs';
 
@@ -1556,4 +1556,845 @@ describe('Spec Builder', () => {
       expect(addressProp?.properties?.city).toEqual({ type: 'string' });
     });
   });
+
+  describe('Additional HTTP Methods', () => {
+    it('should give HEAD and OPTIONS routes default responses', async () => {
+      // ARRANGE
+      const project = new Project({ useInMemoryFileSystem: true });
+      const file = project.createSourceFile(
+        'test.ts',
+        `
+        function userExists(req, res) {}
+        function preflight(req, res) {}
+      `,
+      );
+      const [headFunc, optionsFunc] = file.getFunctions();
+
+      const routes: RouteInfo[] = [
+        {
+          path: '/users/:id',
+          method: 'head',
+          handlerName: 'userExists',
+          handlerNode: headFunc,
+        },
+        {
+          path: '/users/:id',
+          method: 'options',
+          handlerName: 'preflight',
+          handlerNode: optionsFunc,
+        },
+      ];
+      const options = { title: 'API', version: '1.0.0' };
+
+      // ACT
+      const spec = await buildOpenApiSpec(routes, options);
+
+      // ASSERT
+      const pathItem = spec.paths['/users/{id}'];
+      expect(pathItem.head?.operationId).toBe('userExists');
+      expect(pathItem.head?.responses).toEqual({
+        '200': { description: 'Successful response (headers only)' },
+      });
+      expect(pathItem.options?.operationId).toBe('preflight');
+      expect(pathItem.options?.responses).toEqual({
+        '204': { description: 'Allowed methods and CORS headers' },
+      });
+    });
+
+    it('should expand app.all() routes into every default method', async () => {
+      // ARRANGE
+      const project = new Project({ useInMemoryFileSystem: true });
+      const file = project.createSourceFile(
+        'test.ts',
+        `function proxy(req, res) {}`,
+      );
+      const func = file.getFunctions()[0];
+
+      const routes: RouteInfo[] = [
+        {
+          path: '/proxy',
+          method: 'all',
+          handlerName: 'proxy',
+          handlerNode: func,
+        },
+      ];
+      const options = { title: 'API', version: '1.0.0' };
+
+      // ACT
+      const spec = await buildOpenApiSpec(routes, options);
+
+      // ASSERT
+      const pathItem = spec.paths['/proxy'];
+      expect(Object.keys(pathItem)).toEqual([
+        'get',
+        'post',
+        'put',
+        'patch',
+        'delete',
+        'head',
+        'options',
+      ]);
+      expect(pathItem.get?.operationId).toBe('proxy_get');
+      expect(pathItem.post?.operationId).toBe('proxy_post');
+    });
+
+    it('should expand app.all() routes into the configured methods only', async () => {
+      // ARRANGE
+      const project = new Project({ useInMemoryFileSystem: true });
+      const file = project.createSourceFile(
+        'test.ts',
+        `function proxy(req, res) {}`,
+      );
+      const func = file.getFunctions()[0];
+
+      const routes: RouteInfo[] = [
+        {
+          path: '/proxy',
+          method: 'all',
+          handlerName: 'proxy',
+          handlerNode: func,
+        },
+      ];
+      const options = {
+        title: 'API',
+        version: '1.0.0',
+        allMethods: ['get' as const, 'post' as const],
+      };
+
+      // ACT
+      const spec = await buildOpenApiSpec(routes, options);
+
+      // ASSERT
+      expect(Object.keys(spec.paths['/proxy'])).toEqual(['get', 'post']);
+    });
+
+    it('should not override explicitly registered methods with app.all()', async () => {
+      // ARRANGE
+      const project = new Project({ useInMemoryFileSystem: true });
+      const file = project.createSourceFile(
+        'test.ts',
+        `
+        function getItem(req, res) {}
+        function fallback(req, res) {}
+      `,
+      );
+      const [getFunc, allFunc] = file.getFunctions();
+
+      const routes: RouteInfo[] = [
+        {
+          path: '/items',
+          method: 'get',
+          handlerName: 'getItem',
+          handlerNode: getFunc,
+        },
+        {
+          path: '/items',
+          method: 'all',
+          handlerName: 'fallback',
+          handlerNode: allFunc,
+        },
+      ];
+      const options = { title: 'API', version: '1.0.0' };
+
+      // ACT
+      const spec = await buildOpenApiSpec(routes, options);
+
+      // ASSERT
+      expect(spec.paths['/items'].get?.operationId).toBe('getItem');
+      expect(spec.paths['/items'].post?.operationId).toBe('fallback_post');
+    });
+  });
+
+  describe('Array and RegExp Paths', () => {
+    it('should keep operationIds unique when a handler serves several paths', async () => {
+      // ARRANGE
+      const project = new Project({ useInMemoryFileSystem: true });
+      const file = project.createSourceFile(
+        'test.ts',
+        `function getUsers(req, res) {}`,
+      );
+      const func = file.getFunctions()[0];
+
+      const routes: RouteInfo[] = [
+        {
+          path: '/user',
+          method: 'get',
+          handlerName: 'getUsers',
+          handlerNode: func,
+        },
+        {
+          path: '/users',
+          method: 'get',
+          handlerName: 'getUsers',
+          handlerNode: func,
+        },
+      ];
+      const options = { title: 'API', version: '1.0.0' };
+
+      // ACT
+      const spec = await buildOpenApiSpec(routes, options);
+
+      // ASSERT
+      expect(spec.paths['/user'].get?.operationId).toBe('getUsers');
+      expect(spec.paths['/users'].get?.operationId).toBe('getUsers_2');
+    });
+
+    it('should add x-express-regex to regex routes', async () => {
+      // ARRANGE
+      const project = new Project({ useInMemoryFileSystem: true });
+      const file = project.createSourceFile(
+        'test.ts',
+        `function legacy(req, res) {}`,
+      );
+      const func = file.getFunctions()[0];
+
+      const routes: RouteInfo[] = [
+        {
+          path: '/legacy/:path(*)',
+          method: 'get',
+          handlerName: 'legacy',
+          handlerNode: func,
+          regexPattern: '\\/legacy\\/.*',
+        },
+      ];
+      const options = { title: 'API', version: '1.0.0' };
+
+      // ACT
+      const spec = await buildOpenApiSpec(routes, options);
+
+      // ASSERT
+      const operation = spec.paths['/legacy/{path}'].get;
+      expect(operation?.['x-express-regex']).toBe('\\/legacy\\/.*');
+      expect(operation?.parameters).toEqual([
+        { name: 'path', in: 'path', required: true, schema: { type: 'string' } },
+      ]);
+    });
+  });
+
+  describe('Class-Based Controllers', () => {
+    it('should extract types from controller methods and name operations after the class', async () => {
+      // ARRANGE
+      const project = new Project({ useInMemoryFileSystem: true });
+      const file = project.createSourceFile(
+        'test.ts',
+        `
+        interface Request<P = {}, ResBody = any, ReqBody = any, ReqQuery = any> {}
+        interface User { id: string; name: string }
+
+        class UserController {
+          getById(req: Request<{ id: string }, User>, res) {}
+        }
+      `,
+      );
+      const method = file
+        .getClassOrThrow('UserController')
+        .getMethodOrThrow('getById');
+
+      const routes: RouteInfo[] = [
+        {
+          path: '/users/:id',
+          method: 'get',
+          handlerName: 'UserController.getById',
+          handlerNode: method,
+        },
+      ];
+      const options = { title: 'API', version: '1.0.0' };
+
+      // ACT
+      const spec = await buildOpenApiSpec(routes, options);
+
+      // ASSERT
+      const operation = spec.paths['/users/{id}'].get;
+      expect(operation?.operationId).toBe('UserController.getById');
+      expect(operation?.parameters?.[0]).toMatchObject({
+        name: 'id',
+        in: 'path',
+        required: true,
+      });
+      expect(
+        operation?.responses['200'].content?.['application/json'].schema,
+      ).toEqual({ $ref: '#/components/schemas/User' });
+    });
+  });
+
+  describe('Operation ID Strategy', () => {
+    it('should derive operationIds from member handlers with the configured strategy', async () => {
+      // ARRANGE
+      const project = new Project({ useInMemoryFileSystem: true });
+      const file = project.createSourceFile(
+        'test.ts',
+        `
+        const userHandlers = { list: (req, res) => {} };
+      `,
+      );
+      const handlerNode = file.getFirstDescendantByKindOrThrow(
+        SyntaxKind.ArrowFunction,
+      );
+      const routes: RouteInfo[] = [
+        {
+          path: '/users',
+          method: 'get',
+          handlerName: 'userHandlers.list',
+          handlerNode,
+        },
+      ];
+
+      // ACT
+      const [qualified, member, camelCase] = await Promise.all(
+        (['qualified', 'member', 'camelCase'] as const).map((strategy) =>
+          buildOpenApiSpec(routes, {
+            title: 'API',
+            version: '1.0.0',
+            operationIdStrategy: strategy,
+          }),
+        ),
+      );
+
+      // ASSERT
+      expect(qualified.paths['/users'].get?.operationId).toBe(
+        'userHandlers.list',
+      );
+      expect(member.paths['/users'].get?.operationId).toBe('list');
+      expect(camelCase.paths['/users'].get?.operationId).toBe(
+        'userHandlersList',
+      );
+    });
+  });
+
+  describe('Discovered Request Types', () => {
+    it('should prefer request types found during discovery over handler generics', async () => {
+      // ARRANGE
+      const project = new Project({ useInMemoryFileSystem: true });
+      const file = project.createSourceFile(
+        'test.ts',
+        `
+        class UserController {
+          getById(id: number) {}
+        }
+      `,
+      );
+      const method = file
+        .getClassOrThrow('UserController')
+        .getMethodOrThrow('getById');
+
+      const routes: RouteInfo[] = [
+        {
+          path: '/users/:id',
+          method: 'get',
+          handlerName: 'UserController.getById',
+          handlerNode: method,
+          requestTypes: {
+            pathParams: { isNamed: false, typeText: '{ id: number }' },
+          },
+        },
+      ];
+      const options = { title: 'API', version: '1.0.0' };
+
+      // ACT
+      const spec = await buildOpenApiSpec(routes, options);
+
+      // ASSERT
+      expect(spec.paths['/users/{id}'].get?.parameters).toEqual([
+        { name: 'id', in: 'path', required: true, schema: { type: 'number' } },
+      ]);
+    });
+  });
+
+  describe('Response Status Codes', () => {
+    it('should build one response per status code the handler sends', async () => {
+      // ARRANGE
+      const project = new Project({ useInMemoryFileSystem: true });
+      const file = project.createSourceFile(
+        'test.ts',
+        `
+        import { Request, Response } from 'express';
+
+        enum StatusCodes {
+          CREATED = 201,
+        }
+
+        interface User {
+          id: string;
+        }
+
+        function createUser(req: Request<{}, User>, res: Response) {
+          if (!req.body) {
+            return res.status(400).json({ error: 'Missing body' });
+          }
+          res.status(StatusCodes.CREATED).json({ id: '1' });
+        }
+
+        function deleteUser(req: Request, res: Response) {
+          res.sendStatus(204);
+        }
+      `,
+      );
+      const routes: RouteInfo[] = [
+        {
+          path: '/users',
+          method: 'post',
+          handlerName: 'createUser',
+          handlerNode: file.getFunctionOrThrow('createUser'),
+        },
+        {
+          path: '/users/:id',
+          method: 'delete',
+          handlerName: 'deleteUser',
+          handlerNode: file.getFunctionOrThrow('deleteUser'),
+        },
+      ];
+      const options = { title: 'API', version: '1.0.0' };
+
+      // ACT
+      const spec = await buildOpenApiSpec(routes, options);
+
+      // ASSERT
+      expect(spec.paths['/users'].post?.responses).toEqual({
+        '201': {
+          description: 'Created',
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/User' },
+            },
+          },
+        },
+        '400': { description: 'Bad Request' },
+      });
+      expect(spec.paths['/users/{id}'].delete?.responses).toEqual({
+        '204': { description: 'No Content' },
+      });
+    });
+
+    it('should not add a 200 response next to a bodiless success status', async () => {
+      // ARRANGE
+      const project = new Project({ useInMemoryFileSystem: true });
+      const file = project.createSourceFile(
+        'test.ts',
+        `
+        import { Request, Response } from 'express';
+
+        interface User {
+          id: string;
+        }
+
+        function deleteUser(req: Request<{ id: string }, User>, res: Response) {
+          if (!req.params.id) {
+            return res.status(400).json({ error: 'Missing id' });
+          }
+          res.sendStatus(204);
+        }
+
+        function archiveUser(req: Request<{}, User>, res: Response) {
+          res.status(202).end();
+        }
+      `,
+      );
+      const routes: RouteInfo[] = [
+        {
+          path: '/users/:id',
+          method: 'delete',
+          handlerName: 'deleteUser',
+          handlerNode: file.getFunctionOrThrow('deleteUser'),
+        },
+        {
+          path: '/users/:id/archive',
+          method: 'post',
+          handlerName: 'archiveUser',
+          handlerNode: file.getFunctionOrThrow('archiveUser'),
+        },
+      ];
+      const options = { title: 'API', version: '1.0.0' };
+
+      // ACT
+      const spec = await buildOpenApiSpec(routes, options);
+
+      // ASSERT
+      expect(spec.paths['/users/{id}'].delete?.responses).toEqual({
+        '204': { description: 'No Content' },
+        '400': { description: 'Bad Request' },
+      });
+      expect(spec.paths['/users/{id}/archive'].post?.responses).toEqual({
+        '202': { description: 'Accepted' },
+      });
+    });
+  });
+
+  describe('Response Inference', () => {
+    it('should infer response schemas per status code when enabled', async () => {
+      // ARRANGE
+      const project = new Project({ useInMemoryFileSystem: true });
+      const file = project.createSourceFile(
+        'test.ts',
+        `
+        function getUser(req, res) {
+          if (!req.params.id) {
+            return res.status(400).json({ error: 'Missing id' });
+          }
+          if (req.query.list) {
+            return res.json([req.params.id as string]);
+          }
+          res.json({ id: req.params.id as string });
+        }
+      `,
+      );
+      const routes: RouteInfo[] = [
+        {
+          path: '/users/:id',
+          method: 'get',
+          handlerName: 'getUser',
+          handlerNode: file.getFunctionOrThrow('getUser'),
+        },
+      ];
+
+      // ACT
+      const defaultSpec = await buildOpenApiSpec(routes, {
+        title: 'API',
+        version: '1.0.0',
+      });
+      const inferredSpec = await buildOpenApiSpec(routes, {
+        title: 'API',
+        version: '1.0.0',
+        inferResponses: true,
+      });
+
+      // ASSERT
+      expect(defaultSpec.paths['/users/{id}'].get?.responses).toEqual({
+        '200': { description: 'Successful response' },
+        '400': { description: 'Bad Request' },
+      });
+      const responses = inferredSpec.paths['/users/{id}'].get?.responses;
+      expect(responses?.['200'].content?.['application/json'].schema).toEqual({
+        oneOf: [
+          { type: 'array', items: { type: 'string' } },
+          {
+            type: 'object',
+            properties: { id: { type: 'string' } },
+            required: ['id'],
+            additionalProperties: false,
+          },
+        ],
+      });
+      expect(responses?.['400']).toEqual({
+        description: 'Bad Request',
+        content: {
+          'application/json': {
+            schema: {
+              type: 'object',
+              properties: { error: { type: 'string' } },
+              required: ['error'],
+              additionalProperties: false,
+            },
+          },
+        },
+      });
+    });
+  });
+
+  describe('Response Maps', () => {
+    it('should build one response per status code of a typed response map', async () => {
+      // ARRANGE
+      const project = new Project({ useInMemoryFileSystem: true });
+      const file = project.createSourceFile(
+        'test.ts',
+        `
+        import { Request, Response } from 'express';
+
+        interface User {
+          id: string;
+        }
+
+        interface NotFoundError {
+          message: string;
+        }
+
+        type TypedResponse<M> = Response<M[keyof M]>;
+
+        function getUser(req: Request, res: TypedResponse<{ 200: User; 404: NotFoundError }>) {
+          res.json({ id: '1' });
+        }
+      `,
+      );
+      const routes: RouteInfo[] = [
+        {
+          path: '/users/:id',
+          method: 'get',
+          handlerName: 'getUser',
+          handlerNode: file.getFunctionOrThrow('getUser'),
+        },
+      ];
+      const options = { title: 'API', version: '1.0.0' };
+
+      // ACT
+      const spec = await buildOpenApiSpec(routes, options);
+
+      // ASSERT
+      expect(spec.paths['/users/{id}'].get?.responses).toEqual({
+        '200': {
+          description: 'Successful response',
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/User' },
+            },
+          },
+        },
+        '404': {
+          description: 'Not Found',
+          content: {
+            'application/json': {
+              schema: { $ref: '#/components/schemas/NotFoundError' },
+            },
+          },
+        },
+      });
+      expect(spec.components?.schemas?.NotFoundError).toBeDefined();
+    });
+  });
+
+  describe('Validator Schemas', () => {
+    it('should use validator schemas for body, query and header parameters', async () => {
+      // ARRANGE
+      const project = new Project({ useInMemoryFileSystem: true });
+      const file = project.createSourceFile(
+        'test.ts',
+        `
+        function signup(req, res) {}
+      `,
+      );
+      const routes: RouteInfo[] = [
+        {
+          path: '/signup',
+          method: 'post',
+          handlerName: 'signup',
+          handlerNode: file.getFunctionOrThrow('signup'),
+          requestTypes: {
+            bodyParams: {
+              isNamed: false,
+              schema: {
+                type: 'object',
+                properties: { email: { type: 'string', format: 'email' } },
+                required: ['email'],
+              },
+            },
+            queryParams: {
+              isNamed: false,
+              schema: {
+                type: 'object',
+                properties: {
+                  invite: { type: 'string' },
+                  ref: { type: 'string' },
+                },
+                required: ['invite'],
+              },
+            },
+            headerParams: {
+              isNamed: false,
+              schema: {
+                type: 'object',
+                properties: { 'x-tenant-id': { type: 'string' } },
+                required: ['x-tenant-id'],
+              },
+            },
+          },
+        },
+      ];
+      const options = { title: 'API', version: '1.0.0' };
+
+      // ACT
+      const spec = await buildOpenApiSpec(routes, options);
+
+      // ASSERT
+      const operation = spec.paths['/signup'].post;
+      expect(operation?.parameters).toEqual([
+        {
+          name: 'invite',
+          in: 'query',
+          required: true,
+          schema: { type: 'string' },
+        },
+        {
+          name: 'ref',
+          in: 'query',
+          required: false,
+          schema: { type: 'string' },
+        },
+        {
+          name: 'x-tenant-id',
+          in: 'header',
+          required: true,
+          schema: { type: 'string' },
+        },
+      ]);
+      expect(
+        operation?.requestBody?.content['application/json'].schema,
+      ).toEqual({
+        type: 'object',
+        properties: { email: { type: 'string', format: 'email' } },
+        required: ['email'],
+      });
+    });
+
+    it('should apply class-validator constraints to DTO classes', async () => {
+      // ARRANGE
+      const project = new Project({ useInMemoryFileSystem: true });
+      const file = project.createSourceFile(
+        'test.ts',
+        `
+        import { Request, Response } from 'express';
+        import { IsEmail, IsOptional, Length, ValidateNested } from 'class-validator';
+        import { Type } from 'class-transformer';
+
+        class AddressDto {
+          @Length(2, 50) city: string;
+        }
+
+        class CreateUserDto {
+          @IsEmail() email: string;
+          @IsOptional() nickname: string;
+          @ValidateNested() @Type(() => AddressDto) address: AddressDto;
+        }
+
+        function createUser(
+          req: Request<{}, {}, CreateUserDto>,
+          res: Response
+        ) {}
+      `,
+      );
+      const routes: RouteInfo[] = [
+        {
+          path: '/users',
+          method: 'post',
+          handlerName: 'createUser',
+          handlerNode: file.getFunctionOrThrow('createUser'),
+        },
+      ];
+      const options = { title: 'API', version: '1.0.0' };
+
+      // ACT
+      const spec = await buildOpenApiSpec(routes, options);
+
+      // ASSERT
+      expect(spec.components?.schemas?.CreateUserDto).toMatchObject({
+        type: 'object',
+        properties: {
+          email: { type: 'string', format: 'email' },
+          nickname: { type: 'string' },
+          address: { $ref: '#/components/schemas/AddressDto' },
+        },
+        required: ['email', 'address'],
+      });
+      expect(spec.components?.schemas?.AddressDto).toMatchObject({
+        type: 'object',
+        properties: { city: { type: 'string', minLength: 2, maxLength: 50 } },
+        required: ['city'],
+      });
+    });
+
+    it('should build schemas of types inferred from TypeBox schemas', async () => {
+      // ARRANGE
+      const project = new Project({ useInMemoryFileSystem: true });
+      const file = project.createSourceFile(
+        'test.ts',
+        `
+        import { Request, Response } from 'express';
+        import { Type, Static } from '@sinclair/typebox';
+
+        const CreateUserSchema = Type.Object({
+          email: Type.String({ format: 'email' }),
+          age: Type.Optional(Type.Integer({ minimum: 18 })),
+        });
+        type CreateUser = Static<typeof CreateUserSchema>;
+
+        function createUser(
+          req: Request<{}, {}, CreateUser>,
+          res: Response
+        ) {}
+      `,
+      );
+      const routes: RouteInfo[] = [
+        {
+          path: '/users',
+          method: 'post',
+          handlerName: 'createUser',
+          handlerNode: file.getFunctionOrThrow('createUser'),
+        },
+      ];
+      const options = { title: 'API', version: '1.0.0' };
+
+      // ACT
+      const spec = await buildOpenApiSpec(routes, options);
+
+      // ASSERT
+      expect(spec.components?.schemas?.CreateUser).toEqual({
+        type: 'object',
+        properties: {
+          email: { type: 'string', format: 'email' },
+          age: { type: 'integer', minimum: 18 },
+        },
+        required: ['email'],
+      });
+    });
+
+    it('should add headers read by middleware and handlers to typed headers', async () => {
+      // ARRANGE
+      const project = new Project({ useInMemoryFileSystem: true });
+      const file = project.createSourceFile(
+        'test.ts',
+        `
+        import { Request, Response, NextFunction } from 'express';
+        import { TypedHeaders } from './http';
+
+        function requireTenant(req: Request, res: Response, next: NextFunction) {
+          const tenantId = req.header('x-tenant-id');
+          if (!tenantId) {
+            return res.status(400).json({ error: 'Missing tenant' });
+          }
+          next();
+        }
+
+        function updateUser(
+          req: TypedHeaders<{ 'if-match'?: string }>,
+          res: Response
+        ) {
+          console.log(req.get('X-Request-Id'), req.headers['x-tenant-id']);
+        }
+      `,
+      );
+      const routes: RouteInfo[] = [
+        {
+          path: '/users',
+          method: 'put',
+          handlerName: 'updateUser',
+          handlerNode: file.getFunctionOrThrow('updateUser'),
+          middlewareNodes: [file.getFunctionOrThrow('requireTenant')],
+        },
+      ];
+      const options = { title: 'API', version: '1.0.0' };
+
+      // ACT
+      const spec = await buildOpenApiSpec(routes, options);
+
+      // ASSERT
+      const parameters = spec.paths['/users'].put?.parameters;
+      expect(parameters).toEqual([
+        {
+          name: 'if-match',
+          in: 'header',
+          required: false,
+          schema: { type: 'string' },
+        },
+        {
+          name: 'x-tenant-id',
+          in: 'header',
+          required: true,
+          schema: { type: 'string' },
+        },
+        {
+          name: 'X-Request-Id',
+          in: 'header',
+          required: false,
+          schema: { type: 'string' },
+        },
+      ]);
+    });
+  });
 });
@@ -0,0 +1,175 @@
+import { describe, it, expect } from 'vitest';
+import { Project, SyntaxKind } from 'ts-morph';
+import {
+  evaluateStaticString,
+  evaluateEnumValues,
+  enumSchema,
+} from '../../src/ast/static-evaluator.mjs';
+
+function getCallArgument(code: string, fileName = 'test.ts', project?: Project) {
+  const targetProject = project ?? new Project({ useInMemoryFileSystem: true });
+  const file = targetProject.createSourceFile(fileName, code);
+  const call = file
+    .getDescendantsOfKind(SyntaxKind.CallExpression)
+    .find((c) => c.getExpression().getText() === 'app.get');
+  return call!.getArguments()[0];
+}
+
+describe('Static Evaluator', () => {
+  it('should evaluate string literals', () => {
+    // ARRANGE
+    const arg = getCallArgument(`app.get('/users', handler);`);
+
+    // ACT
+    const result = evaluateStaticString(arg);
+
+    // ASSERT
+    expect(result).toBe('/users');
+  });
+
+  it('should evaluate const variables', () => {
+    // ARRANGE
+    const arg = getCallArgument(`
+      const USERS_PATH = '/users';
+      app.get(USERS_PATH, handler);
+    `);
+
+    // ACT
+    const result = evaluateStaticString(arg);
+
+    // ASSERT
+    expect(result).toBe('/users');
+  });
+
+  it('should evaluate template literals with const substitutions', () => {
+    // ARRANGE
+    const arg = getCallArgument(`
+      const API_PREFIX = '/api/v2';
+      const VERSION = 2;
+      app.get(\`\${API_PREFIX}/users/v\${VERSION}\`, handler);
+    `);
+
+    // ACT
+    const result = evaluateStaticString(arg);
+
+    // ASSERT
+    expect(result).toBe('/api/v2/users/v2');
+  });
+
+  it('should evaluate string concatenation', () => {
+    // ARRANGE
+    const arg = getCallArgument(`
+      const API_PREFIX = '/api';
+      app.get(API_PREFIX + '/users' + '/:id', handler);
+    `);
+
+    // ACT
+    const result = evaluateStaticString(arg);
+
+    // ASSERT
+    expect(result).toBe('/api/users/:id');
+  });
+
+  it('should evaluate object literal properties', () => {
+    // ARRANGE
+    const arg = getCallArgument(`
+      const ROUTES = { users: '/users', posts: '/posts' };
+      app.get(ROUTES['posts'], handler);
+    `);
+
+    // ACT
+    const result = evaluateStaticString(arg);
+
+    // ASSERT
+    expect(result).toBe('/posts');
+  });
+
+  it('should evaluate enum members', () => {
+    // ARRANGE
+    const arg = getCallArgument(`
+      enum Routes {
+        Users = '/users',
+        Posts = '/posts',
+      }
+      app.get(Routes.Posts, handler);
+    `);
+
+    // ACT
+    const result = evaluateStaticString(arg);
+
+    // ASSERT
+    expect(result).toBe('/posts');
+  });
+
+  it('should follow imported path constants', () => {
+    // ARRANGE
+    const project = new Project({ useInMemoryFileSystem: true });
+    project.createSourceFile(
+      'routes.ts',
+      `
+      const BASE = '/api';
+      export const ROUTES = {
+        users: \`\${BASE}/users\`,
+      };
+      `,
+    );
+    const arg = getCallArgument(
+      `
+      import { ROUTES } from './routes';
+      app.get(ROUTES.users, handler);
+      `,
+      'main.ts',
+      project,
+    );
+
+    // ACT
+    const result = evaluateStaticString(arg);
+
+    // ASSERT
+    expect(result).toBe('/api/users');
+  });
+
+  it('should return null for values that are not static', () => {
+    // ARRANGE
+    const arg = getCallArgument(`
+      let prefix = '/api';
+      app.get(prefix + getSuffix(), handler);
+    `);
+
+    // ACT
+    const result = evaluateStaticString(arg);
+
+    // ASSERT
+    expect(result).toBeNull();
+  });
+
+  it('should evaluate enum values of arrays, constant objects and enums', () => {
+    // ARRANGE
+    const project = new Project({ useInMemoryFileSystem: true });
+    const file = project.createSourceFile(
+      'test.ts',
+      `
+      const ROLES = ['admin', 'user'] as const;
+      const Status = { Active: 1, Inactive: 0 } as const;
+      enum Color { Red = 'red', Blue = 'blue' }
+      app.get(ROLES, Status, Color);
+    `,
+    );
+    const args = file
+      .getFirstDescendantByKindOrThrow(SyntaxKind.CallExpression)
+      .getArguments();
+
+    // ACT
+    const [roles, status, color] = args.map((arg) => evaluateEnumValues(arg));
+
+    // ASSERT
+    expect(roles).toEqual(['admin', 'user']);
+    expect(status).toEqual([1, 0]);
+    expect(color).toEqual(['red', 'blue']);
+    expect(enumSchema(color!)).toEqual({
+      type: 'string',
+      enum: ['red', 'blue'],
+    });
+    expect(enumSchema(['a', 1])).toEqual({ enum: ['a', 1] });
+  });
+});
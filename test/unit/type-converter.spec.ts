@@ -113,5 +113,20 @@ describe('Type Converter', () => {
         },
       });
     });
+
+    it('should remove quotes from quoted property names', async () => {
+      // ARRANGE
+      const typeText = `{ 'x-tenant-id': string; "if-match"?: string }`;
+
+      // ACT
+      const schema = await convertTypeToSchema(typeText);
+
+      // ASSERT
+      expect(Object.keys(schema.properties ?? {})).toEqual([
+        'x-tenant-id',
+        'if-match',
+      ]);
+      expect(schema.required).toEqual(['x-tenant-id']);
+    });
   });
 });
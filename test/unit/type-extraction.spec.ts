@@ -1,5 +1,5 @@
 import { describe, it, expect, vi } from 'vitest';
-import { Project } from 'ts-morph';
+import { Project, Node } from 'ts-morph';
 import { extractRequestTypes, expandTypeToStructure } from '../../src/core/type-extraction.mjs';
 
 describe('Type Extraction', () => {
@@ -534,6 +534,518 @@ describe('Type Extraction', () => {
       expect(result?.responseBody?.resolvedTypeText).not.toContain('password');
     });
   });
+
+  describe('Custom Request Types', () => {
+    it('should map type parameters of an interface extending Request', () => {
+      // ARRANGE
+      const project = new Project({ useInMemoryFileSystem: true });
+      const file = project.createSourceFile(
+        'test.ts',
+        `
+        import { Request, Response } from 'express';
+
+        interface CreateUser {
+          name: string;
+        }
+
+        interface AuthedRequest<P, B> extends Request<P, any, B> {
+          user: { id: string };
+        }
+
+        function createUser(req: AuthedRequest<{ orgId: string }, CreateUser>, res: Response) {
+          res.json({});
+        }
+      `,
+      );
+      const func = file.getFunctions()[0];
+
+      // ACT
+      const result = extractRequestTypes(func);
+
+      // ASSERT
+      expect(result?.pathParams?.typeText).toContain('orgId');
+      expect(result?.bodyParams?.isNamed).toBe(true);
+      expect(result?.bodyParams?.typeName).toBe('CreateUser');
+    });
+
+    it('should resolve type aliases of Request', () => {
+      // ARRANGE
+      const project = new Project({ useInMemoryFileSystem: true });
+      const file = project.createSourceFile(
+        'test.ts',
+        `
+        import { Request, Response } from 'express';
+
+        interface Filter {
+          limit: number;
+        }
+
+        type QueryRequest<Q = Filter> = Request<{}, {}, {}, Q> & { requestId: string };
+
+        function listUsers(req: QueryRequest, res: Response) {
+          res.json([]);
+        }
+      `,
+      );
+      const func = file.getFunctions()[0];
+
+      // ACT
+      const result = extractRequestTypes(func);
+
+      // ASSERT
+      expect(result?.pathParams).toBeUndefined();
+      expect(result?.queryParams?.typeName).toBe('Filter');
+    });
+
+    it('should resolve qualified and renamed Express imports', () => {
+      // ARRANGE
+      const project = new Project({ useInMemoryFileSystem: true });
+      const file = project.createSourceFile(
+        'test.ts',
+        `
+        import express from 'express';
+        import { Request as Req, Response as Res } from 'express';
+
+        function getUser(req: express.Request<{ id: string }>, res: express.Response) {
+          res.json({});
+        }
+
+        function updateUser(req: Req<{}, {}, { name: string }>, res: Res<{ ok: boolean }>) {
+          res.json({ ok: true });
+        }
+      `,
+      );
+      const [getUser, updateUser] = file.getFunctions();
+
+      // ACT
+      const getResult = extractRequestTypes(getUser);
+      const updateResult = extractRequestTypes(updateUser);
+
+      // ASSERT
+      expect(getResult?.pathParams?.typeText).toContain('id');
+      expect(updateResult?.bodyParams?.typeText).toContain('name');
+      expect(updateResult?.responseBody?.typeText).toContain('ok');
+    });
+
+    it('should resolve custom Response types imported from another file', () => {
+      // ARRANGE
+      const project = new Project({ useInMemoryFileSystem: true });
+      project.createSourceFile(
+        'types.ts',
+        `
+        import { Response } from 'express';
+
+        export interface User {
+          id: string;
+        }
+
+        export interface ApiResponse<T> extends Response<T> {}
+      `,
+      );
+      const file = project.createSourceFile(
+        'test.ts',
+        `
+        import { Request } from 'express';
+        import { ApiResponse, User } from './types';
+
+        function getUser(req: Request, res: ApiResponse<User>) {
+          res.json({ id: '1' });
+        }
+      `,
+      );
+      const func = file.getFunctions()[0];
+
+      // ACT
+      const result = extractRequestTypes(func);
+
+      // ASSERT
+      expect(result?.responseBody?.typeName).toBe('User');
+    });
+
+    it('should ignore custom types that do not extend Express types', () => {
+      // ARRANGE
+      const project = new Project({ useInMemoryFileSystem: true });
+      const file = project.createSourceFile(
+        'test.ts',
+        `
+        interface Request<P> {
+          params: P;
+        }
+
+        interface JobRequest<P> {
+          job: P;
+        }
+
+        function handle(req: JobRequest<{ id: string }>, res: any) {
+          res.json({});
+        }
+      `,
+      );
+      const func = file.getFunctions()[0];
+
+      // ACT
+      const result = extractRequestTypes(func);
+
+      // ASSERT
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('Handler Type Annotations', () => {
+    it('should extract types from a RequestHandler variable annotation', () => {
+      // ARRANGE
+      const project = new Project({ useInMemoryFileSystem: true });
+      const file = project.createSourceFile(
+        'test.ts',
+        `
+        import { RequestHandler } from 'express';
+
+        interface UserParams {
+          id: string;
+        }
+
+        interface User {
+          id: string;
+          name: string;
+        }
+
+        export const getUser: RequestHandler<UserParams, User, never, { expand?: string }> = async (req, res) => {
+          res.json({ id: req.params.id, name: 'Ada' });
+        };
+      `,
+      );
+      const func = file.getVariableDeclarationOrThrow('getUser').getInitializerOrThrow();
+
+      // ACT
+      const result = extractRequestTypes(func);
+
+      // ASSERT
+      expect(result?.pathParams?.typeName).toBe('UserParams');
+      expect(result?.responseBody?.typeName).toBe('User');
+      expect(result?.queryParams?.typeText).toContain('expand');
+      expect(result?.bodyParams).toBeUndefined();
+    });
+
+    it('should extract types from satisfies and as clauses', () => {
+      // ARRANGE
+      const project = new Project({ useInMemoryFileSystem: true });
+      const file = project.createSourceFile(
+        'test.ts',
+        `
+        import { Handler, RequestHandler } from 'express';
+
+        interface CreateUser {
+          name: string;
+        }
+
+        type CreateUserHandler = RequestHandler<{}, { id: string }, CreateUser>;
+
+        const createUser = (async (req, res) => {
+          res.json({ id: '1' });
+        }) satisfies CreateUserHandler;
+
+        const deleteUser = ((req, res) => {
+          res.end();
+        }) as Handler<{ id: string }>;
+      `,
+      );
+      const [createUser, deleteUser] = ['createUser', 'deleteUser'].map((name) =>
+        file.getVariableDeclarationOrThrow(name).getInitializerOrThrow().getFirstDescendantOrThrow(Node.isArrowFunction),
+      );
+
+      // ACT
+      const createResult = extractRequestTypes(createUser);
+      const deleteResult = extractRequestTypes(deleteUser);
+
+      // ASSERT
+      expect(createResult?.bodyParams?.typeName).toBe('CreateUser');
+      expect(createResult?.responseBody?.typeText).toContain('id');
+      expect(deleteResult?.pathParams?.typeText).toContain('id');
+    });
+
+    it('should extract types from configured handler types', () => {
+      // ARRANGE
+      const project = new Project({ useInMemoryFileSystem: true });
+      const file = project.createSourceFile(
+        'test.ts',
+        `
+        import { AsyncHandler } from './lib/handlers';
+
+        const listUsers: AsyncHandler<{}, { id: string }[]> = async (req, res) => {
+          res.json([]);
+        };
+      `,
+      );
+      const func = file.getVariableDeclarationOrThrow('listUsers').getInitializerOrThrow();
+
+      // ACT
+      const withoutConfig = extractRequestTypes(func);
+      const result = extractRequestTypes(func, { handlerTypes: ['AsyncHandler'] });
+
+      // ASSERT
+      expect(withoutConfig).toBeNull();
+      expect(result?.responseBody?.typeText).toContain('id');
+    });
+
+    it('should prefer annotated Request parameters over the handler type', () => {
+      // ARRANGE
+      const project = new Project({ useInMemoryFileSystem: true });
+      const file = project.createSourceFile(
+        'test.ts',
+        `
+        import { Request, RequestHandler } from 'express';
+
+        const getUser: RequestHandler = (req: Request<{ userId: string }>, res) => {
+          res.json({});
+        };
+      `,
+      );
+      const func = file.getVariableDeclarationOrThrow('getUser').getInitializerOrThrow();
+
+      // ACT
+      const result = extractRequestTypes(func);
+
+      // ASSERT
+      expect(result?.pathParams?.typeText).toContain('userId');
+    });
+  });
+
+  describe('Contextual Types', () => {
+    const EXPRESS_TYPINGS = `
+      declare module 'express' {
+        interface ParamsDictionary { [key: string]: string }
+        interface ParsedQs { [key: string]: string }
+        export interface Request<P = ParamsDictionary, ResBody = any, ReqBody = any, ReqQuery = ParsedQs> {
+          params: P;
+          body: ReqBody;
+          query: ReqQuery;
+        }
+        export interface Response<ResBody = any> {
+          json(body: ResBody): this;
+        }
+        export interface RequestHandler<P = ParamsDictionary, ResBody = any, ReqBody = any, ReqQuery = ParsedQs> {
+          (req: Request<P, ResBody, ReqBody, ReqQuery>, res: Response<ResBody>): void;
+        }
+        export interface Express {
+          get<P = ParamsDictionary, ResBody = any, ReqBody = any, ReqQuery = ParsedQs>(
+            path: string,
+            handler: (req: Request<P, ResBody, ReqBody, ReqQuery>, res: Response<ResBody>) => void,
+          ): void;
+        }
+        export default function express(): Express;
+      }
+    `;
+
+    it('should fall back to the checker-resolved types of unannotated parameters', () => {
+      // ARRANGE
+      const project = new Project({ useInMemoryFileSystem: true });
+      project.createSourceFile('express.d.ts', EXPRESS_TYPINGS);
+      const file = project.createSourceFile(
+        'test.ts',
+        `
+        import express from 'express';
+        const app = express();
+
+        interface User {
+          id: string;
+          tags: string[];
+        }
+
+        app.get<{ id: string }, User, never, { expand?: string }>('/users/:id', (req, res) => {
+          res.json({ id: req.params.id, tags: [] });
+        });
+      `,
+      );
+      const func = file.getFirstDescendantOrThrow(Node.isArrowFunction);
+
+      // ACT
+      const result = extractRequestTypes(func);
+
+      // ASSERT
+      expect(result?.pathParams?.typeText).toBe('{ id: string }');
+      expect(result?.responseBody?.isNamed).toBe(false);
+      expect(result?.responseBody?.typeText).toBe('{ id: string; tags: string[] }');
+      expect(result?.bodyParams).toBeUndefined();
+      expect(result?.queryParams?.typeText).toBe('{ expand?: string }');
+    });
+
+    it('should keep the named ResBody of a handler type over the contextual Response', () => {
+      // ARRANGE
+      const project = new Project({ useInMemoryFileSystem: true });
+      project.createSourceFile('express.d.ts', EXPRESS_TYPINGS);
+      const file = project.createSourceFile(
+        'test.ts',
+        `
+        import { RequestHandler } from 'express';
+
+        interface User {
+          id: string;
+        }
+
+        export const getUser: RequestHandler<{ id: string }, User> = (req, res) => {
+          res.json({ id: req.params.id });
+        };
+      `,
+      );
+      const func = file.getVariableDeclarationOrThrow('getUser').getInitializerOrThrow();
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      // ACT
+      const result = extractRequestTypes(func);
+
+      // ASSERT
+      expect(result?.responseBody?.isNamed).toBe(true);
+      expect(result?.responseBody?.typeName).toBe('User');
+      expect(warn).not.toHaveBeenCalled();
+      warn.mockRestore();
+    });
+
+    it('should ignore the default Express type arguments', () => {
+      // ARRANGE
+      const project = new Project({ useInMemoryFileSystem: true });
+      project.createSourceFile('express.d.ts', EXPRESS_TYPINGS);
+      const file = project.createSourceFile(
+        'test.ts',
+        `
+        import express from 'express';
+        const app = express();
+
+        app.get('/health', (req, res) => {
+          res.json({ ok: true });
+        });
+      `,
+      );
+      const func = file.getFirstDescendantOrThrow(Node.isArrowFunction);
+
+      // ACT
+      const result = extractRequestTypes(func);
+
+      // ASSERT
+      expect(result).toBeNull();
+    });
+  });
+
+  describe('Response Maps', () => {
+    it('should extract status-code-keyed response maps', () => {
+      // ARRANGE
+      const project = new Project({ useInMemoryFileSystem: true });
+      const file = project.createSourceFile(
+        'test.ts',
+        `
+        import { Request, Response } from 'express';
+
+        interface User {
+          id: string;
+        }
+
+        interface NotFoundError {
+          message: string;
+        }
+
+        type TypedResponse<M> = Response<M[keyof M]>;
+
+        function getUser(req: Request, res: TypedResponse<{ 200: User; 404: NotFoundError; 422: { errors: string[] } }>) {
+          res.json({ id: '1' });
+        }
+
+        function deleteUser(req: Request, res: Response<{ 204: void; 404: NotFoundError }>) {
+          res.sendStatus(204);
+        }
+      `,
+      );
+      const [getUser, deleteUser] = file.getFunctions();
+
+      // ACT
+      const getResult = extractRequestTypes(getUser);
+      const deleteResult = extractRequestTypes(deleteUser);
+
+      // ASSERT
+      expect(getResult?.responseBody).toBeUndefined();
+      expect(Object.keys(getResult?.responseBodies ?? {})).toEqual(['200', '404', '422']);
+      expect(getResult?.responseBodies?.['200'].typeName).toBe('User');
+      expect(getResult?.responseBodies?.['404'].typeName).toBe('NotFoundError');
+      expect(getResult?.responseBodies?.['422'].typeText).toContain('errors');
+      expect(deleteResult?.responseBodies?.['204']).toEqual({ isNamed: false });
+      expect(deleteResult?.responseBodies?.['404'].typeName).toBe('NotFoundError');
+    });
+
+    it('should recognize configured response map helpers', () => {
+      // ARRANGE
+      const project = new Project({ useInMemoryFileSystem: true });
+      const file = project.createSourceFile(
+        'test.ts',
+        `
+        import { Request } from 'express';
+        import { ApiResponse } from './api';
+
+        function getUser(req: Request, res: ApiResponse<{ 200: { id: string } }>) {
+          res.json({ id: '1' });
+        }
+      `,
+      );
+      const func = file.getFunctions()[0];
+
+      // ACT
+      const withoutConfig = extractRequestTypes(func);
+      const result = extractRequestTypes(func, { responseMapTypes: ['ApiResponse'] });
+
+      // ASSERT
+      expect(withoutConfig?.responseBodies).toBeUndefined();
+      expect(result?.responseBodies?.['200'].typeText).toContain('id');
+    });
+
+    it('should take header params from typed headers helpers', () => {
+      // ARRANGE
+      const project = new Project({ useInMemoryFileSystem: true });
+      const file = project.createSourceFile(
+        'test.ts',
+        `
+        import { Request, Response } from 'express';
+        import { TypedHeaders, WithHeaders } from './http';
+
+        interface TenantHeaders { 'x-tenant-id': string; 'if-match'?: string }
+
+        function updateUser(req: TypedHeaders<TenantHeaders, { id: string }>, res: Response) {}
+        function listUsers(req: WithHeaders<{ 'x-request-id': string }>, res: Response) {}
+      `,
+      );
+      const [updateUser, listUsers] = file.getFunctions();
+
+      // ACT
+      const result = extractRequestTypes(updateUser);
+      const withoutConfig = extractRequestTypes(listUsers);
+      const configured = extractRequestTypes(listUsers, { headerTypes: ['WithHeaders'] });
+
+      // ASSERT
+      expect(result?.headerParams?.typeName).toBe('TenantHeaders');
+      expect(result?.pathParams?.typeText).toContain('id');
+      expect(withoutConfig?.headerParams).toBeUndefined();
+      expect(configured?.headerParams?.typeText).toContain('x-request-id');
+    });
+
+    it('should treat object types with other keys as a plain response body', () => {
+      // ARRANGE
+      const project = new Project({ useInMemoryFileSystem: true });
+      const file = project.createSourceFile(
+        'test.ts',
+        `
+        import { Request, Response } from 'express';
+
+        function getStats(req: Request, res: Response<{ 200: number; total: number }>) {
+          res.json({ 200: 1, total: 1 });
+        }
+      `,
+      );
+      const func = file.getFunctions()[0];
+
+      // ACT
+      const result = extractRequestTypes(func);
+
+      // ASSERT
+      expect(result?.responseBodies).toBeUndefined();
+      expect(result?.responseBody?.typeText).toContain('total');
+    });
+  });
 });
 
 describe('expandTypeToStructure', () => {
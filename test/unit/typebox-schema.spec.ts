@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { Project } from 'ts-morph';
+import { buildTypeBoxSchema } from '../../src/core/typebox-schema.mjs';
+
+function createFile(code: string) {
+  const project = new Project({ useInMemoryFileSystem: true });
+  return project.createSourceFile('test.ts', code);
+}
+
+describe('TypeBox Schema', () => {
+  it('should emit TypeBox options as JSON Schema keywords', () => {
+    // ARRANGE
+    const file = createFile(`
+      import { Type } from '@sinclair/typebox';
+
+      enum Role { Admin = 'admin', User = 'user' }
+
+      const Address = Type.Object({ city: Type.String() });
+
+      const User = Type.Object(
+        {
+          name: Type.String({ minLength: 1, maxLength: 50 }),
+          email: Type.String({ format: 'email' }),
+          age: Type.Optional(Type.Integer({ minimum: 0, description: 'Age in years' })),
+          role: Type.Enum(Role),
+          status: Type.Union([Type.Literal('active'), Type.Literal('banned')]),
+          nickname: Type.Union([Type.String(), Type.Null()]),
+          tags: Type.Array(Type.String(), { maxItems: 5 }),
+          address: Address,
+        },
+        { additionalProperties: false },
+      );
+    `);
+
+    // ACT
+    const schema = buildTypeBoxSchema(
+      file.getVariableDeclarationOrThrow('User').getNameNode(),
+    );
+
+    // ASSERT
+    expect(schema).toEqual({
+      type: 'object',
+      properties: {
+        name: { type: 'string', minLength: 1, maxLength: 50 },
+        email: { type: 'string', format: 'email' },
+        age: { type: 'integer', minimum: 0, description: 'Age in years' },
+        role: { type: 'string', enum: ['admin', 'user'] },
+        status: {
+          anyOf: [
+            { type: 'string', enum: ['active'] },
+            { type: 'string', enum: ['banned'] },
+          ],
+        },
+        nickname: { type: 'string', nullable: true },
+        tags: { type: 'array', items: { type: 'string' }, maxItems: 5 },
+        address: {
+          type: 'object',
+          properties: { city: { type: 'string' } },
+          required: ['city'],
+        },
+      },
+      required: [
+        'name',
+        'email',
+        'role',
+        'status',
+        'nickname',
+        'tags',
+        'address',
+      ],
+      additionalProperties: false,
+    });
+  });
+
+  it('should derive object schemas and reject unknown builders', () => {
+    // ARRANGE
+    const file = createFile(`
+      import { Type } from '@sinclair/typebox';
+
+      const User = Type.Object({ id: Type.String(), name: Type.String() });
+      const UserPatch = Type.Partial(Type.Omit(User, ['id']));
+      const Custom = Type.Unsafe({ type: 'string' });
+    `);
+
+    // ACT
+    const patch = buildTypeBoxSchema(
+      file.getVariableDeclarationOrThrow('UserPatch').getNameNode(),
+    );
+    const custom = buildTypeBoxSchema(
+      file.getVariableDeclarationOrThrow('Custom').getNameNode(),
+    );
+
+    // ASSERT
+    expect(patch).toEqual({
+      type: 'object',
+      properties: { name: { type: 'string' } },
+    });
+    expect(custom).toBeNull();
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { Project } from 'ts-morph';
+import { buildValibotSchema } from '../../src/core/valibot-schema.mjs';
+
+describe('Valibot Schema', () => {
+  it('should map Valibot schemas and pipe actions', () => {
+    // ARRANGE
+    const project = new Project({ useInMemoryFileSystem: true });
+    const file = project.createSourceFile(
+      'test.ts',
+      `
+      import * as v from 'valibot';
+      import { string, email } from 'valibot';
+
+      const CreateUserSchema = v.object({
+        name: v.pipe(v.string(), v.trim(), v.minLength(1), v.maxLength(50)),
+        email: string([email()]),
+        age: v.optional(v.pipe(v.number(), v.integer(), v.minValue(18))),
+        role: v.optional(v.picklist(['admin', 'user']), 'user'),
+        bio: v.nullable(v.pipe(v.string(), v.description('About the user'))),
+        tags: v.pipe(v.array(v.string()), v.maxLength(5)),
+        contact: v.union([v.pipe(v.string(), v.email()), v.number()]),
+      });
+    `,
+    );
+
+    // ACT
+    const schema = buildValibotSchema(
+      file.getVariableDeclarationOrThrow('CreateUserSchema').getNameNode(),
+    );
+
+    // ASSERT
+    expect(schema).toEqual({
+      type: 'object',
+      properties: {
+        name: { type: 'string', minLength: 1, maxLength: 50 },
+        email: { type: 'string', format: 'email' },
+        age: { type: 'integer', minimum: 18 },
+        role: { type: 'string', enum: ['admin', 'user'], default: 'user' },
+        bio: { type: 'string', description: 'About the user', nullable: true },
+        tags: { type: 'array', items: { type: 'string' }, maxItems: 5 },
+        contact: {
+          anyOf: [{ type: 'string', format: 'email' }, { type: 'number' }],
+        },
+      },
+      required: ['name', 'email', 'bio', 'tags', 'contact'],
+    });
+  });
+});
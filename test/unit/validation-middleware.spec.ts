@@ -0,0 +1,144 @@
+import { describe, it, expect, vi } from 'vitest';
+import { Project, SyntaxKind } from 'ts-morph';
+import {
+  extractValidationTypes,
+  DEFAULT_VALIDATION_MIDDLEWARE,
+} from '../../src/core/validation-middleware.mjs';
+
+// Minimal stand-in for the Zod typings: schemas expose their input type as `_input`
+const ZOD_TYPINGS = `
+  declare module 'zod' {
+    interface ZodType<Output, Input = Output> {
+      _output: Output;
+      _input: Input;
+    }
+    type Shape = Record<string, ZodType<unknown, unknown>>;
+    export const z: {
+      object<S extends Shape>(shape: S): ZodType<{ [K in keyof S]: S[K]['_output'] }, { [K in keyof S]: S[K]['_input'] }>;
+      string(): ZodType<string>;
+      number(): ZodType<number>;
+      stringToNumber(): ZodType<number, string>;
+    };
+  }
+`;
+
+function getRouteArguments(code: string) {
+  const project = new Project({ useInMemoryFileSystem: true });
+  project.createSourceFile('zod.d.ts', ZOD_TYPINGS);
+  const file = project.createSourceFile('test.ts', code);
+  const call = file
+    .getDescendantsOfKind(SyntaxKind.CallExpression)
+    .find((c) => c.getExpression().getText() === 'router.post')!;
+  return call.getArguments().slice(1);
+}
+
+describe('Validation Middleware', () => {
+  it('should extract body, query and params types from Zod schemas', () => {
+    // ARRANGE
+    const args = getRouteArguments(`
+      import { z } from 'zod';
+
+      const CreateUserSchema = z.object({ name: z.string(), age: z.number() });
+      const ListQuerySchema = z.object({ page: z.stringToNumber() });
+
+      router.post(
+        '/orgs/:orgId/users',
+        validateBody(CreateUserSchema),
+        validators.query(ListQuerySchema),
+        validateParams(z.object({ orgId: z.string() })),
+        createUser,
+      );
+    `);
+    const configs = [
+      { name: 'validateBody', target: 'body' as const },
+      { name: 'query', target: 'query' as const },
+      { name: 'validateParams', target: 'params' as const },
+    ];
+
+    // ACT
+    const types = extractValidationTypes(args, configs);
+
+    // ASSERT
+    expect(types?.bodyParams?.typeText).toBe('{ name: string; age: number }');
+    // The input type is used, i.e. what clients send before transforms
+    expect(types?.queryParams?.typeText).toBe('{ page: string }');
+    expect(types?.pathParams?.typeText).toBe('{ orgId: string }');
+  });
+
+  it('should extract request schemas and configured schema arguments', () => {
+    // ARRANGE
+    const args = getRouteArguments(`
+      import { z } from 'zod';
+
+      const body = z.object({ title: z.string() });
+
+      router.post(
+        '/posts',
+        validate({ body, query: z.object({ draft: z.string() }) }),
+        check('strict', z.object({ id: z.number() })),
+        createPost,
+      );
+    `);
+    const configs = [
+      { name: 'validate', target: 'request' as const },
+      { name: 'check', target: 'params' as const, schemaArgument: 1 },
+    ];
+
+    // ACT
+    const types = extractValidationTypes(args, configs);
+
+    // ASSERT
+    expect(types?.bodyParams?.typeText).toBe('{ title: string }');
+    expect(types?.queryParams?.typeText).toBe('{ draft: string }');
+    expect(types?.pathParams?.typeText).toBe('{ id: number }');
+  });
+
+  it('should warn when a schema type cannot be resolved', () => {
+    // ARRANGE
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const args = getRouteArguments(`
+      router.post('/users', validateBody(unknownSchema), createUser);
+    `);
+
+    // ACT
+    const types = extractValidationTypes(args, [
+      { name: 'validateBody', target: 'body' },
+    ]);
+
+    // ASSERT
+    expect(types).toBeNull();
+    expect(warnSpy).toHaveBeenCalledWith(
+      expect.stringContaining('Could not derive a body schema'),
+    );
+    warnSpy.mockRestore();
+  });
+
+  it('should extract Joi schemas from celebrate segments', () => {
+    // ARRANGE
+    const args = getRouteArguments(`
+      import { celebrate, Joi, Segments } from 'celebrate';
+
+      router.post(
+        '/users',
+        celebrate({
+          [Segments.BODY]: Joi.object({ name: Joi.string().max(50).required() }),
+          [Segments.HEADERS]: Joi.object({
+            'x-tenant-id': Joi.string().required(),
+          }).unknown(),
+        }),
+        createUser,
+      );
+    `);
+
+    // ACT
+    const types = extractValidationTypes(args, DEFAULT_VALIDATION_MIDDLEWARE);
+
+    // ASSERT
+    expect(types?.bodyParams?.schema).toEqual({
+      type: 'object',
+      properties: { name: { type: 'string', maxLength: 50 } },
+      required: ['name'],
+    });
+    expect(types?.headerParams?.schema?.required).toEqual(['x-tenant-id']);
+  });
+});
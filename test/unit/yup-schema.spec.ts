@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { Project } from 'ts-morph';
+import { buildYupSchema } from '../../src/core/yup-schema.mjs';
+
+describe('Yup Schema', () => {
+  it('should map Yup types, presence and constraints', () => {
+    // ARRANGE
+    const project = new Project({ useInMemoryFileSystem: true });
+    const file = project.createSourceFile(
+      'test.ts',
+      `
+      import * as yup from 'yup';
+      import { string } from 'yup';
+
+      const addressSchema = yup.object({ city: string().required() });
+
+      const userSchema = yup.object({
+        name: yup.string().trim().max(50).required(),
+        email: yup.string().email().required('Email is required'),
+        age: yup.number().integer().moreThan(17),
+        role: yup.string().oneOf(['admin', 'user']).default('user'),
+        code: yup.string().matches(/^[A-Z]{3}$/).nullable(),
+        tags: yup.array().of(yup.string()).max(5),
+        address: addressSchema.required(),
+        nickname: yup.string().test('no-spaces', 'No spaces', (v) => !v?.includes(' ')),
+      });
+    `,
+    );
+
+    // ACT
+    const schema = buildYupSchema(
+      file.getVariableDeclarationOrThrow('userSchema').getNameNode(),
+    );
+
+    // ASSERT
+    expect(schema).toEqual({
+      type: 'object',
+      properties: {
+        name: { type: 'string', maxLength: 50 },
+        email: { type: 'string', format: 'email' },
+        age: { type: 'integer', minimum: 17, exclusiveMinimum: true },
+        role: { type: 'string', enum: ['admin', 'user'], default: 'user' },
+        code: { type: 'string', pattern: '^[A-Z]{3}$', nullable: true },
+        tags: { type: 'array', items: { type: 'string' }, maxItems: 5 },
+        address: {
+          type: 'object',
+          properties: { city: { type: 'string' } },
+          required: ['city'],
+        },
+        nickname: { type: 'string' },
+      },
+      required: ['name', 'email', 'address'],
+    });
+  });
+});
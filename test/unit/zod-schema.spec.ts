@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import { Project } from 'ts-morph';
+import { buildZodSchema } from '../../src/core/zod-schema.mjs';
+
+function createFile(code: string) {
+  const project = new Project({ useInMemoryFileSystem: true });
+  return project.createSourceFile('test.ts', code);
+}
+
+describe('Zod Schema', () => {
+  it('should keep string, number and array constraints', () => {
+    // ARRANGE
+    const file = createFile(`
+      import { z } from 'zod';
+
+      const UserSchema = z.object({
+        name: z.string().min(3).max(50).describe('Display name'),
+        email: z.string().email(),
+        id: z.string().uuid(),
+        slug: z.string().regex(/^[a-z-]+$/),
+        age: z.number().int().positive().max(150).optional(),
+        score: z.number().gte(0).lt(10),
+        tags: z.array(z.string()).min(1),
+        nickname: z.string().nullable(),
+      });
+    `);
+
+    // ACT
+    const schema = buildZodSchema(
+      file.getVariableDeclarationOrThrow('UserSchema').getNameNode(),
+    );
+
+    // ASSERT
+    expect(schema).toEqual({
+      type: 'object',
+      properties: {
+        name: {
+          type: 'string',
+          minLength: 3,
+          maxLength: 50,
+          description: 'Display name',
+        },
+        email: { type: 'string', format: 'email' },
+        id: { type: 'string', format: 'uuid' },
+        slug: { type: 'string', pattern: '^[a-z-]+$' },
+        age: {
+          type: 'integer',
+          minimum: 0,
+          exclusiveMinimum: true,
+          maximum: 150,
+        },
+        score: {
+          type: 'number',
+          minimum: 0,
+          maximum: 10,
+          exclusiveMaximum: true,
+        },
+        tags: { type: 'array', items: { type: 'string' }, minItems: 1 },
+        nickname: { type: 'string', nullable: true },
+      },
+      required: ['name', 'email', 'id', 'slug', 'score', 'tags', 'nickname'],
+    });
+  });
+
+  it('should describe the input of defaults, enums and transforms', () => {
+    // ARRANGE
+    const file = createFile(`
+      import * as z from 'zod';
+
+      enum Status { Active = 'active', Archived = 'archived' }
+
+      const ROLES = ['admin', 'user'] as const;
+
+      const QuerySchema = z.object({
+        role: z.enum(ROLES).default('user'),
+        status: z.nativeEnum(Status),
+        page: z.string().transform(Number).pipe(z.number().int()).default('1'),
+        exact: z.literal(true),
+        sort: z.enum(['asc', 'desc']).catch('asc'),
+        limit: z.number().catch((ctx) => 10),
+      });
+    `);
+
+    // ACT
+    const schema = buildZodSchema(
+      file.getVariableDeclarationOrThrow('QuerySchema').getNameNode(),
+    );
+
+    // ASSERT
+    expect(schema).toEqual({
+      type: 'object',
+      properties: {
+        role: { type: 'string', enum: ['admin', 'user'], default: 'user' },
+        status: { type: 'string', enum: ['active', 'archived'] },
+        page: { type: 'string', default: '1' },
+        exact: { type: 'boolean', enum: [true] },
+        sort: { type: 'string', enum: ['asc', 'desc'], default: 'asc' },
+        limit: { type: 'number' },
+      },
+      required: ['status', 'exact'],
+    });
+  });
+
+  it('should return null for schemas it cannot interpret', () => {
+    // ARRANGE
+    const file = createFile(`
+      import { z } from 'zod';
+      import { customSchema } from './schemas';
+
+      const WithCustom = z.object({ id: customSchema });
+      const WithUnknownMethod = z.string().someNewMethod();
+    `);
+
+    // ACT
+    const withCustom = buildZodSchema(
+      file.getVariableDeclarationOrThrow('WithCustom').getNameNode(),
+    );
+    const withUnknownMethod = buildZodSchema(
+      file.getVariableDeclarationOrThrow('WithUnknownMethod').getNameNode(),
+    );
+
+    // ASSERT
+    expect(withCustom).toBeNull();
+    expect(withUnknownMethod).toBeNull();
+  });
+});